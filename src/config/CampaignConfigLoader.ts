@@ -0,0 +1,407 @@
+import { Decimal } from 'decimal.js';
+import { StrategyConfig, StrategyType } from '../models/interface';
+import { SUPPORTED_CURRENCIES } from '../money/Currency';
+import { FEE_TYPES } from '../discount-strategies/FeeWaiverStrategy';
+
+/**
+ * A single problem found in a campaign file, located by its path, e.g. `campaigns[2].config.brand`
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a campaign configuration does not match the schema. Lists every issue found.
+ */
+export class CampaignConfigError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(`Invalid campaign configuration:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'CampaignConfigError';
+  }
+}
+
+type FieldKind = 'string' | 'decimal' | 'integer' | 'date' | 'stringArray' | 'object' | 'tiers';
+
+interface FieldSpec {
+  kind: FieldKind;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  positive?: boolean;
+  oneOf?: string[]; // for kinds 'string' and 'stringArray'
+  fields?: ObjectSpec; // for kind 'object'
+}
+
+type ObjectSpec = Record<string, FieldSpec>;
+
+const STRATEGY_TYPES: StrategyType[] = ['brand', 'category', 'voucher', 'bank', 'payment', 'bundle', 'tiered', 'feeWaiver'];
+
+const ELIGIBILITY_FIELDS: ObjectSpec = {
+  currency: { kind: 'string', oneOf: SUPPORTED_CURRENCIES },
+  validFrom: { kind: 'date' },
+  validUntil: { kind: 'date' },
+  customerTiers: { kind: 'stringArray' },
+  excludedBrands: { kind: 'stringArray' }
+};
+
+const VALUE_FIELDS: ObjectSpec = {
+  discountPercentage: { kind: 'decimal', min: 0, max: 100 },
+  flatAmount: { kind: 'decimal', positive: true },
+  maxDiscountCap: { kind: 'decimal', min: 0 }
+};
+
+const MATCHER_FIELDS: ObjectSpec = {
+  brands: { kind: 'stringArray' },
+  categories: { kind: 'stringArray' },
+  productIds: { kind: 'stringArray' }
+};
+
+const BENEFIT_FIELDS: ObjectSpec = {
+  benefitType: { kind: 'string', oneOf: ['INSTANT', 'CASHBACK'] },
+  cashbackCreditDays: { kind: 'integer', min: 0 },
+  fundedBy: { kind: 'string' }
+};
+
+const MONTHLY_LIMIT_FIELDS: ObjectSpec = {
+  maxUsesPerMonth: { kind: 'integer', min: 0 },
+  maxDiscountPerMonth: { kind: 'decimal', min: 0 }
+};
+
+const BUDGET_FIELDS: ObjectSpec = {
+  total: { kind: 'decimal', required: true, min: 0 },
+  daily: { kind: 'decimal', min: 0 }
+};
+
+const CODE_FORMAT_FIELDS: ObjectSpec = {
+  prefix: { kind: 'string' },
+  separator: { kind: 'string' },
+  alphabet: { kind: 'string' },
+  length: { kind: 'integer', min: 1 }
+};
+
+const TIER_FIELDS: ObjectSpec = {
+  threshold: { kind: 'decimal', required: true, min: 0 },
+  ...VALUE_FIELDS
+};
+
+const CAMPAIGN_FIELDS: ObjectSpec = {
+  type: { kind: 'string', required: true, oneOf: STRATEGY_TYPES },
+  id: { kind: 'string' },
+  priority: { kind: 'integer' },
+  calculationMode: { kind: 'string', oneOf: ['SEQUENTIAL', 'BASE_PRICE'] },
+  stackingGroup: { kind: 'string' },
+  notCombinableWith: { kind: 'stringArray' },
+  budget: { kind: 'object', fields: BUDGET_FIELDS }
+};
+
+const CONFIG_FIELDS: Record<StrategyType, ObjectSpec> = {
+  brand: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    brand: { kind: 'string', required: true },
+    minimumCartAmount: { kind: 'decimal', min: 0 },
+    eligibleCategories: { kind: 'stringArray' }
+  },
+  category: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    category: { kind: 'string', required: true },
+    minimumCartAmount: { kind: 'decimal', min: 0 },
+    eligibleBrands: { kind: 'stringArray' }
+  },
+  voucher: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    code: { kind: 'string', required: true },
+    issuedCodes: { kind: 'stringArray' },
+    codeFormat: { kind: 'object', fields: CODE_FORMAT_FIELDS },
+    minimumCartAmount: { kind: 'decimal', min: 0 },
+    excludedCategories: { kind: 'stringArray' },
+    usageLimit: { kind: 'integer', min: 0 },
+    perCustomerLimit: { kind: 'integer', min: 0 }
+  },
+  bank: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    ...BENEFIT_FIELDS,
+    bankName: { kind: 'string', required: true },
+    minimumCartAmount: { kind: 'decimal', min: 0 },
+    eligibleCategories: { kind: 'stringArray' },
+    cardTypes: { kind: 'stringArray' },
+    cardNetworks: { kind: 'stringArray' },
+    binPrefixes: { kind: 'stringArray' },
+    monthlyLimits: { kind: 'object', fields: MONTHLY_LIMIT_FIELDS }
+  },
+  payment: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    ...BENEFIT_FIELDS,
+    name: { kind: 'string', required: true },
+    method: { kind: 'string', required: true, oneOf: ['UPI', 'WALLET'] },
+    providers: { kind: 'stringArray' },
+    minimumCartAmount: { kind: 'decimal', min: 0 },
+    eligibleCategories: { kind: 'stringArray' },
+    monthlyLimits: { kind: 'object', fields: MONTHLY_LIMIT_FIELDS }
+  },
+  bundle: {
+    ...ELIGIBILITY_FIELDS,
+    name: { kind: 'string', required: true },
+    kind: { kind: 'string', required: true, oneOf: ['BUY_X_GET_Y', 'FIXED_PRICE'] },
+    buy: { kind: 'object', required: true, fields: MATCHER_FIELDS },
+    buyQuantity: { kind: 'integer', required: true, min: 1 },
+    get: { kind: 'object', fields: MATCHER_FIELDS },
+    getQuantity: { kind: 'integer', min: 1 },
+    getDiscountPercentage: { kind: 'decimal', positive: true, max: 100 },
+    bundlePrice: { kind: 'decimal', min: 0 },
+    maxApplications: { kind: 'integer', min: 1 }
+  },
+  tiered: {
+    ...ELIGIBILITY_FIELDS,
+    name: { kind: 'string', required: true },
+    tiers: { kind: 'tiers', required: true },
+    excludedCategories: { kind: 'stringArray' }
+  },
+  feeWaiver: {
+    ...ELIGIBILITY_FIELDS,
+    ...VALUE_FIELDS,
+    name: { kind: 'string', required: true },
+    feeTypes: { kind: 'stringArray', required: true, oneOf: FEE_TYPES },
+    minimumCartAmount: { kind: 'decimal', min: 0 }
+  }
+};
+
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Turns plain JSON campaign definitions (e.g. exported by the campaign tool) into typed
+ * StrategyConfig objects. Amounts may be numbers or numeric strings and become Decimals;
+ * dates are ISO strings. Unknown fields are rejected to catch typos.
+ */
+export class CampaignConfigLoader {
+  private issues: ConfigIssue[] = [];
+
+  /**
+   * @param input - A JSON string or an already parsed array of campaigns
+   * @returns The typed strategy configurations, in input order
+   * @throws CampaignConfigError listing every invalid field with its path
+   */
+  load(input: unknown): StrategyConfig[] {
+    this.issues = [];
+
+    let campaigns = input;
+    if (typeof input === 'string') {
+      try {
+        campaigns = JSON.parse(input);
+      } catch (error: any) {
+        throw new CampaignConfigError([{ path: 'campaigns', message: `is not valid JSON (${error.message})` }]);
+      }
+    }
+    if (!Array.isArray(campaigns)) {
+      throw new CampaignConfigError([{ path: 'campaigns', message: 'must be an array' }]);
+    }
+
+    const configs = campaigns.map((campaign, index) => this.readCampaign(campaign, `campaigns[${index}]`));
+    if (this.issues.length > 0) {
+      throw new CampaignConfigError(this.issues);
+    }
+    return configs as StrategyConfig[];
+  }
+
+  private readCampaign(raw: unknown, path: string): Partial<StrategyConfig> {
+    if (!this.isObject(raw)) {
+      this.addIssue(path, 'must be an object');
+      return {};
+    }
+
+    const { config: rawConfig, ...rest } = raw;
+    const campaign = this.readObject(rest, CAMPAIGN_FIELDS, path);
+    const type = campaign.type as StrategyType | undefined;
+
+    if (!this.isObject(rawConfig)) {
+      this.addIssue(`${path}.config`, 'is required and must be an object');
+      return campaign;
+    }
+    if (!type || !CONFIG_FIELDS[type]) {
+      return campaign;
+    }
+
+    const config = this.readObject(rawConfig, CONFIG_FIELDS[type], `${path}.config`);
+    this.checkConfigRules(type, config, rawConfig, `${path}.config`);
+    return { ...campaign, config } as Partial<StrategyConfig>;
+  }
+
+  /**
+   * Rules spanning several fields, which the per-field specs cannot express.
+   * Presence is checked on the raw input so an invalid value is not also reported as missing.
+   */
+  private checkConfigRules(
+    type: StrategyType,
+    config: Record<string, any>,
+    raw: Record<string, unknown>,
+    path: string
+  ): void {
+    if (type === 'bundle') {
+      if (config.kind === 'BUY_X_GET_Y' && raw.getQuantity === undefined) {
+        this.addIssue(`${path}.getQuantity`, 'is required for BUY_X_GET_Y bundles');
+      }
+      if (config.kind === 'FIXED_PRICE' && raw.bundlePrice === undefined) {
+        this.addIssue(`${path}.bundlePrice`, 'is required for FIXED_PRICE bundles');
+      }
+    } else if (type === 'feeWaiver') {
+      // The whole fee is waived when neither is set
+      if (raw.discountPercentage !== undefined || raw.flatAmount !== undefined) {
+        this.checkDiscountValue(raw, path, true);
+      }
+    } else if (type !== 'tiered') {
+      this.checkDiscountValue(raw, path, true);
+    }
+
+    if (type === 'voucher' && raw.issuedCodes !== undefined && (raw.usageLimit !== undefined || raw.perCustomerLimit !== undefined)) {
+      this.addIssue(`${path}.issuedCodes`, 'cannot be combined with usageLimit or perCustomerLimit; issued codes are single-use');
+    }
+
+    if (config.benefitType === 'CASHBACK' && raw.cashbackCreditDays === undefined) {
+      this.addIssue(`${path}.cashbackCreditDays`, 'is required for CASHBACK offers');
+    }
+
+    if (config.validFrom && config.validUntil && config.validFrom.getTime() > config.validUntil.getTime()) {
+      this.addIssue(`${path}.validUntil`, 'must not be before validFrom');
+    }
+  }
+
+  private checkDiscountValue(raw: Record<string, unknown>, path: string, exactlyOne: boolean): void {
+    const hasPercentage = raw.discountPercentage !== undefined && raw.discountPercentage !== null;
+    const hasFlatAmount = raw.flatAmount !== undefined && raw.flatAmount !== null;
+    if (!hasPercentage && !hasFlatAmount) {
+      this.addIssue(path, 'requires discountPercentage or flatAmount');
+    } else if (exactlyOne && hasPercentage && hasFlatAmount) {
+      this.addIssue(path, 'must not set both discountPercentage and flatAmount');
+    }
+  }
+
+  private readObject(raw: Record<string, unknown>, spec: ObjectSpec, path: string): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const key of Object.keys(raw)) {
+      if (!spec[key]) {
+        this.addIssue(`${path}.${key}`, 'is not a known field');
+      }
+    }
+
+    for (const [key, field] of Object.entries(spec)) {
+      const value = raw[key];
+      const fieldPath = `${path}.${key}`;
+      if (value === undefined || value === null) {
+        if (field.required) {
+          this.addIssue(fieldPath, 'is required');
+        }
+        continue;
+      }
+      const parsed = this.readField(value, field, fieldPath);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+
+    return result;
+  }
+
+  private readField(value: unknown, field: FieldSpec, path: string): unknown {
+    switch (field.kind) {
+      case 'string':
+        if (typeof value !== 'string' || value.trim() === '') {
+          this.addIssue(path, 'must be a non-empty string');
+          return undefined;
+        }
+        if (field.oneOf && !field.oneOf.includes(value)) {
+          this.addIssue(path, `must be one of ${field.oneOf.join(', ')}`);
+          return undefined;
+        }
+        return value;
+
+      case 'decimal': {
+        if (!(typeof value === 'number' && Number.isFinite(value)) && !(typeof value === 'string' && NUMERIC_STRING.test(value.trim()))) {
+          this.addIssue(path, 'must be a number or a numeric string');
+          return undefined;
+        }
+        const decimal = new Decimal(typeof value === 'string' ? value.trim() : value);
+        return this.checkRange(decimal, field, path) ? decimal : undefined;
+      }
+
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          this.addIssue(path, 'must be an integer');
+          return undefined;
+        }
+        return this.checkRange(new Decimal(value), field, path) ? value : undefined;
+
+      case 'date': {
+        const date = typeof value === 'string' ? new Date(value) : undefined;
+        if (!date || Number.isNaN(date.getTime())) {
+          this.addIssue(path, 'must be an ISO 8601 date string');
+          return undefined;
+        }
+        return date;
+      }
+
+      case 'stringArray':
+        if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+          this.addIssue(path, 'must be an array of strings');
+          return undefined;
+        }
+        if (field.oneOf && value.some(entry => !field.oneOf!.includes(entry))) {
+          this.addIssue(path, `must only contain ${field.oneOf.join(', ')}`);
+          return undefined;
+        }
+        return [...value];
+
+      case 'object':
+        if (!this.isObject(value)) {
+          this.addIssue(path, 'must be an object');
+          return undefined;
+        }
+        return this.readObject(value, field.fields ?? {}, path);
+
+      case 'tiers':
+        if (!Array.isArray(value) || value.length === 0) {
+          this.addIssue(path, 'must be a non-empty array');
+          return undefined;
+        }
+        return value.map((tier, index) => {
+          const tierPath = `${path}[${index}]`;
+          if (!this.isObject(tier)) {
+            this.addIssue(tierPath, 'must be an object');
+            return {};
+          }
+          const parsed = this.readObject(tier, TIER_FIELDS, tierPath);
+          this.checkDiscountValue(tier, tierPath, false);
+          return parsed;
+        });
+    }
+  }
+
+  private checkRange(value: Decimal, field: FieldSpec, path: string): boolean {
+    if (field.positive && value.lessThanOrEqualTo(0)) {
+      this.addIssue(path, 'must be greater than 0');
+      return false;
+    }
+    if (field.min !== undefined && value.lessThan(field.min)) {
+      this.addIssue(path, `must be at least ${field.min}`);
+      return false;
+    }
+    if (field.max !== undefined && value.greaterThan(field.max)) {
+      this.addIssue(path, `must be at most ${field.max}`);
+      return false;
+    }
+    return true;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private addIssue(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+}
@@ -1,106 +1,597 @@
-import { CartItem, CustomerProfile, DiscountStrategy, PaymentInfo } from '../models/interface';
+import {
+  CalculationMode,
+  CartItem,
+  CustomerProfile,
+  DiscountCap,
+  DiscountStrategy,
+  LineItemBreakdown,
+  Logger,
+  PaymentInfo,
+  RoundingPolicy,
+  SkippedDiscount,
+  StrategyEntry,
+  StrategyTrace,
+  ValidationFailure
+} from '../models/interface';
 import { Decimal } from 'decimal.js';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { explainDiscountCap } from '../discount-strategies/DiscountValue';
+import { CampaignBudgetTracker } from '../eligibility/CampaignBudgetTracker';
+import { getCartCurrency, getCurrency, roundToMinorUnit } from '../money/Currency';
+import { Money } from '../money/Money';
+import { conflicts } from './StackingRules';
+
+// Above this many mutually exclusive offers the optimizer falls back to picking greedily by priority
+const MAX_OPTIMIZED_OFFERS = 12;
+
+interface SequenceResult {
+  finalPrice: Decimal;
+  appliedDiscounts: Map<string, Decimal>;
+  cashback: Map<string, Decimal>; // earned by cashback offers; not taken off finalPrice
+  lineItems: LineItemBreakdown[];
+  messages: string[];
+}
 
 export class DiscountApplier {
-  private strategies: DiscountStrategy[];
+  private entries: StrategyEntry[];
+  private readonly logger: Logger;
+  private readonly calculationMode: CalculationMode;
+  private readonly budgets: CampaignBudgetTracker;
+  private readonly rounding: RoundingPolicy;
 
-  constructor(strategies: DiscountStrategy[]) {
-    this.strategies = [...strategies].sort((a, b) => a.getPriority() - b.getPriority());
+  /**
+   * @param strategies - Strategies to apply, optionally wrapped in entries carrying stacking rules,
+   * a priority and a calculation mode. Plain strategies are identified by their discount name and
+   * combine with everything. Strategies with the same priority keep the order they were given in.
+   * @param logger - Destination for debug output
+   * @param calculationMode - Mode for entries that do not set their own
+   * @param budgets - Spend of the entries that have a campaign budget
+   * @param rounding - When amounts are rounded to the minor unit of the cart's currency
+   */
+  constructor(
+    strategies: (DiscountStrategy | StrategyEntry)[],
+    logger: Logger = new ConsoleLogger(),
+    calculationMode: CalculationMode = 'SEQUENTIAL',
+    budgets: CampaignBudgetTracker = new CampaignBudgetTracker(),
+    rounding: RoundingPolicy = 'PER_DISCOUNT'
+  ) {
+    this.entries = strategies
+      .map(strategy => ('strategy' in strategy ? strategy : { id: strategy.getDiscountName(), strategy }))
+      .sort((a, b) => this.priorityOf(a) - this.priorityOf(b));
+    this.logger = logger;
+    this.calculationMode = calculationMode;
+    this.budgets = budgets;
+    this.rounding = rounding;
   }
 
+  /**
+   * Applies the combination of allowed offers that gives the lowest final price, net of cashback.
+   * Offers left out because of stacking groups or exclusivity rules are listed in skippedDiscounts.
+   * A StrategyTrace per strategy is returned in priority order.
+   * @throws Error if the cart items are priced in more than one currency
+   */
   public async applyDiscounts(
+    cartItems: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<SequenceResult & { skippedDiscounts: SkippedDiscount[]; trace: StrategyTrace[] }> {
+    const selected = await this.selectBestCombination(cartItems, customer, paymentInfo);
+    const trace: StrategyTrace[] = [];
+    const result = await this.applySequence(selected, cartItems, customer, paymentInfo, trace);
+
+    const appliedEntries = selected.filter(entry => {
+      const name = entry.strategy.getDiscountName();
+      return result.appliedDiscounts.has(name) || result.cashback.has(name);
+    });
+    const skippedDiscounts = this.entries
+      .filter(entry => !selected.includes(entry))
+      .map(entry => ({
+        name: entry.strategy.getDiscountName(),
+        reason: this.describeSkip(entry, appliedEntries)
+      }));
+
+    for (const entry of this.entries.filter(entry => !selected.includes(entry))) {
+      trace.push({
+        ...this.startTrace(entry),
+        status: 'NOT_SELECTED',
+        reason: this.describeSkip(entry, appliedEntries)
+      });
+    }
+    trace.sort((a, b) => a.order - b.order);
+    return { ...result, skippedDiscounts, trace };
+  }
+
+  /**
+   * Applies the given strategies one after another, each on the price left by the previous ones.
+   * Cashback offers are calculated the same way but leave the price unchanged for the offers after them.
+   * Amounts are rounded to the minor unit of the cart's currency as the rounding policy says.
+   * When a trace array is passed, a StrategyTrace is pushed for every strategy.
+   */
+  private async applySequence(
+    entries: StrategyEntry[],
     cartItems: CartItem[],
     customer: CustomerProfile,
     paymentInfo?: PaymentInfo,
-    onDiscountApplied?: (discountName: string, amount: Decimal, cartItems: CartItem[]) => void
-  ): Promise<{
-    finalPrice: Decimal;
-    appliedDiscounts: Map<string, Decimal>;
-    messages: string[];
-  }> {
+    trace?: StrategyTrace[]
+  ): Promise<SequenceResult> {
+    const currency = getCartCurrency(cartItems);
     const appliedDiscounts = new Map<string, Decimal>();
+    const cashback = new Map<string, Decimal>();
+    const cappedDiscounts = new Set<string>();
     const messages: string[] = [];
     let finalPrice = this.calculateOriginalPrice(cartItems);
-    let shouldApplyDiscounts = true;
 
-    // Check if any strategy should be applied
-    for (const strategy of this.strategies) {
-      try {
-        if (await strategy.validate(cartItems, customer, paymentInfo)) {
-          shouldApplyDiscounts = true;
-          break;
-        }
-      } catch (error) {
-        // Continue checking other strategies
-      }
-    }
+    // Line totals are tracked separately so that allocated amounts never drift
+    // from the per-unit currentPrice (which may not divide evenly by quantity)
+    const originalUnitPrices = cartItems.map(item => new Decimal(item.product.currentPrice));
+    const lineTotals = cartItems.map(item => new Decimal(item.product.currentPrice).times(item.quantity));
+    const lineDiscounts: Record<string, Decimal>[] = cartItems.map(() => ({}));
 
-    // If no strategies are applicable, return original price
-    if (!shouldApplyDiscounts) {
-      return {
-        finalPrice,
-        appliedDiscounts,
-        messages
-      };
-    }
+    for (const entry of entries) {
+      const strategy = entry.strategy;
+      const record = this.startTrace(entry);
+      trace?.push(record);
+
+      if (finalPrice.isZero()) {
+        record.status = 'NOT_EVALUATED';
+        record.reason = 'Cart total had already been reduced to zero';
+        continue;
+      }
 
-    for (const strategy of this.strategies) {
       try {
         const currentTotal = this.calculateOriginalPrice(cartItems);
-        console.debug(`Validating ${strategy.getDiscountName()}, Current Cart Total: ${currentTotal}`);
-        
-        if (await strategy.validate(cartItems, customer, paymentInfo)) {
-          const discount = await strategy.calculateDiscount(cartItems, customer, paymentInfo);
-          console.debug(`Calculated ${strategy.getDiscountName()}: ${discount}, New Final Price: ${finalPrice.minus(discount)}`);
-          
-          if (discount.greaterThan(0)) {
-            // Calculate what the new price would be
-            const newPrice = finalPrice.minus(discount);
-            
-            // If the new price would be negative, cap the discount to prevent negative price
-            if (newPrice.lessThan(0)) {
-              console.debug(`Discount ${strategy.getDiscountName()} capped to prevent negative price`);
-              // Cap the discount to leave a minimum price of 0
-              const cappedDiscount = finalPrice;
-              finalPrice = new Decimal(0);
-              appliedDiscounts.set(strategy.getDiscountName(), cappedDiscount);
-              messages.push(`Applied ${strategy.getDiscountName()} (capped)`);
-              break;
-            }
-
-            finalPrice = newPrice;
-            appliedDiscounts.set(strategy.getDiscountName(), discount);
-            messages.push(`Applied ${strategy.getDiscountName()}`);
-
-            // Update currentPrice proportionally
-            const totalCurrentPrice = this.calculateOriginalPrice(cartItems);
-            if (totalCurrentPrice.greaterThan(0)) {
-              const discountRatio = discount.div(totalCurrentPrice);
-              for (const item of cartItems) {
-                const itemPrice = new Decimal(item.product.currentPrice).times(item.quantity);
-                const itemDiscount = itemPrice.times(discountRatio);
-                const newPrice = new Decimal(item.product.currentPrice).minus(itemDiscount.div(item.quantity));
-                item.product.currentPrice = newPrice.greaterThan(0) ? newPrice : new Decimal(0);
-              }
-            }
-
-            if (onDiscountApplied) {
-              onDiscountApplied(strategy.getDiscountName(), discount, cartItems);
-            }
+        this.logger.debug(`Validating ${strategy.getDiscountName()}, Current Cart Total: ${currentTotal}`);
+
+        // BASE_PRICE discounts are validated and calculated on the MRP, not on the price left so far
+        const pricedItems = record.calculationMode === 'BASE_PRICE' ? this.atBasePrice(cartItems) : cartItems;
+        const basisTotals = pricedItems === cartItems
+          ? lineTotals
+          : pricedItems.map(item => item.product.currentPrice.times(item.quantity));
+
+        const eligible = cartItems.map(item =>
+          strategy.isEligibleItem ? strategy.isEligibleItem(item) : true
+        );
+        const eligibleTotal = lineTotals.reduce(
+          (acc, lineTotal, index) => (eligible[index] ? acc.plus(lineTotal) : acc),
+          new Decimal(0)
+        );
+        const basisTotal = basisTotals.reduce(
+          (acc, lineTotal, index) => (eligible[index] ? acc.plus(lineTotal) : acc),
+          new Decimal(0)
+        );
+        record.eligibleSubtotal = basisTotal;
+
+        // A spent budget is checked first, so that no nudge promises a discount the campaign can no longer fund
+        const failure = this.checkCurrency(entry, currency) ??
+          (await this.budgets.explain(entry.id, entry.budget, entry.currency)) ??
+          (await this.findValidationFailure(strategy, pricedItems, customer, paymentInfo));
+        record.validationPassed = !failure;
+        if (failure) {
+          record.status = 'NOT_ELIGIBLE';
+          record.failure = await this.withinBudget(entry, failure);
+          continue;
+        }
+
+        // Validated just above, so a strategy that can is not asked to validate (and run its validator) again
+        const discount = strategy.calculateValidatedDiscount
+          ? await strategy.calculateValidatedDiscount(pricedItems, customer, paymentInfo)
+          : await strategy.calculateDiscount(pricedItems, customer, paymentInfo);
+        this.logger.debug(`Calculated ${strategy.getDiscountName()}: ${discount}, New Final Price: ${finalPrice.minus(discount)}`);
+        record.calculatedAmount = discount;
+        record.cap = this.findCap(strategy, pricedItems, basisTotal);
+
+        // Grant no more than what is left of the campaign budget
+        let appliedDiscount = discount;
+        let capped = false;
+        const remainingBudget = await this.budgets.remaining(entry.id, entry.budget);
+        if (remainingBudget && discount.greaterThan(remainingBudget)) {
+          this.logger.debug(`Discount ${strategy.getDiscountName()} capped to the remaining budget of ${remainingBudget}`);
+          appliedDiscount = remainingBudget;
+          capped = true;
+          record.cap = { reason: 'CAMPAIGN_BUDGET', uncappedAmount: discount, limit: remainingBudget };
+        }
+
+        // If the discount exceeds what is left on the eligible lines, cap it to prevent negative prices
+        if (appliedDiscount.greaterThan(eligibleTotal)) {
+          this.logger.debug(`Discount ${strategy.getDiscountName()} capped to prevent negative price`);
+          appliedDiscount = eligibleTotal;
+          capped = true;
+          record.cap = { reason: 'ELIGIBLE_SUBTOTAL', uncappedAmount: discount, limit: eligibleTotal };
+        }
+        // Rounding never takes a capped discount above its cap
+        const isCashback = strategy.getBenefit?.().type === 'CASHBACK';
+        if (this.rounding === 'PER_DISCOUNT' || (isCashback && this.rounding === 'PER_LINE')) {
+          appliedDiscount = roundToMinorUnit(appliedDiscount, currency, capped ? Decimal.ROUND_DOWN : undefined);
+        }
+        if (appliedDiscount.lessThanOrEqualTo(0)) {
+          record.status = 'NO_DISCOUNT';
+          continue;
+        }
+        if (capped) {
+          cappedDiscounts.add(strategy.getDiscountName());
+        }
+
+        const detail = strategy.describeApplication ? `: ${strategy.describeApplication(pricedItems)}` : '';
+        if (isCashback) {
+          cashback.set(strategy.getDiscountName(), appliedDiscount);
+          messages.push(`Earned ${strategy.getDiscountName()}${capped ? ' (capped)' : ''}${detail}`);
+          record.status = 'APPLIED';
+          record.appliedAmount = appliedDiscount;
+          record.benefitType = 'CASHBACK';
+          continue;
+        }
+
+        // Spread the discount over the eligible lines (or the lines the strategy picked) and update currentPrice.
+        // BASE_PRICE shares follow the MRP of the lines, unless a line has less than its share left.
+        const minorUnits = this.rounding === 'PER_DISCOUNT' ? getCurrency(currency).minorUnits : undefined;
+        const ownShares = !!strategy.allocateDiscount && !capped;
+        let shares = ownShares
+          ? strategy.allocateDiscount!(pricedItems, discount)
+          : this.allocate(appliedDiscount, basisTotals, eligible, minorUnits);
+        if (shares.some((share, index) => share.greaterThan(lineTotals[index]))) {
+          shares = this.allocate(appliedDiscount, lineTotals, eligible, minorUnits);
+        } else if (ownShares && this.rounding === 'PER_DISCOUNT') {
+          shares = this.roundShares(shares, appliedDiscount, lineTotals, currency);
+          // A unit no line had room for is dropped, so the discount is what the shares add up to
+          appliedDiscount = Decimal.sum(0, ...shares);
+          if (appliedDiscount.isZero()) {
+            record.status = 'NO_DISCOUNT';
+            continue;
           }
         }
+        if (this.rounding === 'PER_LINE') {
+          const rounding = capped ? Decimal.ROUND_DOWN : undefined;
+          shares = shares.map((share, index) =>
+            Decimal.min(roundToMinorUnit(share, currency, rounding), lineTotals[index])
+          );
+          appliedDiscount = Decimal.sum(0, ...shares);
+          if (appliedDiscount.isZero()) {
+            record.status = 'NO_DISCOUNT';
+            continue;
+          }
+        }
+
+        finalPrice = finalPrice.minus(appliedDiscount);
+        appliedDiscounts.set(strategy.getDiscountName(), appliedDiscount);
+        messages.push(`Applied ${strategy.getDiscountName()}${capped ? ' (capped)' : ''}${detail}`);
+        record.status = 'APPLIED';
+        record.appliedAmount = appliedDiscount;
+
+        shares.forEach((share, index) => {
+          if (share.isZero()) {
+            return;
+          }
+          lineTotals[index] = lineTotals[index].minus(share);
+          lineDiscounts[index][strategy.getDiscountName()] = share;
+          cartItems[index].product.currentPrice = lineTotals[index].div(cartItems[index].quantity);
+        });
       } catch (error: any) {
-        console.debug(`Failed to apply ${strategy.getDiscountName()}: ${error.message}`);
+        this.logger.debug(`Failed to apply ${strategy.getDiscountName()}: ${error.message}`);
+        record.status = 'ERROR';
+        record.reason = error.message;
       }
     }
 
+    if (this.rounding === 'AT_END') {
+      finalPrice = this.roundAtEnd(
+        currency, cartItems, originalUnitPrices, lineTotals, lineDiscounts, appliedDiscounts, cashback, cappedDiscounts, trace
+      );
+    }
+
     return {
       finalPrice,
       appliedDiscounts,
+      cashback,
+      lineItems: this.buildLineItems(currency, cartItems, originalUnitPrices, lineTotals, lineDiscounts),
       messages
     };
   }
 
+  /**
+   * Rounds the exact amounts of an AT_END calculation, in the order the discounts were applied.
+   * Each discount is rounded on its own and its line shares are split in minor units to match it,
+   * so lines and totals still add up. Updates the maps, line totals, currentPrice and trace in place.
+   * @returns The final price after rounding
+   */
+  private roundAtEnd(
+    currency: string,
+    cartItems: CartItem[],
+    originalUnitPrices: Decimal[],
+    lineTotals: Decimal[],
+    lineDiscounts: Record<string, Decimal>[],
+    appliedDiscounts: Map<string, Decimal>,
+    cashback: Map<string, Decimal>,
+    cappedDiscounts: Set<string>,
+    trace?: StrategyTrace[]
+  ): Decimal {
+    const roundingOf = (name: string) => (cappedDiscounts.has(name) ? Decimal.ROUND_DOWN : undefined);
+    const setTraceAmount = (name: string, amount: Decimal) => {
+      const record = trace?.find(candidate => candidate.name === name && candidate.status === 'APPLIED');
+      if (record) {
+        record.appliedAmount = amount;
+      }
+    };
+
+    const remaining = cartItems.map((item, index) => originalUnitPrices[index].times(item.quantity));
+    for (const [name, amount] of Array.from(appliedDiscounts)) {
+      const exactShares = lineDiscounts.map(discounts => discounts[name] ?? new Decimal(0));
+      const rounded = roundToMinorUnit(amount, currency, roundingOf(name));
+      const shares = this.roundShares(exactShares, rounded, remaining, currency);
+      shares.forEach((share, index) => {
+        remaining[index] = remaining[index].minus(share);
+        if (share.isZero()) {
+          delete lineDiscounts[index][name];
+        } else {
+          lineDiscounts[index][name] = share;
+        }
+      });
+      const total = Decimal.sum(0, ...shares);
+      appliedDiscounts.set(name, total);
+      setTraceAmount(name, total);
+    }
+    for (const [name, amount] of Array.from(cashback)) {
+      const rounded = roundToMinorUnit(amount, currency, roundingOf(name));
+      cashback.set(name, rounded);
+      setTraceAmount(name, rounded);
+    }
+
+    remaining.forEach((lineTotal, index) => {
+      lineTotals[index] = lineTotal;
+      cartItems[index].product.currentPrice = lineTotal.div(cartItems[index].quantity);
+    });
+    return Decimal.sum(0, ...remaining);
+  }
+
+  /**
+   * Offers not in the currency of the cart do not apply to it
+   */
+  private checkCurrency(entry: StrategyEntry, currency: string): ValidationFailure | undefined {
+    if (entry.currency === undefined || entry.currency === currency) {
+      return undefined;
+    }
+    return { rule: 'CURRENCY', message: `Offer is in ${entry.currency} but the cart is in ${currency}` };
+  }
+
+  /**
+   * Picks the strategies to apply. Offers without stacking conflicts are always kept; for the
+   * conflicting ones every maximal combination allowed by the rules is priced on a copy of the
+   * cart and the cheapest wins, counting cashback as a saving (ties go to the combination favouring
+   * higher-priority offers).
+   */
+  private async selectBestCombination(
+    cartItems: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<StrategyEntry[]> {
+    const conflicted = this.entries.filter(entry =>
+      this.entries.some(other => other !== entry && conflicts(entry, other))
+    );
+    if (conflicted.length === 0) {
+      return this.entries;
+    }
+
+    const combinations = conflicted.length > MAX_OPTIMIZED_OFFERS
+      ? [this.greedyCombination(conflicted)]
+      : this.enumerateCombinations(conflicted);
+
+    let best: { selected: StrategyEntry[]; finalPrice: Decimal } | undefined;
+    for (const combination of combinations) {
+      const selected = this.entries.filter(entry => !conflicted.includes(entry) || combination.includes(entry));
+      const result = await this.applySequence(selected, this.cloneCartItems(cartItems), customer, paymentInfo);
+      const finalPrice = result.finalPrice.minus(Decimal.sum(0, ...Array.from(result.cashback.values())));
+      if (!best || finalPrice.lessThan(best.finalPrice)) {
+        best = { selected, finalPrice };
+      }
+    }
+    return best!.selected;
+  }
+
+  /**
+   * Lists every maximal set of entries in which no two entries conflict, in priority order
+   */
+  private enumerateCombinations(entries: StrategyEntry[]): StrategyEntry[][] {
+    const combinations: StrategyEntry[][] = [];
+    const visit = (index: number, chosen: StrategyEntry[]) => {
+      if (index === entries.length) {
+        const isMaximal = entries.every(
+          entry => chosen.includes(entry) || chosen.some(other => conflicts(entry, other))
+        );
+        if (isMaximal) {
+          combinations.push(chosen);
+        }
+        return;
+      }
+      const entry = entries[index];
+      if (chosen.every(other => !conflicts(entry, other))) {
+        visit(index + 1, [...chosen, entry]);
+      }
+      visit(index + 1, chosen);
+    };
+    visit(0, []);
+    return combinations;
+  }
+
+  private greedyCombination(entries: StrategyEntry[]): StrategyEntry[] {
+    return entries.reduce<StrategyEntry[]>(
+      (chosen, entry) => (chosen.some(other => conflicts(entry, other)) ? chosen : [...chosen, entry]),
+      []
+    );
+  }
+
+  private describeSkip(entry: StrategyEntry, appliedEntries: StrategyEntry[]): string {
+    const blocker = appliedEntries.find(other => conflicts(entry, other));
+    if (!blocker) {
+      return 'A combination without this offer gives a lower price';
+    }
+    if (entry.stackingGroup !== undefined && entry.stackingGroup === blocker.stackingGroup) {
+      return `Only one offer from stacking group '${entry.stackingGroup}' applies; ${blocker.strategy.getDiscountName()} gives a lower price`;
+    }
+    return `Cannot be combined with ${blocker.strategy.getDiscountName()}`;
+  }
+
+  private startTrace(entry: StrategyEntry): StrategyTrace {
+    return {
+      id: entry.id,
+      name: entry.strategy.getDiscountName(),
+      order: this.entries.indexOf(entry) + 1,
+      priority: this.priorityOf(entry),
+      calculationMode: entry.calculationMode ?? this.calculationMode,
+      status: 'NOT_EVALUATED'
+    };
+  }
+
+  private priorityOf(entry: StrategyEntry): number {
+    return entry.priority ?? entry.strategy.getPriority();
+  }
+
+  /**
+   * Copies the cart with every line priced at its MRP
+   */
+  private atBasePrice(cartItems: CartItem[]): CartItem[] {
+    return cartItems.map(item => ({
+      ...item,
+      product: { ...item.product, currentPrice: new Decimal(item.product.basePrice) }
+    }));
+  }
+
+  /**
+   * Validates a strategy, asking it for the failed rule when it can explain itself
+   */
+  private async findValidationFailure(
+    strategy: DiscountStrategy,
+    cartItems: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    if (strategy.explainValidation) {
+      const failure = await strategy.explainValidation(cartItems, customer, paymentInfo);
+      if (failure) {
+        this.logger.debug(`${strategy.getDiscountName()} not eligible: ${failure.message}`);
+      }
+      return failure;
+    }
+    if (await strategy.validate(cartItems, customer, paymentInfo)) {
+      return undefined;
+    }
+    return { rule: 'VALIDATOR', message: `Conditions of ${strategy.getDiscountName()} are not met` };
+  }
+
+  /**
+   * Lowers the saving a failure promises to what is left of the campaign budget
+   */
+  private async withinBudget(entry: StrategyEntry, failure: ValidationFailure): Promise<ValidationFailure> {
+    if (!failure.potentialSaving) {
+      return failure;
+    }
+    const remaining = await this.budgets.remaining(entry.id, entry.budget);
+    return remaining && failure.potentialSaving.greaterThan(remaining) ? { ...failure, potentialSaving: remaining } : failure;
+  }
+
+  /**
+   * Works out whether the strategy's own cap or the eligible subtotal lowered its amount
+   */
+  private findCap(strategy: DiscountStrategy, cartItems: CartItem[], eligibleTotal: Decimal): DiscountCap | undefined {
+    const value = strategy.getDiscountValue?.(cartItems);
+    return value ? explainDiscountCap(eligibleTotal, value) : undefined;
+  }
+
+  private cloneCartItems(cartItems: CartItem[]): CartItem[] {
+    return cartItems.map(item => ({
+      ...item,
+      product: { ...item.product, currentPrice: new Decimal(item.product.currentPrice) }
+    }));
+  }
+
+  /**
+   * Splits a discount across the eligible lines in proportion to their current line totals.
+   * With minorUnits, each share is rounded down to the minor unit (e.g. 0.01); the leftover is given
+   * to the eligible line with the largest total (earliest line on ties), spilling over to the
+   * next largest if that line is exhausted. Shares therefore always sum to the discount.
+   */
+  private allocate(discount: Decimal, lineTotals: Decimal[], eligible: boolean[], minorUnits?: number): Decimal[] {
+    const eligibleTotal = lineTotals.reduce(
+      (acc, lineTotal, index) => (eligible[index] ? acc.plus(lineTotal) : acc),
+      new Decimal(0)
+    );
+    const shares = lineTotals.map((lineTotal, index) => {
+      if (!eligible[index] || eligibleTotal.isZero()) {
+        return new Decimal(0);
+      }
+      const share = discount.times(lineTotal).div(eligibleTotal);
+      return Decimal.min(minorUnits === undefined ? share : share.toDecimalPlaces(minorUnits, Decimal.ROUND_DOWN), lineTotal);
+    });
+
+    let leftover = discount.minus(Decimal.sum(...shares));
+    const byLargestLine = lineTotals
+      .map((lineTotal, index) => ({ lineTotal, index }))
+      .filter(({ index }) => eligible[index])
+      .sort((a, b) => b.lineTotal.comparedTo(a.lineTotal) || a.index - b.index);
+
+    for (const { lineTotal, index } of byLargestLine) {
+      if (leftover.lessThanOrEqualTo(0)) {
+        break;
+      }
+      const room = lineTotal.minus(shares[index]);
+      const extra = Decimal.min(room, leftover);
+      shares[index] = shares[index].plus(extra);
+      leftover = leftover.minus(extra);
+    }
+
+    return shares;
+  }
+
+  /**
+   * Rounds exact line shares to the minor unit so that they add up to a rounded total: every share is
+   * rounded down, then the minor units still missing go to the lines with the largest remainders
+   * (earliest line on ties). No line gets more than it has left; a unit no line can take is dropped,
+   * so callers take the discount from the sum of the returned shares.
+   * @param rooms - What is left to discount on each line
+   */
+  private roundShares(shares: Decimal[], total: Decimal, rooms: Decimal[], currency: string): Decimal[] {
+    const { minorUnits } = getCurrency(currency);
+    const unit = new Decimal(1).div(new Decimal(10).pow(minorUnits));
+    const rounded = shares.map((share, index) =>
+      Decimal.min(share.toDecimalPlaces(minorUnits, Decimal.ROUND_DOWN), Decimal.max(rooms[index], 0))
+    );
+
+    let missing = total.minus(Decimal.sum(0, ...rounded));
+    const byRemainder = shares
+      .map((share, index) => ({ remainder: share.minus(rounded[index]), index }))
+      .filter(({ remainder }) => remainder.greaterThan(0))
+      .sort((a, b) => b.remainder.comparedTo(a.remainder) || a.index - b.index);
+    for (const { index } of byRemainder) {
+      if (missing.lessThan(unit)) {
+        break;
+      }
+      if (rooms[index].minus(rounded[index]).greaterThanOrEqualTo(unit)) {
+        rounded[index] = rounded[index].plus(unit);
+        missing = missing.minus(unit);
+      }
+    }
+    return rounded;
+  }
+
+  private buildLineItems(
+    currency: string,
+    cartItems: CartItem[],
+    originalUnitPrices: Decimal[],
+    lineTotals: Decimal[],
+    lineDiscounts: Record<string, Decimal>[]
+  ): LineItemBreakdown[] {
+    return cartItems.map((item, index) => ({
+      productId: item.product.id,
+      size: item.size,
+      quantity: item.quantity,
+      originalUnitPrice: Money.of(originalUnitPrices[index], currency),
+      originalLinePrice: Money.of(originalUnitPrices[index].times(item.quantity), currency),
+      discounts: Object.fromEntries(
+        Object.entries(lineDiscounts[index]).map(([name, share]) => [name, Money.of(share, currency)])
+      ),
+      finalUnitPrice: Money.of(lineTotals[index].div(item.quantity), currency),
+      finalLinePrice: Money.of(lineTotals[index], currency)
+    }));
+  }
+
   private calculateOriginalPrice(cartItems: CartItem[]): Decimal {
     return cartItems.reduce((acc, item) => {
       return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
@@ -0,0 +1,141 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartFee,
+  CartItem,
+  CustomerProfile,
+  FeeBreakdown,
+  FeeCharge,
+  Logger,
+  PaymentInfo,
+  StrategyEntry
+} from '../models/interface';
+import { FEE_TYPES, FeeWaiverStrategy } from '../discount-strategies/FeeWaiverStrategy';
+import { CampaignBudgetTracker } from '../eligibility/CampaignBudgetTracker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { roundToMinorUnit } from '../money/Currency';
+import { conflicts } from './StackingRules';
+
+/**
+ * Applies fee waivers to the fees of a cart, after the product discounts. Waivers are validated on the
+ * products at their discounted prices, so fees never count toward a minimum, and are reported apart
+ * from the product discounts. Waivers of the same fee apply in priority order, each on what is left of
+ * it. A waiver that conflicts (stacking group or notCombinableWith) with an applied product offer or a
+ * waiver already granted is skipped: the product offers are chosen first, so they win.
+ */
+export class FeeWaiverApplier {
+  private readonly entries: StrategyEntry[];
+
+  /**
+   * @param entries - Fee waiver strategies; other strategies are ignored
+   * @param logger - Destination for debug output
+   * @param budgets - Spend of the waivers that have a campaign budget
+   */
+  constructor(
+    entries: StrategyEntry[],
+    private readonly logger: Logger = new ConsoleLogger(),
+    private readonly budgets: CampaignBudgetTracker = new CampaignBudgetTracker()
+  ) {
+    this.entries = entries
+      .filter(entry => entry.strategy instanceof FeeWaiverStrategy)
+      .sort((a, b) => (a.priority ?? a.strategy.getPriority()) - (b.priority ?? b.strategy.getPriority()));
+  }
+
+  /**
+   * @param fees - Fees of the cart, at most one per type
+   * @param pricedItems - The cart after product discounts
+   * @param currency - Currency of the cart; waivers in other currencies do not apply
+   * @param appliedOffers - The product offers in the result, which waivers must be combinable with
+   * @returns The fees with the waivers granted on each
+   * @throws Error if a fee has an unknown type or an invalid amount, or a type is listed twice
+   */
+  async applyWaivers(
+    fees: CartFee[],
+    pricedItems: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo: PaymentInfo | undefined,
+    currency: string,
+    appliedOffers: StrategyEntry[]
+  ): Promise<FeeBreakdown> {
+    this.assertValidFees(fees);
+    const charges: FeeCharge[] = fees.map(fee => ({
+      type: fee.type,
+      amount: new Decimal(fee.amount),
+      waivers: {},
+      payableAmount: new Decimal(fee.amount)
+    }));
+    const waivers: Record<string, Decimal> = {};
+    const granted: StrategyEntry[] = [];
+
+    for (const entry of this.entries) {
+      const strategy = entry.strategy as FeeWaiverStrategy;
+      const name = strategy.getDiscountName();
+      try {
+        if (entry.currency !== undefined && entry.currency !== currency) {
+          this.logger.debug(`Fee waiver ${name} is in ${entry.currency} but the cart is in ${currency}`);
+          continue;
+        }
+        const conflict = [...appliedOffers, ...granted].find(other => conflicts(entry, other));
+        if (conflict) {
+          this.logger.debug(`Fee waiver ${name} not combinable with ${conflict.strategy.getDiscountName()}`);
+          continue;
+        }
+        if (
+          (await this.budgets.explain(entry.id, entry.budget, entry.currency)) ||
+          !(await strategy.validate(pricedItems, customer, paymentInfo))
+        ) {
+          continue;
+        }
+
+        let budgetLeft = await this.budgets.remaining(entry.id, entry.budget);
+        for (const charge of charges) {
+          if (!strategy.waives(charge.type) || charge.payableAmount.isZero()) {
+            continue;
+          }
+          const calculated = roundToMinorUnit(strategy.calculateWaiver(charge.payableAmount), currency);
+          let waiver = Decimal.min(calculated, charge.payableAmount);
+          if (budgetLeft) {
+            waiver = Decimal.min(waiver, budgetLeft);
+            budgetLeft = budgetLeft.minus(waiver);
+          }
+          if (waiver.lessThanOrEqualTo(0)) {
+            continue;
+          }
+          charge.waivers[name] = waiver;
+          charge.payableAmount = charge.payableAmount.minus(waiver);
+          waivers[name] = (waivers[name] ?? new Decimal(0)).plus(waiver);
+        }
+        if (waivers[name]) {
+          granted.push(entry);
+        }
+      } catch (error: any) {
+        this.logger.debug(`Failed to apply fee waiver ${name}: ${error.message}`);
+      }
+    }
+
+    return {
+      charges,
+      waivers,
+      totalFees: Decimal.sum(0, ...charges.map(charge => charge.amount)),
+      payableFees: Decimal.sum(0, ...charges.map(charge => charge.payableAmount))
+    };
+  }
+
+  private assertValidFees(fees: CartFee[]): void {
+    if (!Array.isArray(fees)) {
+      throw new Error('Invalid fees');
+    }
+    const seen = new Set<string>();
+    for (const fee of fees) {
+      if (!FEE_TYPES.includes(fee?.type)) {
+        throw new Error(`Unknown fee type: ${fee?.type}`);
+      }
+      if (!Decimal.isDecimal(fee.amount) || !fee.amount.isFinite() || fee.amount.lessThan(0)) {
+        throw new Error(`Invalid ${fee.type} fee amount`);
+      }
+      if (seen.has(fee.type)) {
+        throw new Error(`Fee ${fee.type} is listed more than once`);
+      }
+      seen.add(fee.type);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { StrategyEntry } from '../models/interface';
+
+/**
+ * Whether two offers cannot be granted together: they share a stacking group, or either one lists
+ * the other's id or stacking group in notCombinableWith
+ */
+export function conflicts(a: StrategyEntry, b: StrategyEntry): boolean {
+  const sameGroup = a.stackingGroup !== undefined && a.stackingGroup === b.stackingGroup;
+  return sameGroup || forbids(a, b) || forbids(b, a);
+}
+
+function forbids(entry: StrategyEntry, other: StrategyEntry): boolean {
+  return (entry.notCombinableWith ?? []).some(ref => ref === other.id || ref === other.stackingGroup);
+}
@@ -1,16 +1,54 @@
 import { Decimal } from 'decimal.js';
-import { DiscountStrategy, CartItem, CustomerProfile, PaymentInfo, BankCardDiscountConfig } from '../models/interface';
+import {
+  DiscountStrategy,
+  CartItem,
+  CustomerProfile,
+  PaymentInfo,
+  BankCardDiscountConfig,
+  DiscountValueConfig,
+  ProductScope,
+  Logger,
+  PaymentUsageLimits,
+  BenefitTerms,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { PaymentUsageLimiter } from '../eligibility/PaymentUsageLimiter';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import {
+  assertValidDiscountValue,
+  calculateDiscountValue,
+  normalizeDiscountValue,
+  pickDiscountValue
+} from './DiscountValue';
+import { assertValidBenefit, describeBenefitValue, getBenefitTerms } from './Benefit';
+import { describeMismatch, includesIgnoringCase, pickCartConditions, PREVIEW_INSTRUMENT_ID } from './PaymentMatching';
 
 export class BankCardDiscountStrategy implements DiscountStrategy {
   private readonly config: BankCardDiscountConfig;
-  private readonly PERCENTAGE_DIVISOR = new Decimal(100);
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+  private readonly usageLimiter: PaymentUsageLimiter;
+  private readonly offerId?: string;
 
-  constructor(config: BankCardDiscountConfig) {
+  constructor(
+    config: BankCardDiscountConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger(),
+    usageLimiter: PaymentUsageLimiter = new PaymentUsageLimiter(),
+    offerId?: string
+  ) {
     if (!config.bankName || typeof config.bankName !== 'string') throw new Error('Invalid bank name');
-    if (config.discountPercentage.lessThan(0) || config.discountPercentage.greaterThan(100)) {
-      throw new Error('Invalid discount percentage');
-    }
-    this.config = { ...config, discountPercentage: new Decimal(config.discountPercentage) };
+    assertValidDiscountValue(config);
+    assertValidBenefit(config);
+    eligibility.assertValidRules(config);
+    usageLimiter.assertValidLimits(config.monthlyLimits);
+    this.config = normalizeDiscountValue(config);
+    this.eligibility = eligibility;
+    this.logger = logger;
+    this.usageLimiter = usageLimiter;
+    this.offerId = offerId;
   }
 
   async calculateDiscount(
@@ -19,22 +57,33 @@ export class BankCardDiscountStrategy implements DiscountStrategy {
     paymentInfo?: PaymentInfo
   ): Promise<Decimal> {
     if (!(await this.validate(items, customer, paymentInfo))) {
-      console.debug(`No discount applied: Invalid conditions for bank ${this.config.bankName}`);
+      this.logger.debug(`No discount applied: Invalid conditions for bank ${this.config.bankName}`);
       return new Decimal(0);
     }
+    return this.calculateValidatedDiscount(items, customer, paymentInfo);
+  }
 
-    const totalAmount = items.reduce(
-      (acc, item) => acc.plus(item.product.currentPrice.times(item.quantity)),
-      new Decimal(0)
+  async calculateValidatedDiscount(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<Decimal> {
+    let discount = calculateDiscountValue(this.calculateEligibleTotal(items), this.config);
+    const remaining = await this.usageLimiter.remainingDiscount(
+      this.getOfferId(),
+      this.config.monthlyLimits,
+      paymentInfo!,
+      this.eligibility.now()
     );
-
-    const discount = totalAmount.times(this.config.discountPercentage).div(this.PERCENTAGE_DIVISOR);
-    console.debug(`Bank ${this.config.bankName} discount: ${discount}`);
+    if (remaining !== undefined) {
+      discount = Decimal.min(discount, remaining);
+    }
+    this.logger.debug(`Bank ${this.config.bankName} discount: ${discount}`);
     return discount;
   }
 
   getDiscountName(): string {
-    return `Bank Card Discount - ${this.config.bankName} (${this.config.discountPercentage}%)`;
+    return `Bank Card Discount - ${this.config.bankName} (${describeBenefitValue(this.config, this.config.currency)})`;
   }
 
   async validate(
@@ -42,34 +91,187 @@ export class BankCardDiscountStrategy implements DiscountStrategy {
     customer: CustomerProfile,
     paymentInfo?: PaymentInfo
   ): Promise<boolean> {
-    // Strict validation
-    if (!paymentInfo || paymentInfo.method !== 'CARD' || paymentInfo.bankName !== this.config.bankName) {
-      console.debug(`Bank validation failed: method=${paymentInfo?.method}, bankName=${paymentInfo?.bankName}`);
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Bank ${this.config.bankName} not eligible: ${failure.message}`);
       return false;
     }
+    return true;
+  }
 
-    const totalAmount = items.reduce(
-      (acc, item) => acc.plus(item.product.currentPrice.times(item.quantity)),
-      new Decimal(0)
-    );
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
 
-    if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
-      console.debug(`Bank ${this.config.bankName}: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
-      return false;
+    // Strict validation
+    if (!paymentInfo || paymentInfo.method !== 'CARD') {
+      return this.withRequiredPayment(
+        {
+          rule: 'PAYMENT_METHOD',
+          message: paymentInfo
+            ? `Payment method ${paymentInfo.method} is not CARD`
+            : 'No payment information was given'
+        },
+        items,
+        customer
+      );
+    }
+    if (paymentInfo.bankName !== this.config.bankName) {
+      return this.withRequiredPayment(
+        {
+          rule: 'BANK_MISMATCH',
+          message: `Card issued by ${paymentInfo.bankName ?? 'an unknown bank'}, offer requires ${this.config.bankName}`
+        },
+        items,
+        customer
+      );
+    }
+    const cardFailure = this.explainCardMismatch(paymentInfo);
+    if (cardFailure) {
+      return this.withRequiredPayment(cardFailure, items, customer);
     }
 
-    if (this.config.eligibleCategories) {
-      const hasEligibleCategory = items.some(item => this.config.eligibleCategories!.includes(item.product.category));
-      if (!hasEligibleCategory) {
-        console.debug(`Bank ${this.config.bankName}: No eligible categories found`);
-        return false;
-      }
+    if (this.config.eligibleCategories && !items.some(item => this.isEligibleItem(item))) {
+      return {
+        rule: 'NO_ELIGIBLE_ITEMS',
+        message: `Cart has no items in ${this.config.eligibleCategories.join(', ')}`,
+        requiredCategories: this.config.eligibleCategories
+      };
     }
 
-    return true;
+    // The minimum is checked on the items the offer discounts
+    const totalAmount = this.calculateEligibleTotal(items);
+    if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+      return {
+        rule: 'MINIMUM_AMOUNT',
+        message: `${this.config.eligibleCategories ? 'Eligible subtotal' : 'Cart total'} ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)}`,
+        shortfall: new Decimal(this.config.minimumCartAmount).minus(totalAmount),
+        potentialSaving: calculateDiscountValue(new Decimal(this.config.minimumCartAmount), this.config),
+      };
+    }
+
+    return this.usageLimiter.explain(
+      this.getOfferId(),
+      this.config.monthlyLimits,
+      paymentInfo,
+      this.eligibility.now(),
+      this.config.currency
+    );
+  }
+
+  /**
+   * Id the monthly usage is recorded under: the StrategyEntry id, so changing the offer's value
+   * keeps the usage, and offers with the same name do not share it
+   */
+  getOfferId(): string {
+    return this.offerId ?? this.getDiscountName();
   }
 
   getPriority(): number {
     return 4;
   }
+
+  /**
+   * Items of the eligible categories, or of the whole cart if the offer sets none
+   */
+  isEligibleItem(item: CartItem): boolean {
+    return (
+      !this.eligibility.isExcludedItem(this.config, item) &&
+      (!this.config.eligibleCategories || this.config.eligibleCategories.includes(item.product.category))
+    );
+  }
+
+  getDiscountValue(): DiscountValueConfig {
+    return pickDiscountValue(this.config);
+  }
+
+  getProductScope(): ProductScope {
+    return { categories: this.config.eligibleCategories };
+  }
+
+  /**
+   * A payment meeting the offer's payment conditions, used to preview the offer on listing pages.
+   * It stands for a card or account with no usage yet, so monthly limits do not lower the preview.
+   */
+  getPreviewPaymentInfo(): PaymentInfo {
+    return { ...this.getRequiredPayment(), instrumentId: PREVIEW_INSTRUMENT_ID };
+  }
+
+  /**
+   * The card the offer asks for; the first type, network and BIN prefix when several are allowed
+   */
+  private getRequiredPayment(): PaymentInfo {
+    return {
+      method: 'CARD',
+      bankName: this.config.bankName,
+      cardType: this.config.cardTypes?.[0],
+      cardNetwork: this.config.cardNetworks?.[0],
+      cardBin: this.config.binPrefixes?.[0]
+    };
+  }
+
+  /**
+   * Adds the card to pay with to a payment failure, with the discount that card would get or,
+   * if the cart also falls short, what else it needs. Left as is when the cart cannot qualify.
+   */
+  private async withRequiredPayment(
+    failure: ValidationFailure,
+    items: CartItem[],
+    customer: CustomerProfile
+  ): Promise<ValidationFailure> {
+    const preview = this.getPreviewPaymentInfo();
+    const cartFailure = await this.explainValidation(items, customer, preview);
+    if (!cartFailure) {
+      return {
+        ...failure,
+        requiredPayment: this.getRequiredPayment(),
+        potentialSaving: await this.calculateValidatedDiscount(items, customer, preview)
+      };
+    }
+    const cartConditions = pickCartConditions(cartFailure);
+    return cartConditions ? { ...failure, requiredPayment: this.getRequiredPayment(), ...cartConditions } : failure;
+  }
+
+  getMonthlyLimits(): PaymentUsageLimits | undefined {
+    return this.config.monthlyLimits;
+  }
+
+  getBenefit(): BenefitTerms {
+    return getBenefitTerms(this.config, this.config.bankName);
+  }
+
+  private calculateEligibleTotal(items: CartItem[]): Decimal {
+    return items.filter(item => this.isEligibleItem(item)).reduce(
+      (acc, item) => acc.plus(item.product.currentPrice.times(item.quantity)),
+      new Decimal(0)
+    );
+  }
+
+  /**
+   * Checks the card type, network and BIN against the offer. Types and networks are compared case-insensitively.
+   */
+  private explainCardMismatch(paymentInfo: PaymentInfo): ValidationFailure | undefined {
+    const { cardTypes, cardNetworks, binPrefixes } = this.config;
+    if (cardTypes?.length && !includesIgnoringCase(cardTypes, paymentInfo.cardType)) {
+      return { rule: 'CARD_TYPE', message: describeMismatch('Card type', paymentInfo.cardType, cardTypes) };
+    }
+    if (cardNetworks?.length && !includesIgnoringCase(cardNetworks, paymentInfo.cardNetwork)) {
+      return { rule: 'CARD_NETWORK', message: describeMismatch('Card network', paymentInfo.cardNetwork, cardNetworks) };
+    }
+    if (binPrefixes?.length && !binPrefixes.some(prefix => paymentInfo.cardBin?.startsWith(prefix))) {
+      return {
+        rule: 'CARD_BIN',
+        message: paymentInfo.cardBin
+          ? `Card BIN ${paymentInfo.cardBin} does not start with ${binPrefixes.join(', ')}`
+          : `Card BIN is unknown, offer requires ${binPrefixes.join(', ')}`
+      };
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,40 @@
+import { BenefitConfig, BenefitTerms, DiscountValueConfig } from '../models/interface';
+import { describeDiscountValue } from './DiscountValue';
+import { formatAmount } from '../money/Currency';
+
+/**
+ * @throws Error if the benefit type is unknown or a cashback offer has no valid credit period
+ */
+export function assertValidBenefit(config: BenefitConfig): void {
+  if (config.benefitType !== undefined && !['INSTANT', 'CASHBACK'].includes(config.benefitType)) {
+    throw new Error(`Unknown benefit type: ${config.benefitType}`);
+  }
+  if (
+    config.benefitType === 'CASHBACK' &&
+    (!Number.isInteger(config.cashbackCreditDays) || config.cashbackCreditDays! < 0)
+  ) {
+    throw new Error('Cashback offers require a whole number of cashbackCreditDays');
+  }
+}
+
+/**
+ * @param defaultFunder - Funding party when the config does not name one
+ */
+export function getBenefitTerms(config: BenefitConfig, defaultFunder: string): BenefitTerms {
+  if (config.benefitType === 'CASHBACK') {
+    return { type: 'CASHBACK', creditAfterDays: config.cashbackCreditDays, fundedBy: config.fundedBy ?? defaultFunder };
+  }
+  return { type: 'INSTANT', fundedBy: config.fundedBy ?? defaultFunder };
+}
+
+/**
+ * Like describeDiscountValue, but says "cashback" for cashback offers, e.g. "10% cashback" or "₹150 cashback"
+ */
+export function describeBenefitValue(config: DiscountValueConfig & BenefitConfig, currency?: string): string {
+  if (config.benefitType !== 'CASHBACK') {
+    return describeDiscountValue(config, currency);
+  }
+  return config.flatAmount !== undefined
+    ? `${formatAmount(config.flatAmount, currency)} cashback`
+    : `${config.discountPercentage}% cashback`;
+}
@@ -1,24 +1,47 @@
 import { Decimal } from 'decimal.js';
-import { DiscountStrategy, CartItem, CustomerProfile, PaymentInfo, BrandDiscountConfig, BrandTier } from '../models/interface';
+import {
+  DiscountStrategy,
+  CartItem,
+  CustomerProfile,
+  PaymentInfo,
+  BrandDiscountConfig,
+  BrandTier,
+  BrandValidator,
+  DiscountValueConfig,
+  ProductScope,
+  Logger,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import {
+  assertValidDiscountValue,
+  calculateDiscountValue,
+  describeDiscountValue,
+  normalizeDiscountValue,
+  pickDiscountValue
+} from './DiscountValue';
 
 export class BrandDiscountStrategy implements DiscountStrategy {
   private readonly config: BrandDiscountConfig;
   private readonly validator: BrandValidator;
-  private readonly PERCENTAGE_DIVISOR = new Decimal(100);
-  private onDiscountApplied?: (discount: Decimal, name: string) => void;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
 
   constructor(
     config: BrandDiscountConfig,
-    validator: BrandValidator = new DefaultBrandValidator(),
-    onDiscountApplied?: (discount: Decimal, name: string) => void
+    validator?: BrandValidator,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
   ) {
     if (!config.brand || typeof config.brand !== 'string') throw new Error('Invalid brand');
-    if (config.discountPercentage!.lessThan(0) || config.discountPercentage!.greaterThan(100)) {
-      throw new Error('Invalid discount percentage');
-    }
-    this.config = { ...config, discountPercentage: new Decimal(config.discountPercentage!) };
-    this.validator = validator;
-    this.onDiscountApplied = onDiscountApplied;
+    assertValidDiscountValue(config);
+    eligibility.assertValidRules(config);
+    this.config = normalizeDiscountValue(config);
+    this.validator = validator ?? new DefaultBrandValidator(logger);
+    this.eligibility = eligibility;
+    this.logger = logger;
   }
 
   async calculateDiscount(
@@ -26,41 +49,31 @@ export class BrandDiscountStrategy implements DiscountStrategy {
     paymentInfo?: PaymentInfo
   ): Promise<Decimal> {
     if (!items.length || !(await this.validate(items, customer, paymentInfo))) {
-      console.debug(`No discount applied: Invalid conditions for brand ${this.config.brand}`);
+      this.logger.debug(`No discount applied: Invalid conditions for brand ${this.config.brand}`);
       return new Decimal(0);
     }
+    return this.calculateValidatedDiscount(items);
+  }
 
-    const totalAmount = items.reduce((acc, item) => {
-      if (
-        item.product.brand === this.config.brand &&
-        item.product.brandTier === BrandTier.PREMIUM && // Only PREMIUM brands
-        (!this.config.eligibleCategories || this.config.eligibleCategories.includes(item.product.category))
-      ) {
-        return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
-      }
-      return acc;
-    }, new Decimal(0));
+  async calculateValidatedDiscount(items: CartItem[]): Promise<Decimal> {
+    const totalAmount = this.getEligibleTotal(items);
 
-    console.debug(`Brand ${this.config.brand}: totalAmount=${totalAmount}, percentage=${this.config.discountPercentage}`);
+    this.logger.debug(`Brand ${this.config.brand}: totalAmount=${totalAmount}, value=${describeDiscountValue(this.config, this.config.currency)}`);
 
     if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
-      console.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
+      this.logger.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
       return new Decimal(0);
     }
 
-    const discount = totalAmount.times(this.config.discountPercentage).div(this.PERCENTAGE_DIVISOR);
+    const discount = calculateDiscountValue(totalAmount, this.config);
 
-    console.debug(`Brand ${this.config.brand} discount: ${discount}`);
-
-    if (this.onDiscountApplied) {
-      this.onDiscountApplied(discount, this.getDiscountName());
-    }
+    this.logger.debug(`Brand ${this.config.brand} discount: ${discount}`);
 
     return discount;
   }
 
   getDiscountName(): string {
-    return `Brand Discount - ${this.config.brand} (${this.config.discountPercentage}%)`;
+    return `Brand Discount - ${this.config.brand} (${describeDiscountValue(this.config, this.config.currency)})`;
   }
 
   async validate(
@@ -68,27 +81,85 @@ export class BrandDiscountStrategy implements DiscountStrategy {
     customer: CustomerProfile,
     paymentInfo?: PaymentInfo
   ): Promise<boolean> {
-    const hasPremiumBrand = items.some(
-      item => item.product.brand === this.config.brand && item.product.brandTier === BrandTier.PREMIUM
-    );
-    if (!hasPremiumBrand) {
-      console.debug(`No premium brand found for ${this.config.brand}`);
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Brand ${this.config.brand} not eligible: ${failure.message}`);
       return false;
     }
-    return this.validator.validate(items, customer, this.config);
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    const brandItems = items.filter(item => item.product.brand === this.config.brand);
+    if (brandItems.length === 0) {
+      return {
+        rule: 'NO_ELIGIBLE_ITEMS',
+        message: `Cart has no ${this.config.brand} items`,
+        requiredBrands: [this.config.brand],
+        ...(this.config.eligibleCategories && { requiredCategories: this.config.eligibleCategories })
+      };
+    }
+    if (!brandItems.some(item => item.product.brandTier === BrandTier.PREMIUM)) {
+      return { rule: 'BRAND_TIER', message: `${this.config.brand} items in the cart are not premium tier` };
+    }
+    if (!(await this.validator.validate(this.eligibility.withoutExcludedItems(this.config, items), customer, this.config))) {
+      const totalAmount = this.getEligibleTotal(items);
+      if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+        return {
+          rule: 'MINIMUM_AMOUNT',
+          message: `${this.config.brand} subtotal ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)}`,
+          shortfall: new Decimal(this.config.minimumCartAmount).minus(totalAmount),
+          potentialSaving: calculateDiscountValue(new Decimal(this.config.minimumCartAmount), this.config)
+        };
+      }
+      return { rule: 'VALIDATOR', message: `Rejected by the ${this.config.brand} brand validator` };
+    }
+    return undefined;
   }
 
   getPriority(): number {
     return 1;
   }
-}
 
-export interface BrandValidator {
-  validate(items: CartItem[], customer: CustomerProfile, config: BrandDiscountConfig): Promise<boolean>;
+  isEligibleItem(item: CartItem): boolean {
+    return (
+      item.product.brand === this.config.brand &&
+      item.product.brandTier === BrandTier.PREMIUM && // Only PREMIUM brands
+      (!this.config.eligibleCategories || this.config.eligibleCategories.includes(item.product.category)) &&
+      !this.eligibility.isExcludedItem(this.config, item)
+    );
+  }
+
+  getDiscountValue(): DiscountValueConfig {
+    return pickDiscountValue(this.config);
+  }
+
+  getProductScope(): ProductScope {
+    return { brands: [this.config.brand], categories: this.config.eligibleCategories };
+  }
+
+  private getEligibleTotal(items: CartItem[]): Decimal {
+    return items.reduce((acc, item) => {
+      if (this.isEligibleItem(item)) {
+        return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
+      }
+      return acc;
+    }, new Decimal(0));
+  }
 }
 
 export class DefaultBrandValidator implements BrandValidator {
-  async validate(items: CartItem[], customer: CustomerProfile, config: BrandDiscountConfig): Promise<boolean> {
+  constructor(private readonly logger: Logger = new ConsoleLogger()) {}
+
+  validate(items: CartItem[], customer: CustomerProfile, config: BrandDiscountConfig): boolean {
     const totalAmount = items.reduce((acc, item) => {
       if (item.product.brand === config.brand && item.product.brandTier === BrandTier.PREMIUM) {
         return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
@@ -96,7 +167,7 @@ export class DefaultBrandValidator implements BrandValidator {
       return acc;
     }, new Decimal(0));
 
-    console.debug(`BrandValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
+    this.logger.debug(`BrandValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
     if (config.minimumCartAmount && totalAmount.lessThan(config.minimumCartAmount)) {
       return false;
     }
@@ -0,0 +1,260 @@
+import { Decimal } from 'decimal.js';
+import {
+  BundleDiscountConfig,
+  BundleSelection,
+  CartItem,
+  CustomerProfile,
+  DiscountStrategy,
+  Logger,
+  PaymentInfo,
+  ProductMatcher,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+
+interface Unit {
+  lineIndex: number;
+  unitPrice: Decimal;
+}
+
+/**
+ * Buy-X-get-Y and fixed-price bundle promotions.
+ * Unit selection is deterministic: for BUY_X_GET_Y the cheapest qualifying units are rewarded,
+ * for FIXED_PRICE the most expensive units are bundled. Ties go to the earlier cart line.
+ */
+export class BundleDiscountStrategy implements DiscountStrategy {
+  private readonly config: BundleDiscountConfig;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+  private readonly PERCENTAGE_DIVISOR = new Decimal(100);
+
+  constructor(
+    config: BundleDiscountConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
+  ) {
+    if (!config.name || typeof config.name !== 'string') {
+      throw new Error('Invalid bundle name');
+    }
+    if (!Number.isInteger(config.buyQuantity) || config.buyQuantity < 1) {
+      throw new Error('Invalid buy quantity');
+    }
+    if (config.maxApplications !== undefined && (!Number.isInteger(config.maxApplications) || config.maxApplications < 1)) {
+      throw new Error('Invalid maximum applications');
+    }
+    if (config.kind === 'BUY_X_GET_Y') {
+      if (!Number.isInteger(config.getQuantity) || config.getQuantity! < 1) {
+        throw new Error('Invalid get quantity');
+      }
+      const percentage = new Decimal(config.getDiscountPercentage ?? 100);
+      if (percentage.lessThanOrEqualTo(0) || percentage.greaterThan(100)) {
+        throw new Error('Invalid discount percentage');
+      }
+    } else if (config.kind === 'FIXED_PRICE') {
+      if (config.bundlePrice === undefined || new Decimal(config.bundlePrice).lessThan(0)) {
+        throw new Error('Invalid bundle price');
+      }
+    } else {
+      throw new Error(`Unknown bundle kind: ${config.kind}`);
+    }
+    eligibility.assertValidRules(config);
+
+    this.config = {
+      ...config,
+      getDiscountPercentage: new Decimal(config.getDiscountPercentage ?? 100),
+      bundlePrice: config.bundlePrice !== undefined ? new Decimal(config.bundlePrice) : undefined
+    };
+    this.eligibility = eligibility;
+    this.logger = logger;
+  }
+
+  async calculateDiscount(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<Decimal> {
+    if (!items.length || !(await this.validate(items, customer, paymentInfo))) {
+      this.logger.debug(`No discount applied: Invalid conditions for bundle ${this.config.name}`);
+      return new Decimal(0);
+    }
+
+    const discount = this.selectUnits(items).reduce((acc, selection) => acc.plus(selection.discount), new Decimal(0));
+    this.logger.debug(`Bundle ${this.config.name} discount: ${discount}`);
+    return discount;
+  }
+
+  getDiscountName(): string {
+    return `Bundle Offer - ${this.config.name}`;
+  }
+
+  async validate(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<boolean> {
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Bundle ${this.config.name} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    if (this.selectUnits(items).length === 0) {
+      return { rule: 'NO_ELIGIBLE_ITEMS', message: `Not enough qualifying units for bundle ${this.config.name}` };
+    }
+    return undefined;
+  }
+
+  getPriority(): number {
+    return 1; // Item-level promotion, applies with brand/category discounts
+  }
+
+  isEligibleItem(item: CartItem): boolean {
+    return (
+      !this.eligibility.isExcludedItem(this.config, item) &&
+      (this.matches(this.config.buy, item) || (!!this.config.get && this.matches(this.config.get, item)))
+    );
+  }
+
+  allocateDiscount(items: CartItem[], discount: Decimal): Decimal[] {
+    const shares = items.map(() => new Decimal(0));
+    for (const selection of this.selectUnits(items)) {
+      shares[selection.lineIndex] = shares[selection.lineIndex].plus(selection.discount);
+    }
+    return shares;
+  }
+
+  describeApplication(items: CartItem[]): string {
+    const selections = this.selectUnits(items);
+    if (this.config.kind === 'FIXED_PRICE') {
+      const units = selections.reduce((acc, selection) => acc + selection.units, 0);
+      return `${units} units bundled for ${formatAmount(this.config.bundlePrice!.times(units / this.config.buyQuantity), this.config.currency)}`;
+    }
+    return selections
+      .map(selection => `${selection.units} x ${selection.productId} (${selection.size}) discounted`)
+      .join(', ');
+  }
+
+  /**
+   * Picks the units the promotion applies to and the discount on each line
+   * @param items - Cart items, priced at their current price
+   * @returns One selection per line that received a discount, in cart order
+   */
+  selectUnits(items: CartItem[]): BundleSelection[] {
+    const selected = this.config.kind === 'BUY_X_GET_Y'
+      ? this.selectBuyXGetY(items)
+      : this.selectFixedPrice(items);
+
+    return selected
+      .map((discount, lineIndex) => ({ discount, lineIndex }))
+      .filter(({ discount }) => discount.units > 0)
+      .map(({ discount, lineIndex }) => ({
+        lineIndex,
+        productId: items[lineIndex].product.id,
+        size: items[lineIndex].size,
+        units: discount.units,
+        discount: discount.amount
+      }));
+  }
+
+  private selectBuyXGetY(items: CartItem[]): { units: number; amount: Decimal }[] {
+    const result = items.map(() => ({ units: 0, amount: new Decimal(0) }));
+    const buyPool = this.expandUnits(items, this.config.buy);
+    const getPool = this.expandUnits(items, this.config.get ?? this.config.buy).sort(
+      (a, b) => a.unitPrice.comparedTo(b.unitPrice) || a.lineIndex - b.lineIndex
+    );
+    const getQuantity = this.config.getQuantity!;
+
+    let applications = Math.floor(getPool.length / getQuantity);
+    if (this.config.maxApplications !== undefined) {
+      applications = Math.min(applications, this.config.maxApplications);
+    }
+
+    // Reward the cheapest units, then check enough other units were bought to pay for them
+    for (; applications > 0; applications--) {
+      const rewards = getPool.slice(0, applications * getQuantity);
+      const paidUnits = buyPool.length - rewards.filter(reward =>
+        buyPool.some(unit => unit.lineIndex === reward.lineIndex)
+      ).length;
+      if (paidUnits >= applications * this.config.buyQuantity) {
+        for (const reward of rewards) {
+          result[reward.lineIndex].units += 1;
+          result[reward.lineIndex].amount = result[reward.lineIndex].amount.plus(
+            reward.unitPrice.times(this.config.getDiscountPercentage!).div(this.PERCENTAGE_DIVISOR)
+          );
+        }
+        break;
+      }
+    }
+    return result;
+  }
+
+  private selectFixedPrice(items: CartItem[]): { units: number; amount: Decimal }[] {
+    const result = items.map(() => ({ units: 0, amount: new Decimal(0) }));
+    const pool = this.expandUnits(items, this.config.buy).sort(
+      (a, b) => b.unitPrice.comparedTo(a.unitPrice) || a.lineIndex - b.lineIndex
+    );
+
+    let applications = Math.floor(pool.length / this.config.buyQuantity);
+    if (this.config.maxApplications !== undefined) {
+      applications = Math.min(applications, this.config.maxApplications);
+    }
+    const bundled = pool.slice(0, applications * this.config.buyQuantity);
+    const bundledTotal = bundled.reduce((acc, unit) => acc.plus(unit.unitPrice), new Decimal(0));
+    const saving = bundledTotal.minus(this.config.bundlePrice!.times(applications));
+    if (applications === 0 || saving.lessThanOrEqualTo(0)) {
+      return result;
+    }
+
+    // Split the saving over the bundled lines by value, unrounded: the applier rounds the shares to the
+    // cart currency as its rounding policy says. Whatever the division leaves over goes on the first
+    // (most expensive) bundled line, so the shares add up to the saving exactly
+    for (const unit of bundled) {
+      result[unit.lineIndex].units += 1;
+    }
+    let allocated = new Decimal(0);
+    result.forEach((line, lineIndex) => {
+      if (line.units > 0) {
+        const lineValue = items[lineIndex].product.currentPrice.times(line.units);
+        line.amount = saving.times(lineValue).div(bundledTotal);
+        allocated = allocated.plus(line.amount);
+      }
+    });
+    const first = result[bundled[0].lineIndex];
+    first.amount = first.amount.plus(saving.minus(allocated));
+    return result;
+  }
+
+  private expandUnits(items: CartItem[], matcher: ProductMatcher): Unit[] {
+    const units: Unit[] = [];
+    items.forEach((item, lineIndex) => {
+      if (this.eligibility.isExcludedItem(this.config, item) || !this.matches(matcher, item)) {
+        return;
+      }
+      for (let i = 0; i < item.quantity; i++) {
+        units.push({ lineIndex, unitPrice: new Decimal(item.product.currentPrice) });
+      }
+    });
+    return units;
+  }
+
+  private matches(matcher: ProductMatcher, item: CartItem): boolean {
+    return (
+      (!matcher.brands || matcher.brands.includes(item.product.brand)) &&
+      (!matcher.categories || matcher.categories.includes(item.product.category)) &&
+      (!matcher.productIds || matcher.productIds.includes(item.product.id))
+    );
+  }
+}
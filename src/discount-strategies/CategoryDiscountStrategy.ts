@@ -1,21 +1,31 @@
 import { Decimal } from 'decimal.js';
-import { CartItem, CustomerProfile, DiscountStrategy, PaymentInfo } from '../models/interface';
-
-Decimal.set({ precision: 10, rounding: Decimal.ROUND_HALF_UP });
-
-interface CategoryDiscountConfig {
-  category: string;
-  discountPercentage: Decimal;
-  minimumCartAmount?: Decimal;
-  eligibleBrands?: string[];
-}
-
-interface CategoryValidator {
-  validate(items: CartItem[], customer: CustomerProfile, config: CategoryDiscountConfig): Promise<boolean>;
-}
-
-class DefaultCategoryValidator implements CategoryValidator {
-  async validate(items: CartItem[], customer: CustomerProfile, config: CategoryDiscountConfig): Promise<boolean> {
+import {
+  CartItem,
+  CategoryDiscountConfig,
+  CategoryValidator,
+  CustomerProfile,
+  DiscountStrategy,
+  DiscountValueConfig,
+  ProductScope,
+  Logger,
+  PaymentInfo,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import {
+  assertValidDiscountValue,
+  calculateDiscountValue,
+  describeDiscountValue,
+  normalizeDiscountValue,
+  pickDiscountValue
+} from './DiscountValue';
+
+export class DefaultCategoryValidator implements CategoryValidator {
+  constructor(private readonly logger: Logger = new ConsoleLogger()) {}
+
+  validate(items: CartItem[], customer: CustomerProfile, config: CategoryDiscountConfig): boolean {
     const totalAmount = items.reduce((acc, item) => {
       if (item.product.category === config.category) {
         return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
@@ -23,7 +33,7 @@ class DefaultCategoryValidator implements CategoryValidator {
       return acc;
     }, new Decimal(0));
 
-    console.debug(`CategoryValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
+    this.logger.debug(`CategoryValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
     if (config.minimumCartAmount && totalAmount.lessThan(config.minimumCartAmount)) {
       return false;
     }
@@ -34,26 +44,27 @@ class DefaultCategoryValidator implements CategoryValidator {
 export class CategoryDiscountStrategy implements DiscountStrategy {
   private readonly config: CategoryDiscountConfig;
   private readonly validator: CategoryValidator;
-  private readonly PERCENTAGE_DIVISOR = new Decimal(100);
-  private onDiscountApplied?: (discount: Decimal, name: string) => void;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
 
   constructor(
     config: CategoryDiscountConfig,
-    validator: CategoryValidator = new DefaultCategoryValidator(),
-    onDiscountApplied?: (discount: Decimal, name: string) => void
+    validator?: CategoryValidator,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
   ) {
     if (!config.category || typeof config.category !== 'string') {
       throw new Error('Invalid category');
     }
-    if (config.discountPercentage.lessThan(0) || config.discountPercentage.greaterThan(100)) {
-      throw new Error('Invalid discount percentage');
-    }
+    assertValidDiscountValue(config);
     if (config.minimumCartAmount && config.minimumCartAmount.lessThan(0)) {
       throw new Error('Invalid minimum cart amount');
     }
-    this.config = { ...config, discountPercentage: new Decimal(config.discountPercentage) };
-    this.validator = validator;
-    this.onDiscountApplied = onDiscountApplied;
+    eligibility.assertValidRules(config);
+    this.config = normalizeDiscountValue(config);
+    this.validator = validator ?? new DefaultCategoryValidator(logger);
+    this.eligibility = eligibility;
+    this.logger = logger;
   }
 
   async calculateDiscount(
@@ -62,40 +73,31 @@ export class CategoryDiscountStrategy implements DiscountStrategy {
     paymentInfo?: PaymentInfo
   ): Promise<Decimal> {
     if (!items.length || !(await this.validate(items, customer, paymentInfo))) {
-      console.debug(`No discount applied: Invalid conditions for category ${this.config.category}`);
+      this.logger.debug(`No discount applied: Invalid conditions for category ${this.config.category}`);
       return new Decimal(0);
     }
+    return this.calculateValidatedDiscount(items);
+  }
 
-    const totalAmount = items.reduce((acc, item) => {
-      if (
-        item.product.category === this.config.category &&
-        (!this.config.eligibleBrands || this.config.eligibleBrands.includes(item.product.brand))
-      ) {
-        return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
-      }
-      return acc;
-    }, new Decimal(0));
+  async calculateValidatedDiscount(items: CartItem[]): Promise<Decimal> {
+    const totalAmount = this.getEligibleTotal(items);
 
-    console.debug(`Category ${this.config.category}: totalAmount=${totalAmount}, percentage=${this.config.discountPercentage}`);
+    this.logger.debug(`Category ${this.config.category}: totalAmount=${totalAmount}, value=${describeDiscountValue(this.config, this.config.currency)}`);
 
     if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
-      console.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
+      this.logger.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
       return new Decimal(0);
     }
 
-    const discount = totalAmount.times(this.config.discountPercentage).div(this.PERCENTAGE_DIVISOR);
+    const discount = calculateDiscountValue(totalAmount, this.config);
 
-    console.debug(`Category ${this.config.category} discount: ${discount}`);
-
-    if (this.onDiscountApplied) {
-      this.onDiscountApplied(discount, this.getDiscountName());
-    }
+    this.logger.debug(`Category ${this.config.category} discount: ${discount}`);
 
     return discount;
   }
 
   getDiscountName(): string {
-    return `Category Discount - ${this.config.category} (${this.config.discountPercentage}%)`;
+    return `Category Discount - ${this.config.category} (${describeDiscountValue(this.config, this.config.currency)})`;
   }
 
   async validate(
@@ -103,10 +105,72 @@ export class CategoryDiscountStrategy implements DiscountStrategy {
     customer: CustomerProfile,
     paymentInfo?: PaymentInfo
   ): Promise<boolean> {
-    return this.validator.validate(items, customer, this.config);
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Category ${this.config.category} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    if (!items.some(item => this.isEligibleItem(item))) {
+      return {
+        rule: 'NO_ELIGIBLE_ITEMS',
+        message: `Cart has no eligible ${this.config.category} items`,
+        requiredCategories: [this.config.category],
+        ...(this.config.eligibleBrands && { requiredBrands: this.config.eligibleBrands })
+      };
+    }
+    if (!(await this.validator.validate(this.eligibility.withoutExcludedItems(this.config, items), customer, this.config))) {
+      const totalAmount = this.getEligibleTotal(items);
+      if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+        return {
+          rule: 'MINIMUM_AMOUNT',
+          message: `${this.config.category} subtotal ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)}`,
+          shortfall: new Decimal(this.config.minimumCartAmount).minus(totalAmount),
+          potentialSaving: calculateDiscountValue(new Decimal(this.config.minimumCartAmount), this.config)
+        };
+      }
+      return { rule: 'VALIDATOR', message: `Rejected by the ${this.config.category} category validator` };
+    }
+    return undefined;
   }
 
   getPriority(): number {
     return 1; // Brand and category discounts apply first
   }
+
+  isEligibleItem(item: CartItem): boolean {
+    return (
+      item.product.category === this.config.category &&
+      (!this.config.eligibleBrands || this.config.eligibleBrands.includes(item.product.brand)) &&
+      !this.eligibility.isExcludedItem(this.config, item)
+    );
+  }
+
+  getDiscountValue(): DiscountValueConfig {
+    return pickDiscountValue(this.config);
+  }
+
+  getProductScope(): ProductScope {
+    return { categories: [this.config.category], brands: this.config.eligibleBrands };
+  }
+
+  private getEligibleTotal(items: CartItem[]): Decimal {
+    return items.reduce((acc, item) => {
+      if (this.isEligibleItem(item)) {
+        return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
+      }
+      return acc;
+    }, new Decimal(0));
+  }
 }
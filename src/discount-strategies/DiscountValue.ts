@@ -0,0 +1,107 @@
+import { Decimal } from 'decimal.js';
+import { DiscountCap, DiscountValueConfig } from '../models/interface';
+import { formatAmount } from '../money/Currency';
+
+const PERCENTAGE_DIVISOR = new Decimal(100);
+
+/**
+ * Checks that a config has exactly one of discountPercentage and flatAmount, and sane bounds
+ * @throws Error describing the first invalid field
+ */
+export function assertValidDiscountValue(config: DiscountValueConfig): void {
+  const hasPercentage = config.discountPercentage !== undefined;
+  const hasFlatAmount = config.flatAmount !== undefined;
+  if (hasPercentage === hasFlatAmount) {
+    throw new Error('Exactly one of discountPercentage or flatAmount is required');
+  }
+  if (hasPercentage) {
+    const percentage = new Decimal(config.discountPercentage!);
+    if (percentage.lessThan(0) || percentage.greaterThan(100)) {
+      throw new Error('Invalid discount percentage');
+    }
+  }
+  if (hasFlatAmount && new Decimal(config.flatAmount!).lessThanOrEqualTo(0)) {
+    throw new Error('Invalid flat amount');
+  }
+  if (config.maxDiscountCap !== undefined && new Decimal(config.maxDiscountCap).lessThan(0)) {
+    throw new Error('Invalid maximum discount cap');
+  }
+}
+
+/**
+ * Copies the value fields as Decimals
+ */
+export function normalizeDiscountValue<T extends DiscountValueConfig>(config: T): T {
+  return {
+    ...config,
+    discountPercentage: config.discountPercentage !== undefined ? new Decimal(config.discountPercentage) : undefined,
+    flatAmount: config.flatAmount !== undefined ? new Decimal(config.flatAmount) : undefined,
+    maxDiscountCap: config.maxDiscountCap !== undefined ? new Decimal(config.maxDiscountCap) : undefined
+  };
+}
+
+/**
+ * Calculates the discount on an eligible subtotal.
+ * The result is limited by maxDiscountCap and never exceeds the subtotal itself.
+ */
+export function calculateDiscountValue(eligibleSubtotal: Decimal, config: DiscountValueConfig): Decimal {
+  if (eligibleSubtotal.lessThanOrEqualTo(0)) {
+    return new Decimal(0);
+  }
+
+  let discount = calculateUncappedValue(eligibleSubtotal, config);
+  if (config.maxDiscountCap !== undefined && discount.greaterThan(config.maxDiscountCap)) {
+    discount = new Decimal(config.maxDiscountCap);
+  }
+  return Decimal.min(discount, eligibleSubtotal);
+}
+
+/**
+ * Reports which limit calculateDiscountValue applied, if any
+ * @returns The tighter of maxDiscountCap and the eligible subtotal when it lowered the amount
+ */
+export function explainDiscountCap(eligibleSubtotal: Decimal, config: DiscountValueConfig): DiscountCap | undefined {
+  const uncappedAmount = calculateUncappedValue(Decimal.max(eligibleSubtotal, 0), config);
+  const maxCap = config.maxDiscountCap !== undefined ? new Decimal(config.maxDiscountCap) : undefined;
+
+  if (maxCap && uncappedAmount.greaterThan(maxCap) && maxCap.lessThanOrEqualTo(eligibleSubtotal)) {
+    return { reason: 'MAX_DISCOUNT_CAP', uncappedAmount, limit: maxCap };
+  }
+  if (uncappedAmount.greaterThan(eligibleSubtotal)) {
+    return { reason: 'ELIGIBLE_SUBTOTAL', uncappedAmount, limit: eligibleSubtotal };
+  }
+  return undefined;
+}
+
+/**
+ * Copies only the value fields of a config
+ */
+export function pickDiscountValue(config: DiscountValueConfig): DiscountValueConfig {
+  return {
+    discountPercentage: config.discountPercentage,
+    flatAmount: config.flatAmount,
+    maxDiscountCap: config.maxDiscountCap
+  };
+}
+
+/**
+ * Percentage of the subtotal plus the flat amount, before any cap
+ */
+function calculateUncappedValue(eligibleSubtotal: Decimal, config: DiscountValueConfig): Decimal {
+  let discount = new Decimal(0);
+  if (config.discountPercentage !== undefined) {
+    discount = discount.plus(eligibleSubtotal.times(config.discountPercentage).div(PERCENTAGE_DIVISOR));
+  }
+  if (config.flatAmount !== undefined) {
+    discount = discount.plus(config.flatAmount);
+  }
+  return discount;
+}
+
+/**
+ * Short label used in discount names, e.g. "40%" or "₹500 off"
+ * @param currency - Currency of the flat amount; defaults to INR
+ */
+export function describeDiscountValue(config: DiscountValueConfig, currency?: string): string {
+  return config.flatAmount !== undefined ? `${formatAmount(config.flatAmount, currency)} off` : `${config.discountPercentage}%`;
+}
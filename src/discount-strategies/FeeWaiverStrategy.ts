@@ -0,0 +1,134 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartItem,
+  CustomerProfile,
+  DiscountStrategy,
+  DiscountValueConfig,
+  FeeType,
+  FeeWaiverConfig,
+  Logger,
+  PaymentInfo,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import { assertValidDiscountValue, calculateDiscountValue, normalizeDiscountValue } from './DiscountValue';
+
+export const FEE_TYPES: FeeType[] = ['SHIPPING', 'COD', 'CONVENIENCE'];
+
+/**
+ * Waiver of shipping, COD or convenience fees. It takes nothing off the products: the
+ * FeeWaiverApplier validates it on the discounted cart and calls calculateWaiver for each fee it covers.
+ */
+export class FeeWaiverStrategy implements DiscountStrategy {
+  private readonly config: FeeWaiverConfig;
+  private readonly value: DiscountValueConfig;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+
+  constructor(
+    config: FeeWaiverConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
+  ) {
+    if (!config.name || typeof config.name !== 'string') {
+      throw new Error('Invalid fee waiver name');
+    }
+    if (!Array.isArray(config.feeTypes) || config.feeTypes.length === 0) {
+      throw new Error('At least one fee type is required');
+    }
+    for (const type of config.feeTypes) {
+      if (!FEE_TYPES.includes(type)) {
+        throw new Error(`Unknown fee type: ${type}`);
+      }
+    }
+    if (config.minimumCartAmount !== undefined && new Decimal(config.minimumCartAmount).lessThan(0)) {
+      throw new Error('Invalid minimum cart amount');
+    }
+    // Without a percentage or flat amount the whole fee is waived
+    const waivesInFull = config.discountPercentage === undefined && config.flatAmount === undefined;
+    const value = waivesInFull ? { ...config, discountPercentage: new Decimal(100) } : config;
+    assertValidDiscountValue(value);
+    eligibility.assertValidRules(config);
+    this.config = {
+      ...normalizeDiscountValue(config),
+      minimumCartAmount: config.minimumCartAmount !== undefined ? new Decimal(config.minimumCartAmount) : undefined
+    };
+    this.value = normalizeDiscountValue(value);
+    this.eligibility = eligibility;
+    this.logger = logger;
+  }
+
+  /**
+   * Fee waivers never lower the price of the products
+   */
+  async calculateDiscount(): Promise<Decimal> {
+    return new Decimal(0);
+  }
+
+  /**
+   * @param fee - What is left of the fee after the waivers applied before this one
+   * @returns The amount waived, never more than the fee
+   */
+  calculateWaiver(fee: Decimal): Decimal {
+    const waiver = calculateDiscountValue(fee, this.value);
+    this.logger.debug(`Fee waiver ${this.config.name}: fee=${fee}, waiver=${waiver}`);
+    return waiver;
+  }
+
+  waives(type: FeeType): boolean {
+    return this.config.feeTypes.includes(type);
+  }
+
+  getDiscountName(): string {
+    return `Fee Waiver - ${this.config.name}`;
+  }
+
+  async validate(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<boolean> {
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Fee waiver ${this.config.name} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    const totalAmount = this.getEligibleTotal(items);
+    if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+      return {
+        rule: 'MINIMUM_AMOUNT',
+        message: `Cart subtotal ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)}`,
+        shortfall: this.config.minimumCartAmount.minus(totalAmount)
+      };
+    }
+    return undefined;
+  }
+
+  getPriority(): number {
+    return 1; // Only orders the fee waivers among themselves
+  }
+
+  /**
+   * Products at their current (discounted) price; items of excluded brands do not count
+   */
+  private getEligibleTotal(items: CartItem[]): Decimal {
+    return this.eligibility.withoutExcludedItems(this.config, items).reduce(
+      (acc, item) => acc.plus(new Decimal(item.product.currentPrice).times(item.quantity)),
+      new Decimal(0)
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { ValidationFailure } from '../models/interface';
+
+/**
+ * Instrument id of the payments built to preview offers on listing pages; no usage is ever recorded for it
+ */
+export const PREVIEW_INSTRUMENT_ID = 'listing-preview';
+
+/**
+ * Whether a payment attribute (card type, network, UPI app, ...) is one of the allowed values.
+ * Payment gateways differ in casing, so the comparison ignores it; a missing value never matches.
+ */
+export function includesIgnoringCase(allowed: string[], value?: string): boolean {
+  return !!value && allowed.some(entry => entry.toUpperCase() === value.toUpperCase());
+}
+
+/**
+ * Message for a payment attribute that is missing or not one of the allowed values
+ */
+export function describeMismatch(label: string, value: string | undefined, allowed: string[]): string {
+  return value
+    ? `${label} ${value} is not one of ${allowed.join(', ')}`
+    : `${label} is unknown, offer requires one of ${allowed.join(', ')}`;
+}
+
+/**
+ * The conditions of a cart failure the customer can still meet (a shortfall or missing categories)
+ * @returns Undefined if the cart fails in a way adding items or spending more cannot fix
+ */
+export function pickCartConditions(
+  failure: ValidationFailure
+): Pick<ValidationFailure, 'shortfall' | 'requiredCategories' | 'potentialSaving'> | undefined {
+  if (failure.shortfall) {
+    return { shortfall: failure.shortfall, potentialSaving: failure.potentialSaving };
+  }
+  if (failure.requiredCategories) {
+    return { requiredCategories: failure.requiredCategories };
+  }
+  return undefined;
+}
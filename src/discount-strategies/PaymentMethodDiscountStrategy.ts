@@ -0,0 +1,247 @@
+import { Decimal } from 'decimal.js';
+import {
+  DiscountStrategy,
+  CartItem,
+  CustomerProfile,
+  PaymentInfo,
+  PaymentMethodDiscountConfig,
+  PaymentUsageLimits,
+  BenefitTerms,
+  DiscountValueConfig,
+  ProductScope,
+  Logger,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { PaymentUsageLimiter } from '../eligibility/PaymentUsageLimiter';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import {
+  assertValidDiscountValue,
+  calculateDiscountValue,
+  normalizeDiscountValue,
+  pickDiscountValue
+} from './DiscountValue';
+import { assertValidBenefit, describeBenefitValue, getBenefitTerms } from './Benefit';
+import { describeMismatch, includesIgnoringCase, pickCartConditions, PREVIEW_INSTRUMENT_ID } from './PaymentMatching';
+
+/**
+ * Offer for paying through a UPI app or wallet, e.g. 10% off via PhonePe UPI
+ */
+export class PaymentMethodDiscountStrategy implements DiscountStrategy {
+  private readonly config: PaymentMethodDiscountConfig;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+  private readonly usageLimiter: PaymentUsageLimiter;
+  private readonly offerId?: string;
+
+  constructor(
+    config: PaymentMethodDiscountConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger(),
+    usageLimiter: PaymentUsageLimiter = new PaymentUsageLimiter(),
+    offerId?: string
+  ) {
+    if (!config.name || typeof config.name !== 'string') throw new Error('Invalid payment offer name');
+    if (!['UPI', 'WALLET'].includes(config.method)) throw new Error('Invalid payment method');
+    assertValidDiscountValue(config);
+    assertValidBenefit(config);
+    eligibility.assertValidRules(config);
+    usageLimiter.assertValidLimits(config.monthlyLimits);
+    this.config = normalizeDiscountValue(config);
+    this.eligibility = eligibility;
+    this.logger = logger;
+    this.usageLimiter = usageLimiter;
+    this.offerId = offerId;
+  }
+
+  async calculateDiscount(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<Decimal> {
+    if (!(await this.validate(items, customer, paymentInfo))) {
+      this.logger.debug(`No discount applied: Invalid conditions for ${this.config.name}`);
+      return new Decimal(0);
+    }
+    return this.calculateValidatedDiscount(items, customer, paymentInfo);
+  }
+
+  async calculateValidatedDiscount(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<Decimal> {
+    let discount = calculateDiscountValue(this.calculateEligibleTotal(items), this.config);
+    const remaining = await this.usageLimiter.remainingDiscount(
+      this.getOfferId(),
+      this.config.monthlyLimits,
+      paymentInfo!,
+      this.eligibility.now()
+    );
+    if (remaining !== undefined) {
+      discount = Decimal.min(discount, remaining);
+    }
+    this.logger.debug(`${this.config.name} discount: ${discount}`);
+    return discount;
+  }
+
+  getDiscountName(): string {
+    return `Payment Offer - ${this.config.name} (${describeBenefitValue(this.config, this.config.currency)})`;
+  }
+
+  async validate(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<boolean> {
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`${this.config.name} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+
+    if (!paymentInfo || !includesIgnoringCase([this.config.method], paymentInfo.method)) {
+      return this.withRequiredPayment(
+        {
+          rule: 'PAYMENT_METHOD',
+          message: paymentInfo
+            ? `Payment method ${paymentInfo.method} is not ${this.config.method}`
+            : 'No payment information was given'
+        },
+        items,
+        customer
+      );
+    }
+    if (this.config.providers?.length && !includesIgnoringCase(this.config.providers, paymentInfo.provider)) {
+      return this.withRequiredPayment(
+        {
+          rule: 'PAYMENT_PROVIDER',
+          message: describeMismatch('Payment provider', paymentInfo.provider, this.config.providers)
+        },
+        items,
+        customer
+      );
+    }
+
+    if (this.config.eligibleCategories && !items.some(item => this.isEligibleItem(item))) {
+      return {
+        rule: 'NO_ELIGIBLE_ITEMS',
+        message: `Cart has no items in ${this.config.eligibleCategories.join(', ')}`,
+        requiredCategories: this.config.eligibleCategories
+      };
+    }
+    // The minimum is checked on the items the offer discounts
+    const totalAmount = this.calculateEligibleTotal(items);
+    if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+      return {
+        rule: 'MINIMUM_AMOUNT',
+        message: `${this.config.eligibleCategories ? 'Eligible subtotal' : 'Cart total'} ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)}`,
+        shortfall: new Decimal(this.config.minimumCartAmount).minus(totalAmount),
+        potentialSaving: calculateDiscountValue(new Decimal(this.config.minimumCartAmount), this.config),
+      };
+    }
+
+    return this.usageLimiter.explain(
+      this.getOfferId(),
+      this.config.monthlyLimits,
+      paymentInfo,
+      this.eligibility.now(),
+      this.config.currency
+    );
+  }
+
+  /**
+   * Id the monthly usage is recorded under: the StrategyEntry id, so changing the offer's value
+   * keeps the usage, and offers with the same name do not share it
+   */
+  getOfferId(): string {
+    return this.offerId ?? this.getDiscountName();
+  }
+
+  getPriority(): number {
+    return 4;
+  }
+
+  /**
+   * Items of the eligible categories, or of the whole cart if the offer sets none
+   */
+  isEligibleItem(item: CartItem): boolean {
+    return (
+      !this.eligibility.isExcludedItem(this.config, item) &&
+      (!this.config.eligibleCategories || this.config.eligibleCategories.includes(item.product.category))
+    );
+  }
+
+  getDiscountValue(): DiscountValueConfig {
+    return pickDiscountValue(this.config);
+  }
+
+  getProductScope(): ProductScope {
+    return { categories: this.config.eligibleCategories };
+  }
+
+  /**
+   * A payment meeting the offer's payment conditions, used to preview the offer on listing pages.
+   * It stands for a card or account with no usage yet, so monthly limits do not lower the preview.
+   */
+  getPreviewPaymentInfo(): PaymentInfo {
+    return { ...this.getRequiredPayment(), instrumentId: PREVIEW_INSTRUMENT_ID };
+  }
+
+  /**
+   * The UPI app or wallet the offer asks for; the first provider when several are allowed
+   */
+  private getRequiredPayment(): PaymentInfo {
+    return { method: this.config.method, provider: this.config.providers?.[0] };
+  }
+
+  /**
+   * Adds the payment to use to a payment failure, with the discount that payment would get or,
+   * if the cart also falls short, what else it needs. Left as is when the cart cannot qualify.
+   */
+  private async withRequiredPayment(
+    failure: ValidationFailure,
+    items: CartItem[],
+    customer: CustomerProfile
+  ): Promise<ValidationFailure> {
+    const preview = this.getPreviewPaymentInfo();
+    const cartFailure = await this.explainValidation(items, customer, preview);
+    if (!cartFailure) {
+      return {
+        ...failure,
+        requiredPayment: this.getRequiredPayment(),
+        potentialSaving: await this.calculateValidatedDiscount(items, customer, preview)
+      };
+    }
+    const cartConditions = pickCartConditions(cartFailure);
+    return cartConditions ? { ...failure, requiredPayment: this.getRequiredPayment(), ...cartConditions } : failure;
+  }
+
+  getMonthlyLimits(): PaymentUsageLimits | undefined {
+    return this.config.monthlyLimits;
+  }
+
+  getBenefit(): BenefitTerms {
+    return getBenefitTerms(this.config, this.config.name);
+  }
+
+  private calculateEligibleTotal(items: CartItem[]): Decimal {
+    return items.filter(item => this.isEligibleItem(item)).reduce(
+      (acc, item) => acc.plus(item.product.currentPrice.times(item.quantity)),
+      new Decimal(0)
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartItem,
+  CustomerProfile,
+  DiscountStrategy,
+  DiscountValueConfig,
+  Logger,
+  PaymentInfo,
+  SpendTier,
+  TieredDiscountConfig,
+  ValidationFailure
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { formatAmount } from '../money/Currency';
+import { calculateDiscountValue } from './DiscountValue';
+
+export class TieredDiscountStrategy implements DiscountStrategy {
+  private readonly config: TieredDiscountConfig;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+
+  constructor(
+    config: TieredDiscountConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
+  ) {
+    if (!config.name || typeof config.name !== 'string') {
+      throw new Error('Invalid tiered discount name');
+    }
+    if (!Array.isArray(config.tiers) || config.tiers.length === 0) {
+      throw new Error('At least one spend tier is required');
+    }
+    for (const tier of config.tiers) {
+      if (new Decimal(tier.threshold).lessThan(0)) {
+        throw new Error('Invalid tier threshold');
+      }
+      if (tier.discountPercentage === undefined && tier.flatAmount === undefined) {
+        throw new Error('Each tier needs a discountPercentage, a flatAmount or both');
+      }
+      if (
+        tier.discountPercentage !== undefined &&
+        (new Decimal(tier.discountPercentage).lessThan(0) || new Decimal(tier.discountPercentage).greaterThan(100))
+      ) {
+        throw new Error('Invalid discount percentage');
+      }
+      if (tier.flatAmount !== undefined && new Decimal(tier.flatAmount).lessThan(0)) {
+        throw new Error('Invalid flat amount');
+      }
+    }
+    const thresholds = config.tiers.map(tier => new Decimal(tier.threshold).toString());
+    if (new Set(thresholds).size !== thresholds.length) {
+      throw new Error('Tier thresholds must be unique');
+    }
+    eligibility.assertValidRules(config);
+
+    // Keep tiers sorted from the lowest threshold to the highest
+    const tiers = config.tiers
+      .map(tier => ({
+        threshold: new Decimal(tier.threshold),
+        discountPercentage: tier.discountPercentage !== undefined ? new Decimal(tier.discountPercentage) : undefined,
+        flatAmount: tier.flatAmount !== undefined ? new Decimal(tier.flatAmount) : undefined,
+        maxDiscountCap: tier.maxDiscountCap !== undefined ? new Decimal(tier.maxDiscountCap) : undefined
+      }))
+      .sort((a, b) => a.threshold.comparedTo(b.threshold));
+    this.config = { ...config, tiers };
+    this.eligibility = eligibility;
+    this.logger = logger;
+  }
+
+  async calculateDiscount(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<Decimal> {
+    if (!items.length || !(await this.validate(items, customer, paymentInfo))) {
+      this.logger.debug(`No discount applied: Invalid conditions for tiered discount ${this.config.name}`);
+      return new Decimal(0);
+    }
+    return this.calculateValidatedDiscount(items);
+  }
+
+  async calculateValidatedDiscount(items: CartItem[]): Promise<Decimal> {
+    const totalAmount = this.getEligibleTotal(items);
+    const tier = this.getReachedTier(totalAmount)!;
+    const discount = calculateDiscountValue(totalAmount, tier);
+
+    this.logger.debug(`Tiered ${this.config.name}: totalAmount=${totalAmount}, tier=${tier.threshold}, discount=${discount}`);
+    return discount;
+  }
+
+  getDiscountName(): string {
+    return `Tiered Spend Discount - ${this.config.name}`;
+  }
+
+  async validate(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<boolean> {
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Tiered ${this.config.name} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    const totalAmount = this.getEligibleTotal(items);
+    if (!this.getReachedTier(totalAmount)) {
+      return {
+        rule: 'MINIMUM_AMOUNT',
+        message: `Eligible subtotal ${formatAmount(totalAmount, this.config.currency)} is below the lowest tier of ${formatAmount(this.config.tiers[0].threshold, this.config.currency)}`,
+        shortfall: new Decimal(this.config.tiers[0].threshold).minus(totalAmount),
+        potentialSaving: calculateDiscountValue(new Decimal(this.config.tiers[0].threshold), this.config.tiers[0])
+      };
+    }
+    return undefined;
+  }
+
+  getPriority(): number {
+    return 3; // Cart-level, after vouchers and before bank offers
+  }
+
+  isEligibleItem(item: CartItem): boolean {
+    return !(
+      this.eligibility.isExcludedItem(this.config, item) ||
+      (this.config.excludedCategories && this.config.excludedCategories.includes(item.product.category))
+    );
+  }
+
+  getDiscountValue(items: CartItem[]): DiscountValueConfig | undefined {
+    return this.getReachedTier(this.getEligibleTotal(items));
+  }
+
+  describeApplication(items: CartItem[]): string {
+    return `spend tier ${formatAmount(this.getReachedTier(this.getEligibleTotal(items))!.threshold, this.config.currency)} reached`;
+  }
+
+  /**
+   * @returns The highest tier whose threshold the eligible subtotal meets, if any
+   */
+  private getReachedTier(totalAmount: Decimal): SpendTier | undefined {
+    return [...this.config.tiers].reverse().find(tier => totalAmount.greaterThanOrEqualTo(tier.threshold));
+  }
+
+  private getEligibleTotal(items: CartItem[]): Decimal {
+    return items.reduce((acc, item) => {
+      if (!this.isEligibleItem(item)) {
+        return acc;
+      }
+      return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
+    }, new Decimal(0));
+  }
+}
@@ -1,20 +1,39 @@
 import { Decimal } from 'decimal.js';
-import { CartItem, CustomerProfile, DiscountStrategy, VoucherDiscountConfig, PaymentInfo, VoucherValidator } from '../models/interface';
-
-Decimal.set({ precision: 10, rounding: Decimal.ROUND_HALF_UP });
+import {
+  CartItem,
+  CustomerProfile,
+  DiscountStrategy,
+  DiscountValueConfig,
+  Logger,
+  VoucherCodeFormat,
+  VoucherDiscountConfig,
+  PaymentInfo,
+  ValidationFailure,
+  VoucherUsageLimits,
+  VoucherValidator
+} from '../models/interface';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { VoucherCodeGenerator } from '../generators/VoucherCodeGenerator';
+import { formatAmount } from '../money/Currency';
+import {
+  assertValidDiscountValue,
+  calculateDiscountValue,
+  describeDiscountValue,
+  normalizeDiscountValue,
+  pickDiscountValue
+} from './DiscountValue';
 
 
 class DefaultVoucherValidator implements VoucherValidator {
-  async validate(
-    items: CartItem[],
-    customer: CustomerProfile,
-    config: VoucherDiscountConfig
-  ): Promise<boolean> {
+  constructor(private readonly logger: Logger = new ConsoleLogger()) {}
+
+  validate(items: CartItem[], customer: CustomerProfile, config: VoucherDiscountConfig): boolean {
     const totalAmount = items.reduce((acc, item) => {
       return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
     }, new Decimal(0));
 
-    console.debug(`VoucherValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
+    this.logger.debug(`VoucherValidator: totalAmount=${totalAmount}, minCartAmount=${config.minimumCartAmount}`);
     if (config.minimumCartAmount && totalAmount.lessThan(config.minimumCartAmount)) {
       return false;
     }
@@ -25,26 +44,52 @@ class DefaultVoucherValidator implements VoucherValidator {
 export class VoucherDiscountStrategy implements DiscountStrategy {
   private readonly config: VoucherDiscountConfig;
   private readonly validator: VoucherValidator;
-  private readonly PERCENTAGE_DIVISOR = new Decimal(100);
-  private onDiscountApplied?: (discount: Decimal, name: string) => void;
+  private readonly eligibility: EligibilityChecker;
+  private readonly logger: Logger;
+  private readonly codeGenerator?: VoucherCodeGenerator; // checks entered codes against the code format
 
   constructor(
     config: VoucherDiscountConfig,
-    validator: VoucherValidator = new DefaultVoucherValidator(),
-    onDiscountApplied?: (discount: Decimal, name: string) => void
+    validator?: VoucherValidator,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger()
   ) {
     if (!config.code || typeof config.code !== 'string') {
       throw new Error('Invalid voucher code');
     }
-    if (config.discountPercentage.lessThan(0) || config.discountPercentage.greaterThan(100)) {
-      throw new Error('Invalid discount percentage');
-    }
+    assertValidDiscountValue(config);
     if (config.minimumCartAmount && config.minimumCartAmount.lessThan(0)) {
       throw new Error('Invalid minimum cart amount');
     }
-    this.config = { ...config, discountPercentage: new Decimal(config.discountPercentage) };
-    this.validator = validator;
-    this.onDiscountApplied = onDiscountApplied;
+    eligibility.assertValidRules(config);
+    for (const limit of [config.usageLimit, config.perCustomerLimit]) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        throw new Error('Invalid usage limit');
+      }
+    }
+    if (config.issuedCodes !== undefined) {
+      if (!Array.isArray(config.issuedCodes) || config.issuedCodes.some(code => !code || typeof code !== 'string')) {
+        throw new Error('Invalid issued voucher codes');
+      }
+      if (config.usageLimit !== undefined || config.perCustomerLimit !== undefined) {
+        throw new Error('Usage limits cannot be set on a voucher with issued codes; each issued code is single-use');
+      }
+    }
+    if (config.codeFormat !== undefined) {
+      if (config.issuedCodes === undefined) {
+        throw new Error('A voucher code format needs issued codes');
+      }
+      const generator = new VoucherCodeGenerator(config.codeFormat);
+      const malformed = config.issuedCodes.find(code => !generator.isWellFormed(code));
+      if (malformed) {
+        throw new Error(`Issued voucher code ${malformed} does not match the code format`);
+      }
+      this.codeGenerator = generator;
+    }
+    this.config = normalizeDiscountValue(config);
+    this.validator = validator ?? new DefaultVoucherValidator(logger);
+    this.eligibility = eligibility;
+    this.logger = logger;
   }
 
   async calculateDiscount(
@@ -53,46 +98,77 @@ export class VoucherDiscountStrategy implements DiscountStrategy {
     paymentInfo?: PaymentInfo
   ): Promise<Decimal> {
     if (!items.length || !(await this.validate(items, customer, paymentInfo))) {
-      console.debug(`No discount applied: Invalid conditions for voucher ${this.config.code}`);
+      this.logger.debug(`No discount applied: Invalid conditions for voucher ${this.config.code}`);
       return new Decimal(0);
     }
+    return this.calculateValidatedDiscount(items);
+  }
 
-    console.debug(`Voucher ${this.config.code} items: ${JSON.stringify(items.map(i => ({ id: i.product.id, price: i.product.currentPrice.toString(), qty: i.quantity })))}`);
+  async calculateValidatedDiscount(items: CartItem[]): Promise<Decimal> {
 
-    const totalAmount = items.reduce((acc, item) => {
-      if (
-        (this.config.excludedBrands && this.config.excludedBrands.includes(item.product.brand)) ||
-        (this.config.excludedCategories && this.config.excludedCategories.includes(item.product.category))
-      ) {
-        return acc;
-      }
-      return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
-    }, new Decimal(0));
+    this.logger.debug(`Voucher ${this.config.code} items: ${JSON.stringify(items.map(i => ({ id: i.product.id, price: i.product.currentPrice.toString(), qty: i.quantity })))}`);
+
+    const totalAmount = this.getEligibleTotal(items);
 
-    console.debug(`Voucher ${this.config.code}: totalAmount=${totalAmount}, percentage=${this.config.discountPercentage}`);
+    this.logger.debug(`Voucher ${this.config.code}: totalAmount=${totalAmount}, value=${describeDiscountValue(this.config, this.config.currency)}`);
 
     if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
-      console.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
+      this.logger.debug(`No discount applied: Cart total ${totalAmount} below minimum ${this.config.minimumCartAmount}`);
       return new Decimal(0);
     }
 
-    let discount = totalAmount.times(this.config.discountPercentage).div(this.PERCENTAGE_DIVISOR);
-
-    if (this.config.maxDiscountCap && discount.greaterThan(this.config.maxDiscountCap)) {
-      discount = this.config.maxDiscountCap;
-    }
-
-    console.debug(`Voucher ${this.config.code} discount: ${discount}`);
+    const discount = calculateDiscountValue(totalAmount, this.config);
 
-    if (this.onDiscountApplied) {
-      this.onDiscountApplied(discount, this.getDiscountName());
-    }
+    this.logger.debug(`Voucher ${this.config.code} discount: ${discount}`);
 
     return discount;
   }
 
   getDiscountName(): string {
-    return `Voucher Discount - ${this.config.code} (${this.config.discountPercentage}%)`;
+    return `Voucher Discount - ${this.config.code} (${describeDiscountValue(this.config, this.config.currency)})`;
+  }
+
+  getCode(): string {
+    return this.config.code;
+  }
+
+  /**
+   * @returns The single-use codes customers enter for this campaign, or undefined if they enter the campaign code
+   */
+  getIssuedCodes(): string[] | undefined {
+    return this.config.issuedCodes;
+  }
+
+  getCodeFormat(): VoucherCodeFormat | undefined {
+    return this.config.codeFormat;
+  }
+
+  /**
+   * Whether a code that is not one of this campaign's has the prefix of its code format but fails its
+   * check character, i.e. is most likely a mistyped issued code. Always false without a code format.
+   */
+  isMistypedCode(code: string): boolean {
+    return (
+      this.codeGenerator !== undefined && this.codeGenerator.hasPrefix(code) && !this.codeGenerator.isWellFormed(code)
+    );
+  }
+
+  hasStarted(): boolean {
+    return this.eligibility.hasStarted(this.config);
+  }
+
+  isExpired(): boolean {
+    return this.eligibility.isExpired(this.config);
+  }
+
+  /**
+   * @returns The limits of each code customers enter; issued codes can be redeemed once
+   */
+  getUsageLimits(): VoucherUsageLimits {
+    if (this.config.issuedCodes) {
+      return { usageLimit: 1 };
+    }
+    return { usageLimit: this.config.usageLimit, perCustomerLimit: this.config.perCustomerLimit };
   }
 
   async validate(
@@ -100,10 +176,65 @@ export class VoucherDiscountStrategy implements DiscountStrategy {
     customer: CustomerProfile,
     paymentInfo?: PaymentInfo
   ): Promise<boolean> {
-    return this.validator.validate(items, customer, this.config);
+    const failure = await this.explainValidation(items, customer, paymentInfo);
+    if (failure) {
+      this.logger.debug(`Voucher ${this.config.code} not eligible: ${failure.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async explainValidation(
+    items: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo
+  ): Promise<ValidationFailure | undefined> {
+    const failure = this.eligibility.explain(this.config, customer);
+    if (failure) {
+      return failure;
+    }
+    if (items.length > 0 && !items.some(item => this.isEligibleItem(item))) {
+      return {
+        rule: 'EXCLUDED_CATEGORY',
+        message: `Every item in the cart is in a category or brand excluded from voucher ${this.config.code}`
+      };
+    }
+    if (!(await this.validator.validate(this.eligibility.withoutExcludedItems(this.config, items), customer, this.config))) {
+      const totalAmount = this.getEligibleTotal(items);
+      if (this.config.minimumCartAmount && totalAmount.lessThan(this.config.minimumCartAmount)) {
+        return {
+          rule: 'MINIMUM_AMOUNT',
+          message: `Eligible subtotal ${formatAmount(totalAmount, this.config.currency)} is below the minimum of ${formatAmount(this.config.minimumCartAmount, this.config.currency)} for voucher ${this.config.code}`,
+          shortfall: new Decimal(this.config.minimumCartAmount).minus(totalAmount),
+          potentialSaving: calculateDiscountValue(new Decimal(this.config.minimumCartAmount), this.config)
+        };
+      }
+      return { rule: 'VALIDATOR', message: `Rejected by the validator of voucher ${this.config.code}` };
+    }
+    return undefined;
   }
 
   getPriority(): number {
     return 2; // Vouchers apply after brand/category
   }
+
+  isEligibleItem(item: CartItem): boolean {
+    return !(
+      this.eligibility.isExcludedItem(this.config, item) ||
+      (this.config.excludedCategories && this.config.excludedCategories.includes(item.product.category))
+    );
+  }
+
+  getDiscountValue(): DiscountValueConfig {
+    return pickDiscountValue(this.config);
+  }
+
+  private getEligibleTotal(items: CartItem[]): Decimal {
+    return items.reduce((acc, item) => {
+      if (!this.isEligibleItem(item)) {
+        return acc;
+      }
+      return acc.plus(new Decimal(item.product.currentPrice).times(item.quantity));
+    }, new Decimal(0));
+  }
 }
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Decimal } from 'decimal.js';
+import { CampaignBudget, CampaignSpendLedger, ValidationFailure } from '../models/interface';
+import { InMemoryCampaignSpendLedger } from '../ledgers/InMemoryCampaignSpendLedger';
+import { EligibilityChecker } from './EligibilityChecker';
+import { formatAmount } from '../money/Currency';
+
+/**
+ * Total and daily budgets of campaigns. Spend is read from the ledger at the eligibility checker's
+ * time; while re-pricing an order (runForOrder) the order's own spend is left out.
+ */
+export class CampaignBudgetTracker {
+  private readonly repricedOrder = new AsyncLocalStorage<string>();
+
+  constructor(
+    private readonly ledger: CampaignSpendLedger = new InMemoryCampaignSpendLedger(),
+    private readonly eligibility: EligibilityChecker = new EligibilityChecker()
+  ) {}
+
+  /**
+   * Runs fn with the spend of the given order ignored, including across its awaits
+   */
+  runForOrder<T>(orderId: string, fn: () => T): T {
+    return this.repricedOrder.run(orderId, fn);
+  }
+
+  /**
+   * @param campaignId - Strategy id the spend is recorded under
+   * @param currency - Currency of the budget, used in the message
+   * @returns The budget that has run out, or undefined if the campaign can still grant discounts
+   */
+  async explain(campaignId: string, budget?: CampaignBudget, currency?: string): Promise<ValidationFailure | undefined> {
+    if (!budget) {
+      return undefined;
+    }
+    const spend = await this.ledger.getSpend(campaignId, this.eligibility.now(), this.repricedOrder.getStore());
+    if (spend.total.greaterThanOrEqualTo(budget.total)) {
+      return { rule: 'BUDGET_EXHAUSTED', message: `Campaign budget of ${formatAmount(budget.total, currency)} has been spent` };
+    }
+    if (budget.daily !== undefined && spend.today.greaterThanOrEqualTo(budget.daily)) {
+      return { rule: 'BUDGET_EXHAUSTED', message: `Daily budget of ${formatAmount(budget.daily, currency)} has been spent for today` };
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns What the campaign can still grant today, or undefined if it has no budget
+   */
+  async remaining(campaignId: string, budget?: CampaignBudget): Promise<Decimal | undefined> {
+    if (!budget) {
+      return undefined;
+    }
+    const spend = await this.ledger.getSpend(campaignId, this.eligibility.now(), this.repricedOrder.getStore());
+    const remaining = new Decimal(budget.total).minus(spend.total);
+    return Decimal.max(
+      budget.daily === undefined ? remaining : Decimal.min(remaining, new Decimal(budget.daily).minus(spend.today)),
+      0
+    );
+  }
+}
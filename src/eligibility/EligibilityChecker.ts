@@ -0,0 +1,113 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CartItem, Clock, CustomerProfile, EligibilityRules, ValidationFailure } from '../models/interface';
+import { getCurrency } from '../money/Currency';
+
+/**
+ * Clock backed by the system time
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+export type EligibilityFailure = 'NOT_STARTED' | 'EXPIRED' | 'CUSTOMER_TIER';
+
+/**
+ * Eligibility rules shared by every discount strategy: validity window, customer tiers
+ * and excluded brands. Time checks read from the injected clock, unless pinned with runAt.
+ */
+export class EligibilityChecker {
+  private readonly pinnedTime = new AsyncLocalStorage<Date>();
+
+  constructor(private readonly clock: Clock = new SystemClock()) {}
+
+  now(): Date {
+    return this.pinnedTime.getStore() ?? this.clock.now();
+  }
+
+  /**
+   * Runs fn with now() pinned to the given time, including across its awaits.
+   * Concurrent calls outside fn keep reading the clock.
+   */
+  runAt<T>(time: Date, fn: () => T): T {
+    return this.pinnedTime.run(time, fn);
+  }
+
+  /**
+   * Rejects rule sets that can never be satisfied
+   * @throws Error if the validity window ends before it starts or the currency is not supported
+   */
+  assertValidRules(rules: EligibilityRules): void {
+    if (rules.currency !== undefined) {
+      getCurrency(rules.currency);
+    }
+    if (rules.validFrom && rules.validUntil && rules.validFrom.getTime() > rules.validUntil.getTime()) {
+      throw new Error('Invalid validity window');
+    }
+  }
+
+  hasStarted(rules: EligibilityRules): boolean {
+    return !rules.validFrom || this.now().getTime() >= rules.validFrom.getTime();
+  }
+
+  isExpired(rules: EligibilityRules): boolean {
+    return !!rules.validUntil && this.now().getTime() > rules.validUntil.getTime();
+  }
+
+  isCustomerEligible(rules: EligibilityRules, customer: CustomerProfile): boolean {
+    if (!rules.customerTiers || rules.customerTiers.length === 0) {
+      return true;
+    }
+    const tier = customer?.tier?.toUpperCase();
+    return rules.customerTiers.some(allowed => allowed.toUpperCase() === tier);
+  }
+
+  isExcludedItem(rules: EligibilityRules, item: CartItem): boolean {
+    return !!rules.excludedBrands && rules.excludedBrands.includes(item.product.brand);
+  }
+
+  /**
+   * Removes items of excluded brands so they count neither towards the discount nor its minimums
+   */
+  withoutExcludedItems(rules: EligibilityRules, items: CartItem[]): CartItem[] {
+    return items.filter(item => !this.isExcludedItem(rules, item));
+  }
+
+  /**
+   * Checks the cart-independent rules
+   * @returns The first rule that fails, or undefined if the customer is eligible right now
+   */
+  check(rules: EligibilityRules, customer: CustomerProfile): EligibilityFailure | undefined {
+    if (!this.hasStarted(rules)) {
+      return 'NOT_STARTED';
+    }
+    if (this.isExpired(rules)) {
+      return 'EXPIRED';
+    }
+    if (!this.isCustomerEligible(rules, customer)) {
+      return 'CUSTOMER_TIER';
+    }
+    return undefined;
+  }
+
+  /**
+   * Same as check, with a message describing the failed rule
+   */
+  explain(rules: EligibilityRules, customer: CustomerProfile): ValidationFailure | undefined {
+    const failure = this.check(rules, customer);
+    switch (failure) {
+      case 'NOT_STARTED':
+        return { rule: failure, message: `Offer starts at ${rules.validFrom!.toISOString()}` };
+      case 'EXPIRED':
+        return { rule: failure, message: `Offer ended at ${rules.validUntil!.toISOString()}` };
+      case 'CUSTOMER_TIER':
+        return {
+          rule: failure,
+          message: `Customer tier ${customer?.tier} is not one of ${rules.customerTiers!.join(', ')}`
+        };
+      default:
+        return undefined;
+    }
+  }
+}
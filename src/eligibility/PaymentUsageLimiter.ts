@@ -0,0 +1,91 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Decimal } from 'decimal.js';
+import { PaymentInfo, PaymentUsageLimits, PaymentUsageStore, ValidationFailure } from '../models/interface';
+import { InMemoryPaymentUsageStore } from '../ledgers/InMemoryPaymentUsageStore';
+import { formatAmount } from '../money/Currency';
+
+/**
+ * Monthly limits of payment offers, per card, UPI id or wallet. Usage is read from the store;
+ * while re-pricing an order (runForOrder) the order's own usage is left out.
+ */
+export class PaymentUsageLimiter {
+  private readonly repricedOrder = new AsyncLocalStorage<string>();
+
+  constructor(private readonly store: PaymentUsageStore = new InMemoryPaymentUsageStore()) {}
+
+  /**
+   * Runs fn with the usage of the given order ignored, including across its awaits
+   */
+  runForOrder<T>(orderId: string, fn: () => T): T {
+    return this.repricedOrder.run(orderId, fn);
+  }
+
+  /**
+   * @throws Error if a limit is negative or the use count is not an integer
+   */
+  assertValidLimits(limits?: PaymentUsageLimits): void {
+    if (!limits) {
+      return;
+    }
+    if (
+      limits.maxUsesPerMonth !== undefined &&
+      (!Number.isInteger(limits.maxUsesPerMonth) || limits.maxUsesPerMonth < 0)
+    ) {
+      throw new Error('Invalid monthly use limit');
+    }
+    if (limits.maxDiscountPerMonth !== undefined && new Decimal(limits.maxDiscountPerMonth).lessThan(0)) {
+      throw new Error('Invalid monthly discount limit');
+    }
+  }
+
+  /**
+   * @param offer - Id the usage is recorded under (StrategyEntry.id)
+   * @param currency - Currency of the monthly discount limit, used in the message
+   * @returns The limit the instrument has reached this month, or undefined if the offer can still be used
+   */
+  async explain(
+    offer: string,
+    limits: PaymentUsageLimits | undefined,
+    paymentInfo: PaymentInfo,
+    at: Date,
+    currency?: string
+  ): Promise<ValidationFailure | undefined> {
+    if (!limits || (limits.maxUsesPerMonth === undefined && limits.maxDiscountPerMonth === undefined)) {
+      return undefined;
+    }
+    if (!paymentInfo.instrumentId) {
+      return { rule: 'PAYMENT_METHOD', message: 'Offer has a monthly limit but the payment has no instrument id' };
+    }
+
+    const usage = await this.store.getMonthlyUsage(offer, paymentInfo.instrumentId, at, this.repricedOrder.getStore());
+    if (limits.maxUsesPerMonth !== undefined && usage.count >= limits.maxUsesPerMonth) {
+      return {
+        rule: 'USAGE_LIMIT',
+        message: `Offer already used ${usage.count} times this month on this payment instrument, the limit is ${limits.maxUsesPerMonth}`
+      };
+    }
+    if (limits.maxDiscountPerMonth !== undefined && usage.amount.greaterThanOrEqualTo(limits.maxDiscountPerMonth)) {
+      return {
+        rule: 'USAGE_LIMIT',
+        message: `Monthly limit of ${formatAmount(limits.maxDiscountPerMonth, currency)} already reached on this payment instrument`
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns What is left of the monthly discount limit on the instrument, or undefined if there is none
+   */
+  async remainingDiscount(
+    offer: string,
+    limits: PaymentUsageLimits | undefined,
+    paymentInfo: PaymentInfo,
+    at: Date
+  ): Promise<Decimal | undefined> {
+    if (limits?.maxDiscountPerMonth === undefined || !paymentInfo.instrumentId) {
+      return undefined;
+    }
+    const usage = await this.store.getMonthlyUsage(offer, paymentInfo.instrumentId, at, this.repricedOrder.getStore());
+    return Decimal.max(new Decimal(limits.maxDiscountPerMonth).minus(usage.amount), 0);
+  }
+}
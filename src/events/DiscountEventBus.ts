@@ -0,0 +1,39 @@
+import {
+  DiscountEventEmitter,
+  DiscountEventListener,
+  DiscountEventMap,
+  DiscountEventName,
+  Logger
+} from '../models/interface';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+
+/**
+ * Typed publish/subscribe for the discount lifecycle events. Listeners run synchronously in the
+ * order they subscribed; a listener that throws is logged and does not stop the others or the calculation.
+ */
+export class DiscountEventBus implements DiscountEventEmitter {
+  private readonly listeners = new Map<DiscountEventName, Set<DiscountEventListener<any>>>();
+
+  constructor(private readonly logger: Logger = new ConsoleLogger()) {}
+
+  on<K extends DiscountEventName>(event: K, listener: DiscountEventListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends DiscountEventName>(event: K, listener: DiscountEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends DiscountEventName>(event: K, payload: DiscountEventMap[K]): void {
+    for (const listener of Array.from(this.listeners.get(event) ?? [])) {
+      try {
+        listener(payload);
+      } catch (error: any) {
+        this.logger.debug(`Listener for ${event} failed: ${error.message}`);
+      }
+    }
+  }
+}
@@ -1,59 +1,96 @@
-import { DiscountStrategy } from '../models/interface';
+import { Decimal } from 'decimal.js';
+import { DiscountStrategy, Logger, StrategyConfig, StrategyEntry } from '../models/interface';
 import { BankCardDiscountStrategy } from '../discount-strategies/BankCardDiscountStrategy';
 import { BrandDiscountStrategy } from '../discount-strategies/BrandDiscountStrategy';
 import { CategoryDiscountStrategy } from '../discount-strategies/CategoryDiscountStrategy';
 import { VoucherDiscountStrategy } from '../discount-strategies/VoucherDiscountStrategy';
+import { BundleDiscountStrategy } from '../discount-strategies/BundleDiscountStrategy';
+import { TieredDiscountStrategy } from '../discount-strategies/TieredDiscountStrategy';
+import { PaymentMethodDiscountStrategy } from '../discount-strategies/PaymentMethodDiscountStrategy';
+import { FeeWaiverStrategy } from '../discount-strategies/FeeWaiverStrategy';
+import { EligibilityChecker } from '../eligibility/EligibilityChecker';
+import { PaymentUsageLimiter } from '../eligibility/PaymentUsageLimiter';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { DEFAULT_CURRENCY } from '../money/Currency';
 
-export interface StrategyConfig {
-  type: 'brand' | 'category' | 'voucher' | 'bank';
-  config: any;
-  validator?: any;
-  onDiscountApplied?: (discount: any, name: string) => void;
-  priority?: number;
-}
-
+/**
+ * Builds strategies from their configuration. Holds no state: the strategies are kept
+ * in the StrategyRegistry of the service that created them.
+ */
 export class DiscountStrategyFactory {
-  private static instance: DiscountStrategyFactory;
-  private strategies: Map<string, DiscountStrategy> = new Map();
-
-  private constructor() {}
-
-  public static getInstance(): DiscountStrategyFactory {
-    if (!DiscountStrategyFactory.instance) {
-      DiscountStrategyFactory.instance = new DiscountStrategyFactory();
-    }
-    return DiscountStrategyFactory.instance;
-  }
-
-  public createStrategy(config: StrategyConfig): DiscountStrategy {
+  public createStrategy(
+    config: StrategyConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger(),
+    usageLimiter: PaymentUsageLimiter = new PaymentUsageLimiter()
+  ): DiscountStrategy {
     let strategy: DiscountStrategy;
 
     switch (config.type) {
       case 'brand':
-        strategy = new BrandDiscountStrategy(config.config, config.validator, config.onDiscountApplied);
+        strategy = new BrandDiscountStrategy(config.config, config.validator, eligibility, logger);
         break;
       case 'category':
-        strategy = new CategoryDiscountStrategy(config.config, config.validator, config.onDiscountApplied);
+        strategy = new CategoryDiscountStrategy(config.config, config.validator, eligibility, logger);
         break;
       case 'voucher':
-        strategy = new VoucherDiscountStrategy(config.config, config.validator, config.onDiscountApplied);
+        strategy = new VoucherDiscountStrategy(config.config, config.validator, eligibility, logger);
         break;
       case 'bank':
-        strategy = new BankCardDiscountStrategy(config.config);
+        strategy = new BankCardDiscountStrategy(config.config, eligibility, logger, usageLimiter, config.id);
+        break;
+      case 'payment':
+        strategy = new PaymentMethodDiscountStrategy(config.config, eligibility, logger, usageLimiter, config.id);
+        break;
+      case 'bundle':
+        strategy = new BundleDiscountStrategy(config.config, eligibility, logger);
+        break;
+      case 'tiered':
+        strategy = new TieredDiscountStrategy(config.config, eligibility, logger);
+        break;
+      case 'feeWaiver':
+        strategy = new FeeWaiverStrategy(config.config, eligibility, logger);
         break;
       default:
-        throw new Error(`Unknown strategy type: ${config.type}`);
+        throw new Error(`Unknown strategy type: ${(config as StrategyConfig).type}`);
     }
 
-    this.strategies.set(strategy.getDiscountName(), strategy);
     return strategy;
   }
 
-  public getStrategies(): DiscountStrategy[] {
-    return Array.from(this.strategies.values());
-  }
-
-  public clearStrategies(): void {
-    this.strategies.clear();
+  /**
+   * Creates the strategy together with its id, stacking rules, priority, calculation mode and budget.
+   * The id defaults to the discount name.
+   * @throws Error if the priority is not a finite number or the budget is negative
+   */
+  public createEntry(
+    config: StrategyConfig,
+    eligibility: EligibilityChecker = new EligibilityChecker(),
+    logger: Logger = new ConsoleLogger(),
+    usageLimiter: PaymentUsageLimiter = new PaymentUsageLimiter()
+  ): StrategyEntry {
+    if (config.priority !== undefined && !Number.isFinite(config.priority)) {
+      throw new Error('Invalid priority');
+    }
+    if (config.calculationMode !== undefined && !['SEQUENTIAL', 'BASE_PRICE'].includes(config.calculationMode)) {
+      throw new Error(`Unknown calculation mode: ${config.calculationMode}`);
+    }
+    if (config.budget !== undefined && !(new Decimal(config.budget.total).greaterThanOrEqualTo(0))) {
+      throw new Error('Invalid campaign budget');
+    }
+    if (config.budget?.daily !== undefined && new Decimal(config.budget.daily).lessThan(0)) {
+      throw new Error('Invalid daily budget');
+    }
+    const strategy = this.createStrategy(config, eligibility, logger, usageLimiter);
+    return {
+      id: config.id ?? strategy.getDiscountName(),
+      strategy,
+      stackingGroup: config.stackingGroup,
+      notCombinableWith: config.notCombinableWith,
+      priority: config.priority,
+      calculationMode: config.calculationMode,
+      budget: config.budget,
+      currency: config.config.currency ?? DEFAULT_CURRENCY
+    };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { randomInt } from 'crypto';
+import { VoucherCodeFormat } from '../models/interface';
+
+// Letters and digits without the look-alikes 0/O and 1/I/L
+const DEFAULT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const DEFAULT_LENGTH = 5;
+const DEFAULT_SEPARATOR = '-';
+
+// At most this share of the possible codes is handed out, so random draws rarely collide
+const MAX_FILL_RATIO = 0.5;
+
+/**
+ * Generates unique voucher codes with a check character (Luhn mod N over the random part),
+ * which catches every single mistyped character and most swaps of adjacent characters.
+ * Random characters come from the crypto module, so codes cannot be guessed from each other.
+ */
+export class VoucherCodeGenerator {
+  private readonly prefix: string;
+  private readonly alphabet: string;
+  private readonly length: number;
+
+  /**
+   * @throws Error if the alphabet has fewer than two characters, repeats a character or has
+   * lower-case letters or whitespace, or the length is not a positive integer
+   */
+  constructor(format: VoucherCodeFormat = {}) {
+    const alphabet = format.alphabet ?? DEFAULT_ALPHABET;
+    if (
+      alphabet.length < 2 ||
+      new Set(alphabet).size !== alphabet.length ||
+      alphabet !== alphabet.toUpperCase() ||
+      /\s/.test(alphabet)
+    ) {
+      throw new Error('Invalid voucher code alphabet');
+    }
+    const length = format.length ?? DEFAULT_LENGTH;
+    if (!Number.isInteger(length) || length < 1) {
+      throw new Error('Invalid voucher code length');
+    }
+    const separator = format.separator ?? DEFAULT_SEPARATOR;
+    this.prefix = format.prefix ? `${format.prefix.trim().toUpperCase()}${separator}` : '';
+    this.alphabet = alphabet;
+    this.length = length;
+  }
+
+  /**
+   * @param count - Number of codes to generate
+   * @param existing - Codes already issued, which are never generated again
+   * @returns count distinct codes, none of them in existing
+   * @throws Error if the format cannot produce that many codes
+   */
+  generate(count: number, existing: Iterable<string> = []): string[] {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error('Invalid voucher code count');
+    }
+    const taken = new Set(existing);
+    const possibleCodes = Math.pow(this.alphabet.length, this.length);
+    if (taken.size + count > possibleCodes * MAX_FILL_RATIO) {
+      throw new Error(
+        `Cannot generate ${count} more codes with ${this.length} characters from an alphabet of ${this.alphabet.length}`
+      );
+    }
+
+    const codes: string[] = [];
+    while (codes.length < count) {
+      let body = '';
+      for (let i = 0; i < this.length; i++) {
+        body += this.alphabet[randomInt(this.alphabet.length)];
+      }
+      const code = `${this.prefix}${body}${this.checkCharacter(body)}`;
+      if (!taken.has(code)) {
+        taken.add(code);
+        codes.push(code);
+      }
+    }
+    return codes;
+  }
+
+  /**
+   * Whether a code starts with the prefix of this format, i.e. was meant to be one of its codes
+   * @param code - The code as entered by the customer; case and surrounding whitespace are ignored
+   */
+  hasPrefix(code: string): boolean {
+    return typeof code === 'string' && code.trim().toUpperCase().startsWith(this.prefix);
+  }
+
+  /**
+   * Checks the prefix, length, characters and check character of a code, without looking it up
+   * @param code - The code as entered by the customer; case and surrounding whitespace are ignored
+   */
+  isWellFormed(code: string): boolean {
+    if (!code || typeof code !== 'string') {
+      return false;
+    }
+    const normalized = code.trim().toUpperCase();
+    if (!normalized.startsWith(this.prefix) || normalized.length !== this.prefix.length + this.length + 1) {
+      return false;
+    }
+    const payload = normalized.slice(this.prefix.length);
+    if (payload.split('').some(character => !this.alphabet.includes(character))) {
+      return false;
+    }
+    return this.checkCharacter(payload.slice(0, -1)) === payload[payload.length - 1];
+  }
+
+  private checkCharacter(body: string): string {
+    const base = this.alphabet.length;
+    let factor = 2;
+    let sum = 0;
+    for (let i = body.length - 1; i >= 0; i--) {
+      const addend = factor * this.alphabet.indexOf(body[i]);
+      sum += Math.floor(addend / base) + (addend % base);
+      factor = factor === 2 ? 1 : 2;
+    }
+    return this.alphabet[(base - (sum % base)) % base];
+  }
+}
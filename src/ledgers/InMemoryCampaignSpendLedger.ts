@@ -0,0 +1,66 @@
+import { CampaignBudget, CampaignSpend, CampaignSpendLedger, CampaignSpendTotals } from '../models/interface';
+import { formatAmount } from '../money/Currency';
+import { Money } from '../money/Money';
+
+/**
+ * Campaign spend kept in process memory.
+ * Each method does its check and update without awaiting in between, so calls cannot interleave.
+ */
+export class InMemoryCampaignSpendLedger implements CampaignSpendLedger {
+  private spends: CampaignSpend[] = [];
+
+  async spend(spend: CampaignSpend, budget: CampaignBudget): Promise<boolean> {
+    const alreadyRecorded = this.spends.some(
+      existing => existing.campaignId === spend.campaignId && existing.orderId === spend.orderId
+    );
+    if (alreadyRecorded) {
+      return false;
+    }
+
+    const { currency } = spend.amount;
+    const totals = this.sum(spend.campaignId, spend.spentAt, currency);
+    if (totals.total.plus(spend.amount).amount.greaterThan(budget.total)) {
+      throw new Error(`${spend.campaignId} would exceed its budget of ${formatAmount(budget.total, currency)}`);
+    }
+    if (budget.daily !== undefined && totals.today.plus(spend.amount).amount.greaterThan(budget.daily)) {
+      throw new Error(`${spend.campaignId} would exceed its daily budget of ${formatAmount(budget.daily, currency)}`);
+    }
+
+    this.spends.push({ ...spend });
+    return true;
+  }
+
+  async release(orderId: string, campaignId?: string): Promise<CampaignSpend[]> {
+    const released = this.spends.filter(
+      spend => spend.orderId === orderId && (campaignId === undefined || spend.campaignId === campaignId)
+    );
+    this.spends = this.spends.filter(spend => !released.includes(spend));
+    return released;
+  }
+
+  async getSpend(campaignId: string, at: Date, excludeOrderId?: string): Promise<CampaignSpendTotals> {
+    const { total, today } = this.sum(campaignId, at, undefined, excludeOrderId);
+    return { total: total.amount, today: today.amount };
+  }
+
+  /**
+   * @param currency - Of the totals when nothing was spent; INR if omitted
+   * @throws Error if the campaign's spend is in more than one currency
+   */
+  private sum(
+    campaignId: string,
+    at: Date,
+    currency?: string,
+    excludeOrderId?: string
+  ): { total: Money; today: Money } {
+    const matching = this.spends.filter(
+      spend =>
+        spend.campaignId === campaignId && (excludeOrderId === undefined || spend.orderId !== excludeOrderId)
+    );
+    const sameDay = matching.filter(spend => spend.spentAt.toISOString().slice(0, 10) === at.toISOString().slice(0, 10));
+    return {
+      total: Money.sum(matching.map(spend => spend.amount), currency),
+      today: Money.sum(sameDay.map(spend => spend.amount), currency)
+    };
+  }
+}
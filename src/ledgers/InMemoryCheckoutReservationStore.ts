@@ -0,0 +1,44 @@
+import { CheckoutReservation, CheckoutReservationStore, ReservationStatus } from '../models/interface';
+
+/**
+ * Checkout reservations kept in process memory.
+ * Each method does its check and update without awaiting in between, so calls cannot interleave.
+ */
+export class InMemoryCheckoutReservationStore implements CheckoutReservationStore {
+  private readonly reservations = new Map<string, CheckoutReservation>();
+
+  async create(reservation: CheckoutReservation): Promise<CheckoutReservation> {
+    const existing = this.reservations.get(reservation.orderId);
+    if (existing) {
+      return { ...existing };
+    }
+    this.reservations.set(reservation.orderId, { ...reservation });
+    return { ...reservation };
+  }
+
+  async get(orderId: string): Promise<CheckoutReservation | undefined> {
+    const reservation = this.reservations.get(orderId);
+    return reservation && { ...reservation };
+  }
+
+  async transition(
+    orderId: string,
+    from: ReservationStatus,
+    to: ReservationStatus,
+    at: Date
+  ): Promise<CheckoutReservation | undefined> {
+    const reservation = this.reservations.get(orderId);
+    if (!reservation || reservation.status !== from) {
+      return undefined;
+    }
+    const updated = { ...reservation, status: to, updatedAt: at };
+    this.reservations.set(orderId, updated);
+    return { ...updated };
+  }
+
+  async findExpired(at: Date): Promise<CheckoutReservation[]> {
+    return Array.from(this.reservations.values())
+      .filter(reservation => reservation.status === 'RESERVED' && reservation.holdUntil.getTime() < at.getTime())
+      .map(reservation => ({ ...reservation }));
+  }
+}
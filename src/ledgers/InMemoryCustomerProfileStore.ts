@@ -0,0 +1,21 @@
+import { CustomerProfile, CustomerProfileStore } from '../models/interface';
+
+/**
+ * Customer profiles kept in process memory, by id
+ */
+export class InMemoryCustomerProfileStore implements CustomerProfileStore {
+  private readonly profiles = new Map<string, CustomerProfile>();
+
+  constructor(profiles: CustomerProfile[] = []) {
+    profiles.forEach(profile => this.save(profile));
+  }
+
+  save(profile: CustomerProfile): void {
+    this.profiles.set(profile.id, { ...profile });
+  }
+
+  async get(customerId: string): Promise<CustomerProfile | undefined> {
+    const profile = this.profiles.get(customerId);
+    return profile && { ...profile };
+  }
+}
@@ -0,0 +1,76 @@
+import { MonthlyPaymentUsage, PaymentOfferUsage, PaymentUsageLimits, PaymentUsageStore } from '../models/interface';
+import { formatAmount } from '../money/Currency';
+import { Money } from '../money/Money';
+
+/**
+ * Payment offer usage kept in process memory.
+ * Each method does its check and update without awaiting in between, so calls cannot interleave.
+ */
+export class InMemoryPaymentUsageStore implements PaymentUsageStore {
+  private usages: PaymentOfferUsage[] = [];
+
+  async record(usage: PaymentOfferUsage, limits: PaymentUsageLimits): Promise<boolean> {
+    const alreadyRecorded = this.usages.some(
+      existing => existing.offer === usage.offer && existing.orderId === usage.orderId
+    );
+    if (alreadyRecorded) {
+      return false;
+    }
+
+    const { currency } = usage.amount;
+    const monthly = this.sum(usage.offer, usage.instrumentId, usage.usedAt, currency);
+    const total = monthly.amount.plus(usage.amount);
+    if (limits.maxUsesPerMonth !== undefined && monthly.count >= limits.maxUsesPerMonth) {
+      throw new Error(`${usage.offer} has reached its limit of ${limits.maxUsesPerMonth} uses this month`);
+    }
+    if (limits.maxDiscountPerMonth !== undefined && total.amount.greaterThan(limits.maxDiscountPerMonth)) {
+      throw new Error(`${usage.offer} would exceed its monthly limit of ${formatAmount(limits.maxDiscountPerMonth, currency)}`);
+    }
+
+    this.usages.push({ ...usage });
+    return true;
+  }
+
+  async release(orderId: string, offer?: string): Promise<PaymentOfferUsage[]> {
+    const released = this.usages.filter(
+      usage => usage.orderId === orderId && (offer === undefined || usage.offer === offer)
+    );
+    this.usages = this.usages.filter(usage => !released.includes(usage));
+    return released;
+  }
+
+  async getMonthlyUsage(
+    offer: string,
+    instrumentId: string,
+    at: Date,
+    excludeOrderId?: string
+  ): Promise<MonthlyPaymentUsage> {
+    const { count, amount } = this.sum(offer, instrumentId, at, undefined, excludeOrderId);
+    return { count, amount: amount.amount };
+  }
+
+  /**
+   * @param currency - Of the amount when nothing was used; INR if omitted
+   * @throws Error if the usage is in more than one currency
+   */
+  private sum(
+    offer: string,
+    instrumentId: string,
+    at: Date,
+    currency?: string,
+    excludeOrderId?: string
+  ): { count: number; amount: Money } {
+    const matching = this.usages.filter(
+      usage =>
+        usage.offer === offer &&
+        usage.instrumentId === instrumentId &&
+        usage.usedAt.getUTCFullYear() === at.getUTCFullYear() &&
+        usage.usedAt.getUTCMonth() === at.getUTCMonth() &&
+        (excludeOrderId === undefined || usage.orderId !== excludeOrderId)
+    );
+    return {
+      count: matching.length,
+      amount: Money.sum(matching.map(usage => usage.amount), currency)
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { RedemptionLedger, VoucherRedemption, VoucherUsageLimits } from '../models/interface';
+
+/**
+ * Redemption ledger kept in process memory.
+ * Each method does its check and update without awaiting in between, so calls cannot interleave.
+ */
+export class InMemoryRedemptionLedger implements RedemptionLedger {
+  private redemptions: VoucherRedemption[] = [];
+
+  async redeem(redemption: VoucherRedemption, limits: VoucherUsageLimits): Promise<boolean> {
+    const alreadyRedeemed = this.redemptions.some(
+      existing => existing.code === redemption.code && existing.orderId === redemption.orderId
+    );
+    if (alreadyRedeemed) {
+      return false;
+    }
+
+    if (limits.usageLimit !== undefined && this.count(redemption.code) >= limits.usageLimit) {
+      throw new Error(`Voucher ${redemption.code} has reached its usage limit of ${limits.usageLimit}`);
+    }
+    if (
+      limits.perCustomerLimit !== undefined &&
+      this.count(redemption.code, redemption.customerId) >= limits.perCustomerLimit
+    ) {
+      throw new Error(
+        `Voucher ${redemption.code} has reached its limit of ${limits.perCustomerLimit} per customer for ${redemption.customerId}`
+      );
+    }
+
+    this.redemptions.push({ ...redemption });
+    return true;
+  }
+
+  async release(orderId: string, code?: string): Promise<VoucherRedemption[]> {
+    const released = this.redemptions.filter(
+      redemption => redemption.orderId === orderId && (code === undefined || redemption.code === code)
+    );
+    this.redemptions = this.redemptions.filter(redemption => !released.includes(redemption));
+    return released;
+  }
+
+  async countRedemptions(code: string, customerId?: string, excludeOrderId?: string): Promise<number> {
+    return this.count(code, customerId, excludeOrderId);
+  }
+
+  private count(code: string, customerId?: string, excludeOrderId?: string): number {
+    return this.redemptions.filter(
+      redemption =>
+        redemption.code === code &&
+        (customerId === undefined || redemption.customerId === customerId) &&
+        (excludeOrderId === undefined || redemption.orderId !== excludeOrderId)
+    ).length;
+  }
+}
@@ -0,0 +1,10 @@
+import { Logger } from '../models/interface';
+
+/**
+ * Logger writing to console.debug, used when no logger is injected
+ */
+export class ConsoleLogger implements Logger {
+  debug(message: string): void {
+    console.debug(message);
+  }
+}
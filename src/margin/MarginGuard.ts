@@ -0,0 +1,222 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartItem,
+  DiscountTrim,
+  LineItemBreakdown,
+  Logger,
+  MarginGuardConfig,
+  PriceFloorReason,
+  PriceFloorRule,
+  Product,
+  StrategyEntry,
+  StrategyTrace
+} from '../models/interface';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { roundToMinorUnit } from '../money/Currency';
+import { Money } from '../money/Money';
+
+const PERCENTAGE_DIVISOR = new Decimal(100);
+
+/**
+ * The parts of the DiscountApplier's result the guard reads and corrects
+ */
+interface GuardedResult {
+  finalPrice: Decimal;
+  appliedDiscounts: Map<string, Decimal>;
+  lineItems: LineItemBreakdown[];
+  messages: string[];
+  trace: StrategyTrace[];
+}
+
+interface PriceFloor {
+  linePrice: Decimal;
+  reason: PriceFloorReason;
+}
+
+/**
+ * Keeps discounted lines at or above their price floor. Runs after the DiscountApplier: a line that
+ * ended below its floor gets part of its discounts back, taken from one discount at a time in trim
+ * order, and the result, trace and cart are corrected in place. A line is never raised above the
+ * price it had before the discounts, so a product already listed below its floor is only kept there.
+ * Cashback is not part of the line prices, so it is neither counted towards a floor nor trimmed.
+ */
+export class MarginGuard {
+  private readonly rules: PriceFloorRule[];
+  private readonly trimOrder: string[];
+
+  /**
+   * @throws Error if a rule sets no floor, or a margin, price or percentage is invalid
+   */
+  constructor(config: MarginGuardConfig, private readonly logger: Logger = new ConsoleLogger()) {
+    if (!Array.isArray(config.rules)) {
+      throw new Error('Invalid price floor rules');
+    }
+    if (config.trimOrder !== undefined && !Array.isArray(config.trimOrder)) {
+      throw new Error('Invalid trim order');
+    }
+    this.rules = config.rules.map(rule => {
+      if (
+        rule.minMarginPercentage === undefined &&
+        rule.minPrice === undefined &&
+        rule.maxDiscountPercentage === undefined
+      ) {
+        throw new Error('A price floor rule needs a minimum margin, a minimum price or a maximum discount percentage');
+      }
+      if (
+        rule.minMarginPercentage !== undefined &&
+        (new Decimal(rule.minMarginPercentage).lessThan(0) || new Decimal(rule.minMarginPercentage).greaterThanOrEqualTo(100))
+      ) {
+        throw new Error('Invalid minimum margin percentage');
+      }
+      if (rule.minPrice !== undefined && new Decimal(rule.minPrice).lessThan(0)) {
+        throw new Error('Invalid minimum price');
+      }
+      if (
+        rule.maxDiscountPercentage !== undefined &&
+        (new Decimal(rule.maxDiscountPercentage).lessThan(0) || new Decimal(rule.maxDiscountPercentage).greaterThan(100))
+      ) {
+        throw new Error('Invalid maximum discount percentage');
+      }
+      return {
+        ...rule,
+        ...(rule.minMarginPercentage !== undefined && { minMarginPercentage: new Decimal(rule.minMarginPercentage) }),
+        ...(rule.minPrice !== undefined && { minPrice: new Decimal(rule.minPrice) }),
+        ...(rule.maxDiscountPercentage !== undefined && { maxDiscountPercentage: new Decimal(rule.maxDiscountPercentage) })
+      };
+    });
+    this.trimOrder = config.trimOrder ?? [];
+  }
+
+  /**
+   * @param result - The applier's result; its totals, line items, messages and trace are corrected in place
+   * @param pricedItems - The cart as priced, in the same order as the line items; currentPrice is corrected too
+   * @param entries - The strategies the cart was priced with, to resolve the ids of the trim order
+   * @param currency - Currency of the cart and its line items, for rounding the floors
+   * @returns What was taken back from each discount on each line, in the order it was trimmed
+   */
+  protect(result: GuardedResult, pricedItems: CartItem[], entries: StrategyEntry[], currency: string): DiscountTrim[] {
+    const order = this.orderDiscounts(Array.from(result.appliedDiscounts.keys()), entries);
+    const trims: DiscountTrim[] = [];
+
+    result.lineItems.forEach((line, index) => {
+      const floor = this.floorFor(pricedItems[index].product, line, currency);
+      if (!floor) {
+        return;
+      }
+      let shortfall = Decimal.min(floor.linePrice, line.originalLinePrice.amount).minus(line.finalLinePrice.amount);
+      if (shortfall.lessThanOrEqualTo(0)) {
+        return;
+      }
+      for (const name of order) {
+        if (shortfall.lessThanOrEqualTo(0)) {
+          break;
+        }
+        const share = line.discounts[name];
+        if (!share) {
+          continue;
+        }
+        const amount = Decimal.min(share.amount, shortfall);
+        if (amount.equals(share.amount)) {
+          delete line.discounts[name];
+        } else {
+          line.discounts[name] = share.minus(Money.of(amount, currency));
+        }
+        line.finalLinePrice = line.finalLinePrice.plus(Money.of(amount, currency));
+        shortfall = shortfall.minus(amount);
+        trims.push({
+          productId: line.productId,
+          size: line.size,
+          name,
+          amount,
+          reason: floor.reason,
+          floorPrice: floor.linePrice
+        });
+      }
+      line.finalUnitPrice = Money.of(line.finalLinePrice.amount.div(line.quantity), currency);
+      pricedItems[index].product.currentPrice = line.finalUnitPrice.amount;
+    });
+
+    for (const name of order) {
+      const trimmed = Decimal.sum(0, ...trims.filter(trim => trim.name === name).map(trim => trim.amount));
+      if (trimmed.isZero()) {
+        continue;
+      }
+      this.logger.debug(`Trimmed ${trimmed} off ${name} to keep prices above their floor`);
+      const applied = result.appliedDiscounts.get(name)!;
+      const remaining = applied.minus(trimmed);
+      result.finalPrice = result.finalPrice.plus(trimmed);
+
+      const record = result.trace.find(entry => entry.name === name && entry.status === 'APPLIED');
+      if (remaining.isZero()) {
+        result.appliedDiscounts.delete(name);
+        result.messages = result.messages.filter(message => !message.startsWith(`Applied ${name}`));
+        if (record) {
+          record.status = 'NO_DISCOUNT';
+          record.appliedAmount = remaining;
+          record.reason = 'Trimmed to nothing to keep prices above their floor';
+        }
+        continue;
+      }
+      result.appliedDiscounts.set(name, remaining);
+      result.messages.push(`Trimmed ${name} to keep prices above their floor`);
+      if (record) {
+        record.cap = { reason: 'PRICE_FLOOR', uncappedAmount: record.cap?.uncappedAmount ?? applied, limit: remaining };
+        record.appliedAmount = remaining;
+      }
+    }
+    return trims;
+  }
+
+  /**
+   * Discounts of the trim order first, in that order, then the others from the last applied to the first
+   */
+  private orderDiscounts(applied: string[], entries: StrategyEntry[]): string[] {
+    const first = this.trimOrder
+      .map(id => entries.find(entry => entry.id === id)?.strategy.getDiscountName())
+      .filter((name): name is string => name !== undefined && applied.includes(name));
+    return [...first, ...[...applied].reverse().filter(name => !first.includes(name))];
+  }
+
+  /**
+   * The highest floor of the rules matching the product, for the whole line
+   */
+  private floorFor(product: Product, line: LineItemBreakdown, currency: string): PriceFloor | undefined {
+    let floor: PriceFloor | undefined;
+    const raise = (unitPrice: Decimal, reason: PriceFloorReason) => {
+      // Rounded up, so that a line at its floor never sells below it
+      const linePrice = roundToMinorUnit(unitPrice.times(line.quantity), currency, Decimal.ROUND_UP);
+      if (!floor || linePrice.greaterThan(floor.linePrice)) {
+        floor = { linePrice, reason };
+      }
+    };
+
+    for (const rule of this.rules.filter(rule => this.matches(rule, product))) {
+      if (rule.minMarginPercentage !== undefined) {
+        if (product.cost !== undefined) {
+          // The margin is a share of the selling price: price - cost ≥ price × margin / 100
+          const costShare = PERCENTAGE_DIVISOR.minus(rule.minMarginPercentage).div(PERCENTAGE_DIVISOR);
+          raise(new Decimal(product.cost).div(costShare), 'MIN_MARGIN');
+        } else {
+          this.logger.debug(`Product ${product.id} has no cost, its minimum margin is not checked`);
+        }
+      }
+      if (rule.minPrice !== undefined) {
+        raise(rule.minPrice, 'MIN_PRICE');
+      }
+      if (rule.maxDiscountPercentage !== undefined) {
+        const share = PERCENTAGE_DIVISOR.minus(rule.maxDiscountPercentage).div(PERCENTAGE_DIVISOR);
+        // Off the MRP, so a product already marked down has less of the maximum left for the cart discounts
+        raise(new Decimal(product.basePrice).times(share), 'MAX_DISCOUNT_PERCENTAGE');
+      }
+    }
+    return floor;
+  }
+
+  private matches(rule: PriceFloorRule, product: Product): boolean {
+    return (
+      (!rule.brands || rule.brands.includes(product.brand)) &&
+      (!rule.categories || rule.categories.includes(product.category)) &&
+      (!rule.productIds || rule.productIds.includes(product.id))
+    );
+  }
+}
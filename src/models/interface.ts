@@ -1,4 +1,5 @@
 import { Decimal } from 'decimal.js';
+import { Money } from '../money/Money';
 
 export enum BrandTier {
   PREMIUM = "premium",
@@ -12,7 +13,9 @@ export interface Product {
   brandTier: BrandTier;
   category: string;
   basePrice: Decimal;
-  currentPrice: Decimal; // After brand/category discount
+  currentPrice: Decimal; // Selling price the cart discounts start from; listing prices are computed from basePrice by priceListings
+  currency?: string; // ISO 4217 code of both prices, defaults to INR; a cart must be in a single currency
+  cost?: Decimal; // unit cost to the seller, for minimum margin floors
 }
 
 export interface CartItem {
@@ -22,18 +25,641 @@ export interface CartItem {
 }
 
 export interface PaymentInfo {
-  method: string; // CARD, UPI, etc
+  method: string; // CARD, UPI, WALLET, etc
   bankName?: string;
   cardType?: string; // CREDIT, DEBIT
+  cardNetwork?: string; // VISA, MASTERCARD, RUPAY, etc
+  cardBin?: string; // leading digits of the card number
+  provider?: string; // UPI app or wallet, e.g. PHONEPE, PAYTM
+  instrumentId?: string; // stable token for the card, UPI id or wallet, used for per-instrument limits
+}
+
+/**
+ * Per-line view of how the cart-level discounts were spread across a cart item.
+ * Line amounts always add up exactly to the cart totals in DiscountedPrice, and are in the cart's currency.
+ */
+export interface LineItemBreakdown {
+  productId: string;
+  size: string;
+  quantity: number;
+  originalUnitPrice: Money;
+  originalLinePrice: Money;
+  discounts: Record<string, Money>; // discount_name -> amount allocated to this line
+  finalUnitPrice: Money;
+  finalLinePrice: Money;
+}
+
+/**
+ * - MALFORMED: not a known code, and it has the prefix of a campaign's code format but fails its check
+ *   character, so it was most likely mistyped
+ * - INELIGIBLE: the cart, customer or payment does not meet the voucher's conditions
+ * - NOT_APPLIED: the voucher is valid for the cart but was left out, e.g. by the stacking rules
+ */
+export type VoucherCodeStatus =
+  | 'APPLIED'
+  | 'UNKNOWN'
+  | 'MALFORMED'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'LIMIT_REACHED'
+  | 'INELIGIBLE'
+  | 'NOT_APPLIED';
+
+/**
+ * Outcome for a single voucher code entered by the customer
+ */
+export interface VoucherCodeResult {
+  code: string; // normalized (trimmed, upper-case) code
+  strategyId?: string; // StrategyEntry.id of the voucher campaign the code belongs to; unset for UNKNOWN and MALFORMED
+  status: VoucherCodeStatus;
+  reason?: string; // set for every status other than APPLIED
+}
+
+/**
+ * An offer left out by the stacking rules, with the reason
+ */
+export interface SkippedDiscount {
+  name: string;
+  reason: string;
+}
+
+/**
+ * Condition of an offer that the cart, customer or payment did not meet
+ */
+export type ValidationRule =
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'CUSTOMER_TIER'
+  | 'MINIMUM_AMOUNT'
+  | 'BRAND_TIER'
+  | 'PAYMENT_METHOD'
+  | 'BANK_MISMATCH'
+  | 'EXCLUDED_CATEGORY'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'CARD_TYPE'
+  | 'CARD_NETWORK'
+  | 'CARD_BIN'
+  | 'PAYMENT_PROVIDER'
+  | 'USAGE_LIMIT' // monthly limit of a payment offer reached
+  | 'BUDGET_EXHAUSTED' // campaign budget, or today's share of it, already spent
+  | 'CURRENCY' // the offer is in another currency than the cart
+  | 'VALIDATOR'; // rejected by a custom validator
+
+/**
+ * A failed condition. For the conditions a customer can act on, strategies also say what would meet
+ * them and what the offer would then be worth; these drive the nudges in DiscountedPrice.
+ */
+export interface ValidationFailure {
+  rule: ValidationRule;
+  message: string;
+  shortfall?: Decimal; // MINIMUM_AMOUNT: amount still to add, on the price the offer is calculated on
+  requiredBrands?: string[]; // NO_ELIGIBLE_ITEMS: brands to add
+  requiredCategories?: string[]; // NO_ELIGIBLE_ITEMS: categories to add
+  requiredPayment?: PaymentInfo; // payment rules: a payment that meets them
+  potentialSaving?: Decimal; // the discount once the condition is met, when it can be known up front
+}
+
+/**
+ * What a customer can do to unlock an offer:
+ * - SPEND_MORE: add at least `shortfall` to the cart
+ * - ADD_ITEMS: add items of the required brands or categories
+ * - CHANGE_PAYMENT: pay with `requiredPayment`
+ */
+export type NudgeKind = 'SPEND_MORE' | 'ADD_ITEMS' | 'CHANGE_PAYMENT';
+
+/**
+ * An offer the cart nearly qualifies for, built from the strategy's validation failure
+ */
+export interface OfferNudge {
+  name: string;
+  kind: NudgeKind;
+  shortfall?: Decimal;
+  requiredBrands?: string[];
+  requiredCategories?: string[];
+  requiredPayment?: PaymentInfo;
+  potentialSaving?: Decimal;
+  message: string; // e.g. "Add ₹350 more to save ₹690 with Voucher Discount - SUPER69 (69%)"
+}
+
+/**
+ * Why a discount came out lower than its configured value:
+ * - MAX_DISCOUNT_CAP: limited by the offer's maxDiscountCap
+ * - CAMPAIGN_BUDGET: limited to what is left of the campaign's total or daily budget
+ * - ELIGIBLE_SUBTOTAL: limited to what is left to pay on the eligible lines
+ * - PRICE_FLOOR: trimmed to keep a line above its price floor (see MarginGuardConfig)
+ */
+export interface DiscountCap {
+  reason: 'MAX_DISCOUNT_CAP' | 'CAMPAIGN_BUDGET' | 'ELIGIBLE_SUBTOTAL' | 'PRICE_FLOOR';
+  uncappedAmount: Decimal;
+  limit: Decimal;
+}
+
+/**
+ * - APPLIED: the discount was applied
+ * - NOT_ELIGIBLE: validation failed, see failure
+ * - NO_DISCOUNT: validation passed but the calculated amount was zero, or a price floor trimmed it to nothing
+ * - NOT_SELECTED: left out by the stacking rules
+ * - NOT_EVALUATED: the cart total had already reached zero
+ * - ERROR: the strategy threw, see reason
+ */
+export type StrategyTraceStatus = 'APPLIED' | 'NOT_ELIGIBLE' | 'NO_DISCOUNT' | 'NOT_SELECTED' | 'NOT_EVALUATED' | 'ERROR';
+
+/**
+ * What happened to a single strategy during a calculation, returned in explain mode
+ */
+export interface StrategyTrace {
+  id: string;
+  name: string;
+  order: number; // 1-based position in the priority order
+  priority: number;
+  calculationMode: CalculationMode;
+  status: StrategyTraceStatus;
+  validationPassed?: boolean; // unset when the strategy was not validated
+  failure?: ValidationFailure;
+  eligibleSubtotal?: Decimal; // eligible lines at the price the discount was calculated on
+  calculatedAmount?: Decimal; // amount returned by the strategy
+  appliedAmount?: Decimal;
+  cap?: DiscountCap;
+  reason?: string; // why it was not selected, or the error message
+  benefitType?: BenefitType; // set for cashback offers
 }
 
 export interface DiscountedPrice {
-  originalPrice: number;
-  finalPrice: number;
-  appliedDiscounts: Record<string, Decimal>; // discount_name -> amount
+  currency: string;
+  originalPrice: Money; // in the currency above, like every Money of the result
+  finalPrice: Money;
+  appliedDiscounts: Record<string, Money>; // discount_name -> amount
+  lineItems: LineItemBreakdown[]; // same order as the cart items
+  voucherResults: VoucherCodeResult[]; // one entry per distinct code entered
+  skippedDiscounts: SkippedDiscount[]; // offers excluded by stacking groups or exclusivity rules
+  trace?: StrategyTrace[]; // one entry per strategy in priority order, set in explain mode
+  cashback: CashbackBenefit[]; // credited later; not included in appliedDiscounts, lineItems or finalPrice
+  nudges: OfferNudge[]; // offers the cart nearly qualifies for, smallest shortfall first
+  tax?: TaxBreakdown; // GST on the discounted lines, set when the service has a GST configuration and the cart is in INR
+  fees?: FeeBreakdown; // set when fees were passed in CalculationOptions.fees; not included in finalPrice
+  trimmedDiscounts?: DiscountTrim[]; // set when the service has price floors; empty if no discount was trimmed
   message: string;
 }
 
+/**
+ * Lowest price products matching the rule may be sold at after discounts. Every floor set applies
+ * and the highest one wins, also across rules; a rule with an empty matcher applies to every product.
+ */
+export interface PriceFloorRule extends ProductMatcher {
+  minMarginPercentage?: Decimal; // share of the unit price above cost, below 100: price at least cost / (1 - margin / 100); products without a cost are not checked
+  minPrice?: Decimal; // unit price at least this amount
+  maxDiscountPercentage?: Decimal; // markdown and stacked discounts together take at most this share of the MRP (basePrice)
+}
+
+/**
+ * Price floors checked after the discounts are applied. When a line is below its floor, its
+ * discounts are trimmed one at a time in trim order until it is back at the floor.
+ * Only the instant discounts of the lines count towards a floor: cashback (including bank and payment
+ * offers paid out as cashback) and fee waivers are not counted and never trimmed.
+ */
+export interface MarginGuardConfig {
+  rules: PriceFloorRule[];
+  trimOrder?: string[]; // strategy ids trimmed first, in this order; the others follow, last applied first
+}
+
+/**
+ * - MIN_MARGIN: the price keeping minMarginPercentage of it above the product's cost
+ * - MIN_PRICE: minPrice
+ * - MAX_DISCOUNT_PERCENTAGE: maxDiscountPercentage off the product's MRP
+ */
+export type PriceFloorReason = 'MIN_MARGIN' | 'MIN_PRICE' | 'MAX_DISCOUNT_PERCENTAGE';
+
+/**
+ * Part of a discount taken back on one line to keep it at its price floor
+ */
+export interface DiscountTrim {
+  productId: string;
+  size: string;
+  name: string; // the discount trimmed
+  amount: Decimal; // taken off the discount's share of the line
+  reason: PriceFloorReason;
+  floorPrice: Decimal; // lowest allowed line price, rounded up to the minor unit
+}
+
+/**
+ * Charges of an order besides its products:
+ * - SHIPPING: delivery charge
+ * - COD: cash on delivery handling fee
+ * - CONVENIENCE: platform or payment convenience fee
+ */
+export type FeeType = 'SHIPPING' | 'COD' | 'CONVENIENCE';
+
+/**
+ * A fee charged on a cart, in the currency of the cart
+ */
+export interface CartFee {
+  type: FeeType;
+  amount: Decimal;
+}
+
+/**
+ * A fee of the cart and the waivers granted on it
+ */
+export interface FeeCharge {
+  type: FeeType;
+  amount: Decimal; // as passed
+  waivers: Record<string, Decimal>; // waiver name -> amount taken off this fee
+  payableAmount: Decimal; // amount - waivers
+}
+
+/**
+ * Fees of a cart after fee waivers. Waivers are reported here only, never in appliedDiscounts.
+ */
+export interface FeeBreakdown {
+  charges: FeeCharge[]; // same order as CalculationOptions.fees
+  waivers: Record<string, Decimal>; // waiver name -> amount taken off the fees in total
+  totalFees: Decimal; // before waivers
+  payableFees: Decimal; // after waivers
+}
+
+/**
+ * One GST rate band by value per unit, e.g. apparel up to ₹1000 at 5%.
+ * The value is the taxable value (excluding GST) of one unit after discounts.
+ */
+export interface GstSlab {
+  upTo?: Decimal; // highest taxable unit value of the slab, inclusive; set on every slab but the last
+  rate: Decimal; // percentage, e.g. 12
+}
+
+/**
+ * GST rates of a product category, slabs in ascending order of upTo
+ */
+export interface GstCategoryRule {
+  category: string;
+  slabs: GstSlab[];
+}
+
+export interface GstConfig {
+  sellerState: string; // state or union territory code of the seller, e.g. 'KA'
+  pricesIncludeTax: boolean; // true for tax-inclusive MRP, false when GST is added on top of the price
+  rules: GstCategoryRule[];
+  defaultRate?: Decimal; // for categories without a rule; calculations fail for them if omitted
+}
+
+/**
+ * - INTRA_STATE: buyer in the seller's state; GST is split equally into CGST and SGST
+ * - INTER_STATE: buyer in another state; GST is charged as IGST
+ */
+export type GstSupplyType = 'INTRA_STATE' | 'INTER_STATE';
+
+/**
+ * GST of one cart line, on its price after discounts
+ */
+export interface LineTax {
+  productId: string;
+  size: string;
+  quantity: number;
+  rate: Decimal; // slab of the discounted unit value
+  listRate: Decimal; // slab of the unit value before discounts; differs when a discount moved the line to another slab
+  taxableValue: Decimal;
+  cgst: Decimal;
+  sgst: Decimal;
+  igst: Decimal;
+  totalTax: Decimal;
+  grossValue: Decimal; // taxableValue + totalTax
+}
+
+/**
+ * GST of a cart. Amounts are rounded to the paisa per line and add up across lines.
+ */
+export interface TaxBreakdown {
+  supplyType: GstSupplyType;
+  pricesIncludeTax: boolean;
+  lines: LineTax[]; // same order as the cart items
+  taxableValue: Decimal;
+  cgst: Decimal;
+  sgst: Decimal;
+  igst: Decimal;
+  totalTax: Decimal;
+  invoiceTotal: Decimal; // the final price, plus GST when prices exclude it
+}
+
+/**
+ * How the value of an offer reaches the customer:
+ * - INSTANT: taken off the price paid now
+ * - CASHBACK: credited after delivery; finalPrice is not lowered
+ */
+export type BenefitType = 'INSTANT' | 'CASHBACK';
+
+export interface BenefitTerms {
+  type: BenefitType;
+  creditAfterDays?: number; // set for CASHBACK
+  fundedBy: string; // party paying for the offer, e.g. the bank
+}
+
+/**
+ * Cashback earned on a cart, reported next to the instant discounts
+ */
+export interface CashbackBenefit {
+  name: string;
+  amount: Decimal;
+  expectedCreditDate: Date; // delivery date (or pricing time) + creditAfterDays
+  fundedBy: string;
+}
+
+/**
+ * An order as priced by DiscountService, kept so that returns can be re-priced
+ */
+export interface PricedOrder {
+  orderId: string;
+  cartItems: CartItem[]; // as passed to calculateCartDiscounts
+  customer: CustomerProfile;
+  paymentInfo?: PaymentInfo;
+  voucherCodes?: string[];
+  pricedAt?: Date; // when the order was priced; validity windows are checked at this time
+  rounding?: RoundingPolicy; // as passed to calculateCartDiscounts, if it was
+  placeOfSupply?: string; // as passed to calculateCartDiscounts, if it was
+  pricing: DiscountedPrice; // its fees are charged again when the kept items are re-priced
+}
+
+export type QuoteOptions = Pick<
+  CalculationOptions,
+  'voucherCodes' | 'deliveryDate' | 'rounding' | 'placeOfSupply' | 'fees' | 'correlationId'
+>;
+
+/**
+ * A price promised to the customer at cart time. `token` carries the customer id, a hash of the cart and
+ * payment, the pricing and the campaign versions, signed by the CheckoutService. It holds no personal data:
+ * the same cart and payment are passed again to reserve, and the customer profile is loaded by id.
+ */
+export interface PriceQuote {
+  quoteId: string;
+  token: string;
+  pricing: DiscountedPrice;
+  campaignVersions: Record<string, number>; // strategy id -> version, for the offers applied
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * - RESERVED: voucher redemptions, payment offer usage and campaign budget are held for the order
+ * - COMMITTED: the order was paid; the holds are kept for good
+ * - RELEASED: the holds were given back, by release or because the reservation expired
+ */
+export type ReservationStatus = 'RESERVED' | 'COMMITTED' | 'RELEASED';
+
+export interface CheckoutReservation {
+  orderId: string;
+  quoteId: string;
+  status: ReservationStatus;
+  pricing: DiscountedPrice; // as re-priced when reserving, with its trace; matches the quote
+  correlationId: string; // of the quote, carried by the events published on commit
+  customerId: string;
+  reservedAt: Date;
+  holdUntil: Date; // a RESERVED order not committed by then can be released by releaseExpiredReservations
+  updatedAt: Date;
+}
+
+/**
+ * Storage for checkout reservations, one per order. Implementations must make create and
+ * transition single steps, so concurrent calls for the same order see each other's result.
+ */
+export interface CheckoutReservationStore {
+  /**
+   * Saves a reservation unless the order already has one
+   * @returns The reservation stored for the order: the new one, or the one that was already there
+   */
+  create(reservation: CheckoutReservation): Promise<CheckoutReservation>;
+  get(orderId: string): Promise<CheckoutReservation | undefined>;
+  /**
+   * Moves a reservation to another status if it is in the expected one
+   * @returns The updated reservation, or undefined if there is none or it was not in `from`
+   */
+  transition(orderId: string, from: ReservationStatus, to: ReservationStatus, at: Date): Promise<CheckoutReservation | undefined>;
+  /**
+   * @returns The RESERVED reservations whose holdUntil is before `at`
+   */
+  findExpired(at: Date): Promise<CheckoutReservation[]>;
+}
+
+/**
+ * Settings of a CheckoutService
+ */
+export interface CheckoutOptions {
+  secret: string; // HMAC key for quote tokens; keep it out of source control
+  quoteTtlSeconds?: number; // how long a quote can be reserved, defaults to 900
+  holdSeconds?: number; // how long a reservation holds offers before it can expire, defaults to 1800
+  reservationStore?: CheckoutReservationStore;
+  customers: CustomerProfileStore; // profiles of the customers reserving a quote, which only carries their id
+  clock?: Clock;
+}
+
+/**
+ * Lookup of customer profiles by id, e.g. backed by the user service
+ */
+export interface CustomerProfileStore {
+  get(customerId: string): Promise<CustomerProfile | undefined>;
+}
+
+/**
+ * Units of a cart line sent back by the customer
+ */
+export interface ReturnedItem {
+  productId: string;
+  size: string;
+  quantity: number;
+}
+
+/**
+ * What the customer paid for the returned units of a line, and the discounts they carried
+ */
+export interface ReturnedLine {
+  productId: string;
+  size: string;
+  quantity: number;
+  paidAmount: Decimal; // share of finalLinePrice
+  discounts: Record<string, Decimal>; // discount_name -> share of the line's allocation
+}
+
+/**
+ * What happens to an offer of the order after a return:
+ * - KEPT: the returned units carried none of it and the rest still qualifies in full
+ * - PRORATED: the returned units' share goes back with them, the rest still qualifies
+ * - REDUCED: the remaining items qualify for less than before; the difference is clawed back
+ * - LOST: the remaining items no longer qualify; the whole remaining amount is clawed back
+ */
+export type OfferReturnStatus = 'KEPT' | 'PRORATED' | 'REDUCED' | 'LOST';
+
+export interface OfferAdjustment {
+  name: string;
+  status: OfferReturnStatus;
+  originalAmount: Decimal;
+  returnedShare: Decimal; // allocated to the returned units
+  repricedAmount: Decimal; // granted on the remaining items
+  clawback: Decimal; // originalAmount - returnedShare - repricedAmount; negative when the remaining items earn more of the offer
+  reason?: string; // why the remaining items no longer qualify in full
+}
+
+/**
+ * What happens to a cashback offer of the order after a return. Cashback is not split over the lines,
+ * so the remaining items are re-priced and the difference is no longer owed to the customer.
+ */
+export interface CashbackAdjustment {
+  name: string;
+  status: Exclude<OfferReturnStatus, 'PRORATED'>;
+  originalAmount: Decimal;
+  repricedAmount: Decimal; // earned on the remaining items
+  clawback: Decimal; // originalAmount - repricedAmount; not to be credited, or to be recovered if already credited
+  reason?: string; // why the remaining items no longer earn it
+}
+
+export interface ReturnResult {
+  orderId: string;
+  returnedLines: ReturnedLine[];
+  returnedItemsValue: Decimal; // what the customer paid for the returned units
+  clawback: Decimal; // total across offers
+  refundAmount: Decimal; // original payable total - re-priced payable total (lines, GST added on top and fees), never negative
+  unrecoveredAmount: Decimal; // clawback that exceeds the returned value and cannot be deducted
+  offerAdjustments: OfferAdjustment[]; // one per discount applied to the order
+  cashbackAdjustments: CashbackAdjustment[]; // one per cashback offer of the order
+  cashbackClawback: Decimal; // total across cashback offers; not part of the refund
+  remainingPricing: DiscountedPrice; // the remaining items re-priced with the order's offers
+}
+
+/**
+ * Fields every discount event carries. All events of one calculation share its calculationId;
+ * the correlationId ties them to the caller's request, quote or order.
+ */
+export interface DiscountEventContext {
+  correlationId: string; // CalculationOptions.correlationId, or the calculationId if none was given
+  calculationId: string; // generated per calculateCartDiscounts call, or per publishEvents call on commit
+  orderId?: string; // set when an order is re-priced
+  customerId: string;
+  occurredAt: Date;
+}
+
+/**
+ * A product offer was evaluated; one per strategy in the trace, whether or not it applied
+ */
+export interface StrategyEvaluatedEvent extends DiscountEventContext {
+  evaluation: StrategyTrace;
+}
+
+/**
+ * - INSTANT: taken off the products (appliedDiscounts)
+ * - CASHBACK: credited later (cashback)
+ * - FEE_WAIVER: taken off the fees (fees.waivers)
+ */
+export type AppliedDiscountKind = 'INSTANT' | 'CASHBACK' | 'FEE_WAIVER';
+
+/**
+ * An offer granted on the cart, with the amount in the result after caps, stacking and rounding
+ */
+export interface DiscountAppliedEvent extends DiscountEventContext {
+  strategyId: string;
+  name: string;
+  kind: AppliedDiscountKind;
+  amount: Decimal;
+}
+
+/**
+ * An applied offer that came out lower than its configured value
+ */
+export interface DiscountCappedEvent extends DiscountEventContext {
+  strategyId: string;
+  name: string;
+  cap: DiscountCap;
+  amount: Decimal; // granted amount, after rounding
+}
+
+/**
+ * A product offer that was not applied: not eligible, worth nothing, left out by stacking rules,
+ * not evaluated or failed
+ */
+export interface DiscountRejectedEvent extends DiscountEventContext {
+  strategyId: string;
+  name: string;
+  status: Exclude<StrategyTraceStatus, 'APPLIED'>;
+  reason: string;
+  failure?: ValidationFailure;
+}
+
+export interface CalculationCompletedEvent extends DiscountEventContext {
+  pricing: DiscountedPrice;
+}
+
+/**
+ * Events of the discount lifecycle by name. They are published once a calculation has finished,
+ * so amounts match the DiscountedPrice returned to the caller.
+ */
+export interface DiscountEventMap {
+  'strategy.evaluated': StrategyEvaluatedEvent;
+  'discount.applied': DiscountAppliedEvent;
+  'discount.capped': DiscountCappedEvent;
+  'discount.rejected': DiscountRejectedEvent;
+  'calculation.completed': CalculationCompletedEvent;
+}
+
+export type DiscountEventName = keyof DiscountEventMap;
+
+export type DiscountEventListener<K extends DiscountEventName> = (event: DiscountEventMap[K]) => void;
+
+/**
+ * Typed publish/subscribe for DiscountEventMap; DiscountEventBus is the in-process implementation
+ */
+export interface DiscountEventEmitter {
+  /**
+   * @returns A function that unsubscribes the listener
+   */
+  on<K extends DiscountEventName>(event: K, listener: DiscountEventListener<K>): () => void;
+  off<K extends DiscountEventName>(event: K, listener: DiscountEventListener<K>): void;
+  emit<K extends DiscountEventName>(event: K, payload: DiscountEventMap[K]): void;
+}
+
+/**
+ * Destination for the debug output of the service, the applier and the strategies
+ */
+export interface Logger {
+  debug(message: string): void;
+}
+
+/**
+ * Collaborators for DiscountService; every field has an in-memory default
+ */
+export interface DiscountServiceOptions {
+  redemptionLedger?: RedemptionLedger;
+  paymentUsageStore?: PaymentUsageStore;
+  campaignSpendLedger?: CampaignSpendLedger;
+  clock?: Clock;
+  logger?: Logger; // defaults to console.debug
+  calculationMode?: CalculationMode; // for campaigns that do not set their own, defaults to SEQUENTIAL
+  rounding?: RoundingPolicy; // defaults to PER_DISCOUNT
+  gst?: GstConfig; // adds a TaxBreakdown to the results for INR carts; no tax is calculated if omitted
+  events?: DiscountEventEmitter; // receives the lifecycle events of every calculation; defaults to a DiscountEventBus
+  margin?: MarginGuardConfig; // price floors for cart and listing prices; discounts are not limited if omitted
+}
+
+/**
+ * Per-call options for DiscountService.calculateCartDiscounts
+ */
+export interface CalculationOptions {
+  voucherCodes?: string[]; // codes entered by the customer; vouchers are only applied when entered
+  explain?: boolean; // return a StrategyTrace per strategy in DiscountedPrice.trace
+  discountNames?: string[]; // only consider these discounts, e.g. the ones applied to an order being re-priced
+  orderId?: string; // order being re-priced; its own voucher redemptions, payment offer usage and campaign spend are not counted
+  pricedAt?: Date; // check validity windows at this time instead of now
+  deliveryDate?: Date; // expected delivery; cashback credit dates are counted from it instead of the pricing time
+  maxNudgeShortfall?: Decimal; // leave out SPEND_MORE nudges that need more than this; all are returned if omitted
+  rounding?: RoundingPolicy; // overrides the service-wide rounding policy
+  placeOfSupply?: string; // state code of the delivery address, for GST; the seller's state if omitted
+  fees?: CartFee[]; // shipping, COD and convenience fees, at most one of each type; fee waivers apply to them
+  correlationId?: string; // carried by every event of the calculation, e.g. a request or quote id
+  purpose?: CalculationPurpose; // CART if omitted; only CART calculations publish their events
+}
+
+/**
+ * Why a cart is priced. Events are published once per charge, so only CART calculations publish theirs:
+ * - CART: a standalone calculation, e.g. a cart page or an order priced without CheckoutService
+ * - QUOTE, RESERVE: the checkout steps; CheckoutService publishes the reserved pricing's events on commit
+ * - RETURN: the kept items of a partial return, re-priced by ReturnService
+ */
+export type CalculationPurpose = 'CART' | 'QUOTE' | 'RESERVE' | 'RETURN';
+
 export interface CustomerProfile {
   id: string;
   name: string;
@@ -61,6 +687,140 @@ export interface DiscountStrategy {
   getDiscountName(): string;
   validate(items: CartItem[], customer: CustomerProfile,  paymentInfo?: PaymentInfo): Promise<boolean>;
   getPriority(): number 
+  /**
+   * calculateDiscount for a cart that was just validated, without validating it again. Strategies
+   * that validate in calculateDiscount implement it so that their checks, and a custom validator,
+   * run once per calculation.
+   */
+  calculateValidatedDiscount?(items: CartItem[], customer: CustomerProfile, paymentInfo?: PaymentInfo): Promise<Decimal>;
+  /**
+   * Whether the discount applies to the given line. Used to allocate the calculated
+   * amount across lines; strategies that omit it are spread across the whole cart.
+   */
+  isEligibleItem?(item: CartItem): boolean;
+  /**
+   * Splits the calculated discount across the cart lines (same order as items).
+   * Strategies that reward specific units implement this; the others are allocated proportionally.
+   */
+  allocateDiscount?(items: CartItem[], discount: Decimal): Decimal[];
+  /**
+   * Short description of how the discount was applied, appended to its message
+   */
+  describeApplication?(items: CartItem[]): string;
+  /**
+   * Structured counterpart of validate: the first condition the cart does not meet,
+   * or undefined if validate would pass. Used for explain mode.
+   */
+  explainValidation?(items: CartItem[], customer: CustomerProfile, paymentInfo?: PaymentInfo): Promise<ValidationFailure | undefined>;
+  /**
+   * The value the offer grants on this cart (e.g. the spend tier reached), used to report
+   * capping in explain mode
+   */
+  getDiscountValue?(items: CartItem[]): DiscountValueConfig | undefined;
+  /**
+   * Products the offer can apply to, used to index campaigns for listing pages.
+   * Strategies that omit it are considered for every product.
+   */
+  getProductScope?(): ProductScope;
+  /**
+   * Whether the offer is an instant discount or cashback credited later.
+   * Strategies that omit it are instant.
+   */
+  getBenefit?(): BenefitTerms;
+}
+
+/**
+ * Brands and categories an offer is limited to; an omitted field matches every product
+ */
+export interface ProductScope {
+  brands?: string[];
+  categories?: string[];
+}
+
+/**
+ * Prices shown for a product on listing pages, calculated for one unit
+ */
+export interface ListingPrice {
+  productId: string;
+  mrp: Decimal; // product.basePrice, shown struck through
+  price: Decimal; // after brand and category offers
+  catalogDiscounts: Record<string, Decimal>; // discount_name -> amount, brand and category offers only
+  bestPrice: Decimal; // price with the best voucher or instant payment offer on top
+  bestOffer?: string; // name of that offer; unset when none lowers the price
+  currency: string;
+}
+
+/**
+ * Per-call options for DiscountService.priceListings
+ */
+export interface ListingOptions {
+  customer?: CustomerProfile; // signed-in customer, for tier-restricted offers; anonymous if omitted
+}
+
+/**
+ * Source of the current time, injectable so that validity windows can be tested
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Eligibility settings shared by every discount configuration
+ */
+export interface EligibilityRules {
+  currency?: string; // currency of the offer's amounts, defaults to INR; the offer only applies to carts in it
+  validFrom?: Date;
+  validUntil?: Date;
+  customerTiers?: string[]; // customer tiers allowed to use the discount, any tier if omitted
+  excludedBrands?: string[]; // items of these brands are never discounted
+}
+
+/**
+ * Rules for combining offers. An offer conflicts with another if both are in the same stacking
+ * group, or if either lists the other's id or stacking group in notCombinableWith.
+ */
+export interface StackingRules {
+  stackingGroup?: string; // only the best offer of a group applies
+  notCombinableWith?: string[]; // strategy ids or stacking groups
+}
+
+/**
+ * What a discount is calculated on:
+ * - SEQUENTIAL: the price left after the discounts applied before it
+ * - BASE_PRICE: the MRP (product.basePrice), so "40% + 10% off MRP" is 50% off
+ */
+export type CalculationMode = 'SEQUENTIAL' | 'BASE_PRICE';
+
+/**
+ * Minor unit of a currency and how amounts are rounded to it
+ */
+export interface CurrencyRules {
+  code: string; // ISO 4217, e.g. INR
+  symbol: string; // prefix used in names and messages, e.g. ₹
+  minorUnits: number; // decimal places of the minor unit, e.g. 2 for paise
+  rounding: Decimal.Rounding; // e.g. Decimal.ROUND_HALF_UP
+}
+
+/**
+ * When discounts are rounded to the currency's minor unit:
+ * - PER_DISCOUNT: each discount as it is applied; its line shares are then split in minor units
+ * - PER_LINE: each line's share of a discount; the discount is the sum of the rounded shares
+ * - AT_END: amounts stay exact until every discount is applied; each discount and its line shares are rounded last
+ * Rounding never takes a capped discount above its cap.
+ */
+export type RoundingPolicy = 'PER_DISCOUNT' | 'PER_LINE' | 'AT_END';
+
+/**
+ * A strategy together with its id, stacking rules and the settings that override its defaults
+ */
+export interface StrategyEntry extends StackingRules {
+  id: string;
+  strategy: DiscountStrategy;
+  priority?: number; // overrides strategy.getPriority()
+  calculationMode?: CalculationMode; // overrides the service-wide mode
+  budget?: CampaignBudget;
+  currency?: string; // the offer only applies to carts in this currency; any currency if omitted
+  version?: number; // set by the StrategyRegistry; changes whenever the campaign is added or replaced
 }
 
 export interface PaymentValidator {
@@ -68,75 +828,384 @@ export interface PaymentValidator {
 }
 
 // Configuration interface for flexibility
-export interface BankCardDiscountConfig {
+/**
+ * How much a discount is worth: a percentage of the eligible subtotal or a flat amount,
+ * optionally capped. Exactly one of discountPercentage and flatAmount must be set.
+ */
+export interface DiscountValueConfig {
+  discountPercentage?: Decimal;
+  flatAmount?: Decimal; // split across eligible lines, never more than their subtotal
+  maxDiscountCap?: Decimal;
+}
+
+/**
+ * Limits of a payment offer per card, UPI id or wallet (PaymentInfo.instrumentId)
+ * and calendar month (UTC). The per-transaction maximum is maxDiscountCap.
+ */
+export interface PaymentUsageLimits {
+  maxUsesPerMonth?: number;
+  maxDiscountPerMonth?: Decimal;
+}
+
+/**
+ * Lets a payment offer be paid out as cashback instead of an instant discount
+ */
+export interface BenefitConfig {
+  benefitType?: BenefitType; // defaults to INSTANT
+  cashbackCreditDays?: number; // required for CASHBACK: days after delivery until the cashback is credited
+  fundedBy?: string; // defaults to the bank, or the name of the payment offer
+}
+
+export interface BankCardDiscountConfig extends EligibilityRules, DiscountValueConfig, BenefitConfig {
   bankName: string;
-  discountPercentage: Decimal;
   minimumCartAmount?: Decimal;
-  eligibleCategories?: string[]; 
+  eligibleCategories?: string[]; // only items of these categories are discounted and count towards the minimum; the whole cart if omitted
+  cardTypes?: string[]; // e.g. ['CREDIT']; any card type if omitted
+  cardNetworks?: string[]; // e.g. ['VISA', 'RUPAY']
+  binPrefixes?: string[]; // card number prefixes, e.g. ['4386', '5241']
+  monthlyLimits?: PaymentUsageLimits;
+}
+
+/**
+ * Offer on a UPI app or wallet, e.g. 10% off via PhonePe UPI
+ */
+export interface PaymentMethodDiscountConfig extends EligibilityRules, DiscountValueConfig, BenefitConfig {
+  name: string; // e.g. 'PhonePe UPI'
+  method: 'UPI' | 'WALLET';
+  providers?: string[]; // any UPI app or wallet if omitted
+  minimumCartAmount?: Decimal;
+  eligibleCategories?: string[]; // only items of these categories are discounted and count towards the minimum; the whole cart if omitted
+  monthlyLimits?: PaymentUsageLimits;
+}
+
+/**
+ * A payment offer granted on an order
+ */
+export interface PaymentOfferUsage {
+  offer: string; // StrategyEntry.id of the offer
+  instrumentId: string;
+  customerId: string;
+  orderId: string;
+  amount: Money; // in the currency of the offer's limits
+  usedAt: Date;
+}
+
+export interface MonthlyPaymentUsage {
+  count: number;
+  amount: Decimal;
+}
+
+/**
+ * Storage for payment offer usage. Like RedemptionLedger, implementations must check the
+ * limits and record the usage as one step.
+ */
+export interface PaymentUsageStore {
+  /**
+   * Records a usage. Recording the same offer on the same order again is a no-op.
+   * @returns False if the offer was already recorded on the order
+   * @throws Error if the usage would exceed one of the limits in the month of usedAt, or is in another
+   * currency than the usage of the offer on the instrument that month
+   */
+  record(usage: PaymentOfferUsage, limits: PaymentUsageLimits): Promise<boolean>;
+  /**
+   * Removes the usage recorded on an order (all offers, or only the given one)
+   * @returns The usage that was released
+   */
+  release(orderId: string, offer?: string): Promise<PaymentOfferUsage[]>;
+  /**
+   * Sums the usage of an offer on an instrument in the calendar month (UTC) of `at`.
+   * Usage of excludeOrderId is left out, so an order being re-priced does not count against itself.
+   */
+  getMonthlyUsage(offer: string, instrumentId: string, at: Date, excludeOrderId?: string): Promise<MonthlyPaymentUsage>;
+}
+
+/**
+ * Amount marketing has funded a campaign with, e.g. "PUMA 40% until ₹5L is spent".
+ * Days are calendar days in UTC.
+ */
+export interface CampaignBudget {
+  total: Decimal;
+  daily?: Decimal; // most that can be spent per day; no daily limit if omitted
+}
+
+/**
+ * Discount granted by a campaign on an order, counted against its budget
+ */
+export interface CampaignSpend {
+  campaignId: string; // strategy id
+  orderId: string;
+  amount: Money; // in the currency of the campaign's budget
+  spentAt: Date;
+}
+
+export interface CampaignSpendTotals {
+  total: Decimal;
+  today: Decimal; // on the UTC day of the time asked about
+}
+
+/**
+ * Storage for campaign spend, shared by every service and process granting the campaigns.
+ * Like RedemptionLedger, implementations must check the budget and record the spend as one step,
+ * so that concurrent checkouts cannot both take the last of a budget.
+ */
+export interface CampaignSpendLedger {
+  /**
+   * Records a spend. Recording the same campaign on the same order again is a no-op.
+   * @returns False if the campaign was already recorded on the order
+   * @throws Error if the spend would exceed the total budget or the budget for the day of spentAt, or is
+   * in another currency than the spend already recorded for the campaign
+   */
+  spend(spend: CampaignSpend, budget: CampaignBudget): Promise<boolean>;
+  /**
+   * Removes the spend recorded on an order (all campaigns, or only the given one)
+   * @returns The spend that was released
+   */
+  release(orderId: string, campaignId?: string): Promise<CampaignSpend[]>;
+  /**
+   * Sums the spend of a campaign, overall and on the UTC day of `at`.
+   * Spend of excludeOrderId is left out, so an order being re-priced does not count against itself.
+   */
+  getSpend(campaignId: string, at: Date, excludeOrderId?: string): Promise<CampaignSpendTotals>;
 }
 
 // Configuration interface for brand discount
-export interface BrandDiscountConfig {
+export interface BrandDiscountConfig extends EligibilityRules, DiscountValueConfig {
   brand: string;
-  discountPercentage: Decimal;
   minimumCartAmount?: Decimal; 
   eligibleCategories?: string[]; 
-  customerTiers?: string[];
-  validUntil?: Date; 
 }
 
 
+/**
+ * Custom condition of a brand offer, checked once per calculation; may be synchronous
+ */
 export interface BrandValidator {
   validate(
     items: CartItem[],
     customer: CustomerProfile,
     config: BrandDiscountConfig
-  ): boolean;
+  ): boolean | Promise<boolean>;
 }
 
 
-export interface CategoryDiscountConfig {
+export interface CategoryDiscountConfig extends EligibilityRules, DiscountValueConfig {
   category: string;
-  discountPercentage: number;
   minimumCartAmount?: Decimal; 
-  excludedBrands?: string[]; 
-  customerTiers?: string[];
-  validUntil?: Date; 
+  eligibleBrands?: string[];
 }
 
 /**
- * Validator interface for modular validation logic
+ * Custom condition of a category offer, checked once per calculation; may be synchronous
  */
 export interface CategoryValidator {
   validate(
     items: CartItem[],
     customer: CustomerProfile,
     config: CategoryDiscountConfig
-  ): boolean;
+  ): boolean | Promise<boolean>;
 }
 
 
-export interface VoucherDiscountConfig {
-  code: string;
-  discountPercentage: Decimal;
+export interface VoucherDiscountConfig extends EligibilityRules, DiscountValueConfig {
+  code: string; // campaign code, shown in the discount name; entered by customers unless issuedCodes is set
+  issuedCodes?: string[]; // single-use codes of the campaign (see VoucherCodeGenerator); they replace `code` at checkout
+  codeFormat?: VoucherCodeFormat; // format the issued codes were generated with; mistyped codes are reported as MALFORMED
   minimumCartAmount?: Decimal;
-  maxDiscountCap?: Decimal;
-  excludedBrands?: string[];
   excludedCategories?: string[];
+  usageLimit?: number; // total redemptions allowed across all customers; not allowed with issuedCodes
+  perCustomerLimit?: number; // redemptions allowed per customer; not allowed with issuedCodes
 }
 
+/**
+ * Shape of generated voucher codes: prefix, separator, `length` random characters of the alphabet
+ * and a check character, e.g. SUPER69-7FQK2M
+ */
+export interface VoucherCodeFormat {
+  prefix?: string; // e.g. the campaign code
+  separator?: string; // between the prefix and the random part, defaults to '-'
+  alphabet?: string; // distinct upper-case characters; defaults to letters and digits without 0/O, 1/I/L
+  length?: number; // random characters before the check character, defaults to 5
+}
+
+export type VoucherUsageLimits = Pick<VoucherDiscountConfig, 'usageLimit' | 'perCustomerLimit'>;
+
+/**
+ * A voucher code used by a customer on an order
+ */
+export interface VoucherRedemption {
+  code: string;
+  customerId: string;
+  orderId: string;
+  redeemedAt: Date;
+}
+
+/**
+ * Storage for voucher redemptions. Implementations must check the limits and record the
+ * redemption as one step, so that concurrent checkouts cannot both take the last use.
+ */
+export interface RedemptionLedger {
+  /**
+   * Records a redemption. Redeeming the same code on the same order again is a no-op.
+   * @returns False if the code was already redeemed on the order
+   * @throws Error if the redemption would exceed one of the limits
+   */
+  redeem(redemption: VoucherRedemption, limits: VoucherUsageLimits): Promise<boolean>;
+  /**
+   * Removes the redemptions of an order (all codes, or only the given one)
+   * @returns The redemptions that were released
+   */
+  release(orderId: string, code?: string): Promise<VoucherRedemption[]>;
+  /**
+   * Counts the active redemptions of a code, optionally for a single customer.
+   * Redemptions of excludeOrderId are left out, so an order being re-priced does not count against itself.
+   */
+  countRedemptions(code: string, customerId?: string, excludeOrderId?: string): Promise<number>;
+}
+
+/**
+ * Custom condition of a voucher, checked once per calculation; may be synchronous
+ */
 export interface VoucherValidator {
   validate(
     items: CartItem[],
     customer: CustomerProfile,
     config: VoucherDiscountConfig
-  ): Promise<boolean>;
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * Selects products by brand, category or id. Every listed criterion must match;
+ * an empty matcher matches every product.
+ */
+export interface ProductMatcher {
+  brands?: string[];
+  categories?: string[];
+  productIds?: string[];
+}
+
+/**
+ * Quantity-based promotions:
+ * - BUY_X_GET_Y: for every buyQuantity units bought, getQuantity units matching `get`
+ *   (defaults to `buy`) are discounted by getDiscountPercentage (100 = free)
+ * - FIXED_PRICE: every buyQuantity units matching `buy` cost bundlePrice together
+ */
+export interface BundleDiscountConfig extends EligibilityRules {
+  name: string;
+  kind: 'BUY_X_GET_Y' | 'FIXED_PRICE';
+  buy: ProductMatcher;
+  buyQuantity: number;
+  get?: ProductMatcher;
+  getQuantity?: number;
+  getDiscountPercentage?: Decimal; // defaults to 100
+  bundlePrice?: Decimal;
+  maxApplications?: number; // how many times the promotion can apply per cart
+}
+
+/**
+ * Units of one cart line picked by a bundle promotion
+ */
+export interface BundleSelection {
+  lineIndex: number;
+  productId: string;
+  size: string;
+  units: number;
+  discount: Decimal;
+}
+
+/**
+ * One spend tier. A tier may combine a percentage with a flat amount, e.g. 15% plus ₹500 off.
+ */
+export interface SpendTier {
+  threshold: Decimal; // minimum eligible subtotal for the tier
+  discountPercentage?: Decimal;
+  flatAmount?: Decimal;
+  maxDiscountCap?: Decimal;
+}
+
+/**
+ * Cart-level discount that applies only the highest tier reached by the eligible subtotal
+ */
+export interface TieredDiscountConfig extends EligibilityRules {
+  name: string;
+  tiers: SpendTier[];
+  excludedCategories?: string[];
+}
+
+/**
+ * Waives or reduces fees of the cart, e.g. free shipping above ₹499 or for PREMIUM customers.
+ * The whole fee is waived unless discountPercentage or flatAmount is set; either applies to each fee.
+ * minimumCartAmount is checked on the products after their discounts, so fees never count toward it.
+ */
+export interface FeeWaiverConfig extends EligibilityRules, DiscountValueConfig {
+  name: string; // e.g. 'Free shipping above ₹499'
+  feeTypes: FeeType[];
+  minimumCartAmount?: Decimal;
 }
 
-// StrategyConfig interface (for reference, ideally in DiscountService.ts)
-export interface StrategyConfig {
-  type: 'brand' | 'category' | 'voucher' | 'bank';
-  config: any;
-  validator?: any;
-  onDiscountApplied?: (discount: Decimal, name: string) => void;
-}
\ No newline at end of file
+/**
+ * Fields shared by every strategy configuration
+ */
+interface BaseStrategyConfig extends StackingRules {
+  id?: string; // defaults to the discount name
+  priority?: number; // lower applies first; defaults to the strategy's getPriority()
+  calculationMode?: CalculationMode;
+  budget?: CampaignBudget; // spend is tracked under the id, so a replaced strategy keeps what it has spent
+}
+
+export interface BrandStrategyConfig extends BaseStrategyConfig {
+  type: 'brand';
+  config: BrandDiscountConfig;
+  validator?: BrandValidator;
+}
+
+export interface CategoryStrategyConfig extends BaseStrategyConfig {
+  type: 'category';
+  config: CategoryDiscountConfig;
+  validator?: CategoryValidator;
+}
+
+export interface VoucherStrategyConfig extends BaseStrategyConfig {
+  type: 'voucher';
+  config: VoucherDiscountConfig;
+  validator?: VoucherValidator;
+}
+
+export interface BankStrategyConfig extends BaseStrategyConfig {
+  type: 'bank';
+  config: BankCardDiscountConfig;
+}
+
+export interface PaymentMethodStrategyConfig extends BaseStrategyConfig {
+  type: 'payment';
+  config: PaymentMethodDiscountConfig;
+}
+
+export interface BundleStrategyConfig extends BaseStrategyConfig {
+  type: 'bundle';
+  config: BundleDiscountConfig;
+}
+
+export interface TieredStrategyConfig extends BaseStrategyConfig {
+  type: 'tiered';
+  config: TieredDiscountConfig;
+}
+
+export interface FeeWaiverStrategyConfig extends BaseStrategyConfig {
+  type: 'feeWaiver';
+  config: FeeWaiverConfig;
+}
+
+/**
+ * Configuration of a single campaign, discriminated by `type`
+ */
+export type StrategyConfig =
+  | BrandStrategyConfig
+  | CategoryStrategyConfig
+  | VoucherStrategyConfig
+  | BankStrategyConfig
+  | PaymentMethodStrategyConfig
+  | BundleStrategyConfig
+  | TieredStrategyConfig
+  | FeeWaiverStrategyConfig;
+
+export type StrategyType = StrategyConfig['type'];
\ No newline at end of file
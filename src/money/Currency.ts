@@ -0,0 +1,53 @@
+import { Decimal } from 'decimal.js';
+import { CartItem, CurrencyRules } from '../models/interface';
+
+export const DEFAULT_CURRENCY = 'INR';
+
+const CURRENCIES: Record<string, CurrencyRules> = {
+  INR: { code: 'INR', symbol: '₹', minorUnits: 2, rounding: Decimal.ROUND_HALF_UP },
+  USD: { code: 'USD', symbol: '$', minorUnits: 2, rounding: Decimal.ROUND_HALF_UP },
+  AED: { code: 'AED', symbol: 'AED ', minorUnits: 2, rounding: Decimal.ROUND_HALF_UP }
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES);
+
+/**
+ * @param code - ISO 4217 code; defaults to INR
+ * @throws Error if the currency is not supported
+ */
+export function getCurrency(code: string = DEFAULT_CURRENCY): CurrencyRules {
+  const currency = CURRENCIES[code];
+  if (!currency) {
+    throw new Error(`Unsupported currency: ${code}`);
+  }
+  return currency;
+}
+
+/**
+ * Rounds an amount to the currency's minor unit
+ * @param rounding - Overrides the currency's rounding mode, e.g. ROUND_DOWN so a capped amount stays within its cap
+ */
+export function roundToMinorUnit(amount: Decimal, code?: string, rounding?: Decimal.Rounding): Decimal {
+  const currency = getCurrency(code);
+  return amount.toDecimalPlaces(currency.minorUnits, rounding ?? currency.rounding);
+}
+
+/**
+ * Amount with the currency symbol, as used in discount names and messages, e.g. "₹500" or "$19.99"
+ */
+export function formatAmount(amount: Decimal.Value, code?: string): string {
+  return `${getCurrency(code).symbol}${amount}`;
+}
+
+/**
+ * @returns The currency every item of the cart is priced in
+ * @throws Error if the items are priced in different currencies, or in one that is not supported
+ */
+export function getCartCurrency(cartItems: CartItem[]): string {
+  const codes = new Set(cartItems.map(item => item.product.currency ?? DEFAULT_CURRENCY));
+  if (codes.size > 1) {
+    throw new Error(`Cart items are priced in more than one currency: ${Array.from(codes).join(', ')}`);
+  }
+  const [code = DEFAULT_CURRENCY] = Array.from(codes);
+  return getCurrency(code).code;
+}
@@ -0,0 +1,92 @@
+import { Decimal } from 'decimal.js';
+import { DEFAULT_CURRENCY, formatAmount, getCurrency, roundToMinorUnit } from './Currency';
+
+/**
+ * An exact decimal amount in a currency. Arithmetic is only allowed between amounts of the
+ * same currency; nothing is rounded until round() is called.
+ */
+export class Money {
+  private constructor(readonly amount: Decimal, readonly currency: string) {}
+
+  /**
+   * @param currency - ISO 4217 code; defaults to INR
+   * @throws Error if the currency is not supported or the amount is not a finite number
+   */
+  static of(amount: Decimal.Value, currency: string = DEFAULT_CURRENCY): Money {
+    const value = new Decimal(amount);
+    if (!value.isFinite()) {
+      throw new Error(`Invalid amount: ${amount}`);
+    }
+    return new Money(value, getCurrency(currency).code);
+  }
+
+  static zero(currency: string = DEFAULT_CURRENCY): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * @param currency - Of the total when there are no amounts; defaults to INR
+   * @throws Error if the amounts are in more than one currency
+   */
+  static sum(amounts: Money[], currency: string = DEFAULT_CURRENCY): Money {
+    const [first = Money.zero(currency), ...rest] = amounts;
+    return rest.reduce((acc, amount) => acc.plus(amount), first);
+  }
+
+  /**
+   * @throws Error if the other amount is in another currency
+   */
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount.plus(other.amount), this.currency);
+  }
+
+  /**
+   * @throws Error if the other amount is in another currency
+   */
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount.minus(other.amount), this.currency);
+  }
+
+  /**
+   * Rounds to the currency's minor unit with its rounding mode
+   */
+  round(): Money {
+    return new Money(roundToMinorUnit(this.amount, this.currency), this.currency);
+  }
+
+  isZero(): boolean {
+    return this.amount.isZero();
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount.equals(other.amount);
+  }
+
+  /**
+   * Exact decimal string with at least the currency's minor units, e.g. "1100.00";
+   * unrounded amounts keep all their digits
+   */
+  toString(): string {
+    const { minorUnits } = getCurrency(this.currency);
+    return this.amount.toFixed(Math.max(minorUnits, this.amount.decimalPlaces()));
+  }
+
+  /**
+   * With the currency symbol, e.g. "₹1100.00"
+   */
+  format(): string {
+    return formatAmount(this.toString(), this.currency);
+  }
+
+  toJSON(): { amount: string; currency: string } {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Decimal } from 'decimal.js';
+import { OfferNudge, PaymentInfo, StrategyTrace, ValidationFailure } from '../models/interface';
+import { formatAmount } from '../money/Currency';
+
+/**
+ * Turns the validation failures of a calculation into "add ₹X more to unlock" nudges.
+ * Only failures the customer can act on (a shortfall, missing brands or categories, a different payment)
+ * become nudges, so a nudge always matches what the strategy itself checks.
+ */
+export class OfferNudgeBuilder {
+  /**
+   * @param trace - The strategy trace of the calculation
+   * @param maxShortfall - Leave out offers that need more than this to be added to the cart
+   * @param currency - Currency of the cart, used in the messages
+   * @returns Nudges with a shortfall, smallest first, followed by the others in priority order
+   */
+  build(trace: StrategyTrace[], maxShortfall?: Decimal, currency?: string): OfferNudge[] {
+    const nudges: OfferNudge[] = [];
+
+    for (const { name, status, failure } of trace) {
+      if (status !== 'NOT_ELIGIBLE' || !failure || !this.isActionable(failure)) {
+        continue;
+      }
+      if (failure.shortfall && maxShortfall !== undefined && failure.shortfall.greaterThan(maxShortfall)) {
+        continue;
+      }
+      nudges.push({
+        name,
+        kind: failure.shortfall ? 'SPEND_MORE' : failure.requiredPayment && !this.needsItems(failure) ? 'CHANGE_PAYMENT' : 'ADD_ITEMS',
+        ...(failure.shortfall && { shortfall: failure.shortfall }),
+        ...(failure.requiredBrands && { requiredBrands: failure.requiredBrands }),
+        ...(failure.requiredCategories && { requiredCategories: failure.requiredCategories }),
+        ...(failure.requiredPayment && { requiredPayment: failure.requiredPayment }),
+        ...(failure.potentialSaving && { potentialSaving: failure.potentialSaving }),
+        message: this.describe(name, failure, currency)
+      });
+    }
+
+    return nudges.sort((a, b) => {
+      if (a.shortfall && b.shortfall) {
+        return a.shortfall.comparedTo(b.shortfall);
+      }
+      return a.shortfall ? -1 : b.shortfall ? 1 : 0;
+    });
+  }
+
+  private isActionable(failure: ValidationFailure): boolean {
+    return !!failure.shortfall || this.needsItems(failure) || !!failure.requiredPayment;
+  }
+
+  private needsItems(failure: ValidationFailure): boolean {
+    return !!(failure.requiredBrands?.length || failure.requiredCategories?.length);
+  }
+
+  /**
+   * e.g. "Add ₹350 more to save ₹690 with Voucher Discount - SUPER69 (69%)"
+   */
+  private describe(name: string, failure: ValidationFailure, currency?: string): string {
+    const steps: string[] = [];
+    if (failure.shortfall) {
+      steps.push(`add ${formatAmount(failure.shortfall, currency)} more`);
+    }
+    if (this.needsItems(failure)) {
+      steps.push(`add ${this.describeItems(failure)}`);
+    }
+    if (failure.requiredPayment) {
+      steps.push(`pay with ${this.describePayment(failure.requiredPayment)}`);
+    }
+    const reward = failure.potentialSaving ? `save ${formatAmount(failure.potentialSaving, currency)} with ${name}` : `get ${name}`;
+    const action = steps.join(' and ');
+    return `${action.charAt(0).toUpperCase()}${action.slice(1)} to ${reward}`;
+  }
+
+  private describeItems(failure: ValidationFailure): string {
+    const brands = failure.requiredBrands?.join(' or ');
+    const categories = failure.requiredCategories?.join(' or ');
+    if (brands && categories) {
+      return `${brands} items in ${categories}`;
+    }
+    return `${brands ?? categories} items`;
+  }
+
+  private describePayment(payment: PaymentInfo): string {
+    return [payment.provider ?? payment.bankName, payment.cardType, payment.cardNetwork, payment.method]
+      .filter(Boolean)
+      .join(' ');
+  }
+}
@@ -0,0 +1,60 @@
+import { Product, ProductScope, StrategyEntry } from '../models/interface';
+
+/**
+ * Strategies indexed by the brand or category they are limited to (see DiscountStrategy.getProductScope),
+ * so that looking up the offers of a product does not scan every strategy.
+ * Strategies scoped to brands are filed under each brand, otherwise under each category;
+ * unscoped strategies are candidates for every product.
+ */
+export class ProductOfferIndex {
+  private readonly byBrand = new Map<string, StrategyEntry[]>();
+  private readonly byCategory = new Map<string, StrategyEntry[]>();
+  private readonly anyProduct: StrategyEntry[] = [];
+  private readonly positions = new Map<StrategyEntry, number>();
+  private readonly scopes = new Map<StrategyEntry, ProductScope>();
+
+  /**
+   * @param entries - Strategies in registration order; candidates are returned in the same order
+   */
+  constructor(entries: StrategyEntry[]) {
+    entries.forEach((entry, position) => {
+      const scope = entry.strategy.getProductScope?.() ?? {};
+      this.positions.set(entry, position);
+      this.scopes.set(entry, scope);
+
+      if (scope.brands) {
+        scope.brands.forEach(brand => this.file(this.byBrand, brand, entry));
+      } else if (scope.categories) {
+        scope.categories.forEach(category => this.file(this.byCategory, category, entry));
+      } else {
+        this.anyProduct.push(entry);
+      }
+    });
+  }
+
+  /**
+   * @returns The strategies whose scope includes the product's brand and category
+   */
+  candidatesFor(product: Product): StrategyEntry[] {
+    const candidates = new Set([
+      ...(this.byBrand.get(product.brand) ?? []),
+      ...(this.byCategory.get(product.category) ?? []),
+      ...this.anyProduct
+    ]);
+    return Array.from(candidates)
+      .filter(entry => {
+        const scope = this.scopes.get(entry)!;
+        return (
+          (!scope.brands || scope.brands.includes(product.brand)) &&
+          (!scope.categories || scope.categories.includes(product.category))
+        );
+      })
+      .sort((a, b) => this.positions.get(a)! - this.positions.get(b)!);
+  }
+
+  private file(index: Map<string, StrategyEntry[]>, key: string, entry: StrategyEntry): void {
+    const entries = index.get(key) ?? [];
+    entries.push(entry);
+    index.set(key, entries);
+  }
+}
@@ -0,0 +1,56 @@
+import { StrategyEntry } from '../models/interface';
+
+/**
+ * Strategies of a single DiscountService, keyed by their stable id.
+ * Entries keep the order they were added in; replacing an entry keeps its position.
+ * Every added or replacing entry gets a new version, never reused within the registry, so a campaign
+ * removed and added again under the same id does not match quotes made with the old one.
+ */
+export class StrategyRegistry {
+  private entries: Map<string, StrategyEntry> = new Map();
+  private lastVersion = 0;
+
+  /**
+   * @throws Error if a strategy with the same id is already registered
+   */
+  public add(entry: StrategyEntry): void {
+    if (this.entries.has(entry.id)) {
+      throw new Error(`Discount strategy ${entry.id} is already registered`);
+    }
+    this.entries.set(entry.id, { ...entry, version: ++this.lastVersion });
+  }
+
+  /**
+   * @returns The entry that was replaced
+   * @throws Error if no strategy is registered under the entry's id
+   */
+  public replace(entry: StrategyEntry): StrategyEntry {
+    const existing = this.entries.get(entry.id);
+    if (!existing) {
+      throw new Error(`Discount strategy ${entry.id} is not registered`);
+    }
+    this.entries.set(entry.id, { ...entry, version: ++this.lastVersion });
+    return existing;
+  }
+
+  /**
+   * @returns The removed entry, or undefined if the id was not registered
+   */
+  public remove(id: string): StrategyEntry | undefined {
+    const existing = this.entries.get(id);
+    this.entries.delete(id);
+    return existing;
+  }
+
+  public get(id: string): StrategyEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  public getEntries(): StrategyEntry[] {
+    return Array.from(this.entries.values());
+  }
+}
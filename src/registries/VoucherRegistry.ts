@@ -0,0 +1,71 @@
+import { VoucherDiscountStrategy } from '../discount-strategies/VoucherDiscountStrategy';
+
+/**
+ * Lookup table of voucher strategies keyed by the codes customers enter: the campaign code,
+ * or every issued code of a campaign that has them.
+ * Codes are matched exactly, ignoring case and surrounding whitespace.
+ */
+export class VoucherRegistry {
+  private vouchers: Map<string, VoucherDiscountStrategy> = new Map();
+  private formatted: Set<VoucherDiscountStrategy> = new Set(); // vouchers with a code format
+
+  /**
+   * Normalizes a customer-entered code for lookup
+   * @param code - The code as typed by the customer
+   * @returns The code trimmed and upper-cased
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Registers every code of the voucher; nothing is registered if one of them is taken
+   * @throws Error if another voucher already uses one of the codes
+   */
+  public register(voucher: VoucherDiscountStrategy): void {
+    const codes = this.codesOf(voucher);
+    for (const code of codes) {
+      const existing = this.vouchers.get(code);
+      if (existing && existing !== voucher) {
+        throw new Error(`Voucher code ${code} is already registered`);
+      }
+    }
+    for (const code of codes) {
+      this.vouchers.set(code, voucher);
+    }
+    if (voucher.getCodeFormat()) {
+      this.formatted.add(voucher);
+    }
+  }
+
+  public unregister(voucher: VoucherDiscountStrategy): void {
+    for (const code of this.codesOf(voucher)) {
+      if (this.vouchers.get(code) === voucher) {
+        this.vouchers.delete(code);
+      }
+    }
+    this.formatted.delete(voucher);
+  }
+
+  public find(code: string): VoucherDiscountStrategy | undefined {
+    if (!code || typeof code !== 'string') {
+      return undefined;
+    }
+    return this.vouchers.get(VoucherRegistry.normalizeCode(code));
+  }
+
+  /**
+   * Whether a code that was not found looks like a mistyped issued code of a registered voucher
+   * @param code - The code as entered by the customer
+   */
+  public isMalformed(code: string): boolean {
+    if (!code || typeof code !== 'string') {
+      return false;
+    }
+    return Array.from(this.formatted).some(voucher => voucher.isMistypedCode(code));
+  }
+
+  private codesOf(voucher: VoucherDiscountStrategy): string[] {
+    return (voucher.getIssuedCodes() ?? [voucher.getCode()]).map(VoucherRegistry.normalizeCode);
+  }
+}
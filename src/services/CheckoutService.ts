@@ -0,0 +1,398 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Decimal } from 'decimal.js';
+import {
+  CartFee,
+  CartItem,
+  CheckoutOptions,
+  CheckoutReservation,
+  CheckoutReservationStore,
+  Clock,
+  CustomerProfile,
+  CustomerProfileStore,
+  DiscountedPrice,
+  PaymentInfo,
+  PriceQuote,
+  QuoteOptions,
+  RoundingPolicy
+} from '../models/interface';
+import { DiscountService } from './DiscountService';
+import { InMemoryCheckoutReservationStore } from '../ledgers/InMemoryCheckoutReservationStore';
+import { SystemClock } from '../eligibility/EligibilityChecker';
+
+const DEFAULT_QUOTE_TTL_SECONDS = 900;
+const DEFAULT_HOLD_SECONDS = 1800;
+
+/**
+ * What a quote token carries. Amounts and dates are kept as the strings JSON gives them.
+ * The token can be read by whoever holds it, so it carries no personal data: only the customer id
+ * and a hash of the cart and payment, which are passed again to reserve.
+ */
+interface QuoteClaims {
+  quoteId: string;
+  customerId: string;
+  cartHash: string; // of the cart lines and the payment details
+  voucherCodes: string[]; // the codes applied, not every code entered
+  deliveryDate?: string;
+  rounding?: RoundingPolicy;
+  placeOfSupply?: string;
+  fees?: CartFee[];
+  correlationId: string; // carried by the events of the quote and of its reservation
+  finalPrice: string;
+  savings: Record<string, string>; // discount_name -> amount, instant discounts, cashback and fee waivers
+  campaignVersions: Record<string, number>;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Checkout on top of DiscountService: quote, reserve, then commit or release.
+ * - quote prices the cart and signs the result (HMAC-SHA256 with a local secret) with an expiry
+ *   and the versions of the campaigns applied
+ * - reserve checks the token and that it is given the quoted cart and payment, loads the customer,
+ *   re-prices the cart as of the quote and holds the voucher redemptions, payment offer usage and
+ *   campaign budget, failing if the quoted price cannot be honoured
+ * - commit and release finish the reservation; both are keyed by order id and can be repeated
+ */
+export class CheckoutService {
+  private readonly secret: string;
+  private readonly quoteTtlSeconds: number;
+  private readonly holdSeconds: number;
+  private readonly reservations: CheckoutReservationStore;
+  private readonly customers: CustomerProfileStore;
+  private readonly clock: Clock;
+
+  /**
+   * @param discountService - The service that prices the carts and keeps the ledgers
+   * @param options - The signing secret, the quote and hold durations, the reservation store, the customer
+   * profile store and the clock
+   * @throws Error if the secret or the customer profile store is missing, or a duration is not a positive number
+   */
+  constructor(private readonly discountService: DiscountService, options: CheckoutOptions) {
+    if (!options?.secret || typeof options.secret !== 'string') {
+      throw new Error('A secret is required to sign quotes');
+    }
+    if (!options.customers) {
+      throw new Error('A customer profile store is required to reserve quotes');
+    }
+    for (const seconds of [options.quoteTtlSeconds, options.holdSeconds]) {
+      if (seconds !== undefined && (!Number.isFinite(seconds) || seconds <= 0)) {
+        throw new Error('Invalid checkout duration');
+      }
+    }
+    this.secret = options.secret;
+    this.quoteTtlSeconds = options.quoteTtlSeconds ?? DEFAULT_QUOTE_TTL_SECONDS;
+    this.holdSeconds = options.holdSeconds ?? DEFAULT_HOLD_SECONDS;
+    this.reservations = options.reservationStore ?? new InMemoryCheckoutReservationStore();
+    this.customers = options.customers;
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  /**
+   * Prices a cart and returns the price as a signed quote
+   * @param cartItems - Array of items in the cart
+   * @param customer - Customer profile information
+   * @param paymentInfo - Optional payment information
+   * @param options - Voucher codes entered, the expected delivery date, the rounding policy, the place of supply, the fees
+   * and the correlation id of the pricing events, which defaults to the quote id
+   * @returns Promise resolving to the quote, whose token is passed to reserve
+   */
+  async quote(
+    cartItems: CartItem[],
+    customer: CustomerProfile,
+    paymentInfo?: PaymentInfo,
+    options: QuoteOptions = {}
+  ): Promise<PriceQuote> {
+    const quoteId = randomUUID();
+    const correlationId = options.correlationId ?? quoteId;
+    const issuedAt = this.clock.now();
+    const expiresAt = new Date(issuedAt.getTime() + this.quoteTtlSeconds * 1000);
+    const pricing = await this.discountService.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+      ...options,
+      correlationId,
+      pricedAt: issuedAt,
+      purpose: 'QUOTE'
+    });
+    const savings = this.listSavings(pricing);
+    const campaignVersions = this.discountService.getCampaignVersions(Object.keys(savings));
+
+    const claims: QuoteClaims = {
+      quoteId,
+      customerId: customer.id,
+      cartHash: this.hashCart(cartItems, paymentInfo),
+      voucherCodes: pricing.voucherResults.filter(result => result.status === 'APPLIED').map(result => result.code),
+      deliveryDate: options.deliveryDate?.toISOString(),
+      rounding: options.rounding,
+      placeOfSupply: options.placeOfSupply,
+      fees: options.fees,
+      correlationId,
+      finalPrice: pricing.finalPrice.toString(),
+      savings,
+      campaignVersions,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString()
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+    return {
+      quoteId: claims.quoteId,
+      token: `${payload}.${this.sign(payload)}`,
+      pricing,
+      campaignVersions,
+      issuedAt,
+      expiresAt
+    };
+  }
+
+  /**
+   * Holds the offers of a quote for an order. Reserving the same quote for the same order again
+   * returns the existing reservation.
+   * @param token - PriceQuote.token
+   * @param orderId - The order being paid
+   * @param cartItems - The cart that was quoted
+   * @param paymentInfo - The payment that was quoted, if any
+   * @returns Promise resolving to the reservation
+   * @throws Error if the token is invalid or expired, the cart or payment is not the quoted one, the customer
+   * is unknown, a campaign changed, the quoted price can no longer be honoured, or the order is already
+   * reserved with another quote or was released
+   */
+  async reserve(
+    token: string,
+    orderId: string,
+    cartItems: CartItem[],
+    paymentInfo?: PaymentInfo
+  ): Promise<CheckoutReservation> {
+    if (!orderId) {
+      throw new Error('Invalid order id');
+    }
+    const claims = this.verify(token);
+    if (!Array.isArray(cartItems) || this.hashCart(cartItems, paymentInfo) !== claims.cartHash) {
+      throw new Error(`Cart or payment does not match quote ${claims.quoteId}`);
+    }
+    const existing = await this.reservations.get(orderId);
+    if (existing) {
+      return this.matchReservation(existing, claims);
+    }
+
+    const currentVersions = this.discountService.getCampaignVersions(Object.keys(claims.savings));
+    for (const [id, version] of Object.entries(claims.campaignVersions)) {
+      if (currentVersions[id] !== version) {
+        throw new Error(`Campaign ${id} has changed since quote ${claims.quoteId} was issued`);
+      }
+    }
+
+    const customer = await this.customers.get(claims.customerId);
+    if (!customer) {
+      throw new Error(`Customer ${claims.customerId} of quote ${claims.quoteId} not found`);
+    }
+    const pricedAt = new Date(claims.issuedAt);
+    const pricing = await this.discountService.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+      voucherCodes: claims.voucherCodes,
+      deliveryDate: claims.deliveryDate ? new Date(claims.deliveryDate) : undefined,
+      discountNames: Object.keys(claims.savings),
+      orderId,
+      pricedAt,
+      rounding: claims.rounding,
+      placeOfSupply: claims.placeOfSupply,
+      fees: claims.fees?.map(fee => ({ ...fee, amount: new Decimal(fee.amount) })),
+      correlationId: claims.correlationId,
+      purpose: 'RESERVE',
+      explain: true // the trace is kept for the events published on commit
+    });
+    if (!this.honoursQuote(pricing, claims)) {
+      throw new Error(`Quote ${claims.quoteId} can no longer be honoured; request a new quote`);
+    }
+
+    const now = this.clock.now();
+    const reservation = await this.reservations.create({
+      orderId,
+      quoteId: claims.quoteId,
+      status: 'RESERVED',
+      pricing,
+      correlationId: claims.correlationId,
+      customerId: customer.id,
+      reservedAt: now,
+      holdUntil: new Date(now.getTime() + this.holdSeconds * 1000),
+      updatedAt: now
+    });
+    if (reservation.quoteId !== claims.quoteId) {
+      throw new Error(`Order ${orderId} is already reserved with another quote`);
+    }
+
+    // Every hold is idempotent per order, so a concurrent reserve of the same quote does no harm
+    try {
+      // Checked as of the quote like the pricing, so a code that expired since is still honoured
+      await this.discountService.redeemVouchers(orderId, customer, claims.voucherCodes, pricedAt);
+      if (paymentInfo) {
+        await this.discountService.redeemPaymentOffers(orderId, customer, paymentInfo, pricing);
+      }
+      await this.discountService.spendCampaignBudgets(orderId, pricing);
+    } catch (error) {
+      await this.reservations.transition(orderId, 'RESERVED', 'RELEASED', this.clock.now());
+      await this.releaseHolds(orderId);
+      throw error;
+    }
+    return reservation;
+  }
+
+  /**
+   * Marks a reservation as paid; its holds are kept for good. The discount events of the order are
+   * published here, once, with the reserved pricing. Committing again returns the same reservation.
+   * @param orderId - The order that was paid
+   * @returns Promise resolving to the committed reservation
+   * @throws Error if the order has no reservation or it was released
+   */
+  async commit(orderId: string): Promise<CheckoutReservation> {
+    const committed = await this.reservations.transition(orderId, 'RESERVED', 'COMMITTED', this.clock.now());
+    if (committed) {
+      this.discountService.publishEvents(committed.pricing, {
+        correlationId: committed.correlationId,
+        orderId,
+        customerId: committed.customerId
+      });
+      return committed;
+    }
+    const existing = await this.reservations.get(orderId);
+    if (existing?.status === 'COMMITTED') {
+      return existing;
+    }
+    throw new Error(existing ? `Reservation for order ${orderId} was released` : `Order ${orderId} has no reservation`);
+  }
+
+  /**
+   * Gives back the holds of an uncommitted reservation, e.g. when payment fails.
+   * Releasing again returns the same reservation.
+   * @param orderId - The abandoned order
+   * @returns Promise resolving to the released reservation
+   * @throws Error if the order has no reservation or it was committed
+   */
+  async release(orderId: string): Promise<CheckoutReservation> {
+    const released = await this.reservations.transition(orderId, 'RESERVED', 'RELEASED', this.clock.now());
+    if (released) {
+      await this.releaseHolds(orderId);
+      return released;
+    }
+    const existing = await this.reservations.get(orderId);
+    if (existing?.status === 'RELEASED') {
+      return existing;
+    }
+    throw new Error(existing ? `Order ${orderId} is committed and can no longer be released` : `Order ${orderId} has no reservation`);
+  }
+
+  /**
+   * Releases the reservations that were neither committed nor released before their holdUntil
+   * @returns Promise resolving to the reservations released by this call
+   */
+  async releaseExpiredReservations(): Promise<CheckoutReservation[]> {
+    const released: CheckoutReservation[] = [];
+    for (const expired of await this.reservations.findExpired(this.clock.now())) {
+      const reservation = await this.reservations.transition(expired.orderId, 'RESERVED', 'RELEASED', this.clock.now());
+      if (reservation) {
+        await this.releaseHolds(reservation.orderId);
+        released.push(reservation);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Checks the signature and expiry of a quote token
+   * @returns The claims of the quote
+   * @throws Error if the token is malformed, was not signed with this secret or has expired
+   * @private
+   */
+  private verify(token: string): QuoteClaims {
+    const [payload, signature, ...rest] = typeof token === 'string' ? token.split('.') : [];
+    if (!payload || !signature || rest.length > 0) {
+      throw new Error('Invalid quote token');
+    }
+    const expected = Buffer.from(this.sign(payload));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new Error('Invalid quote signature');
+    }
+
+    const claims: QuoteClaims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (this.clock.now().getTime() > new Date(claims.expiresAt).getTime()) {
+      throw new Error(`Quote ${claims.quoteId} expired at ${claims.expiresAt}`);
+    }
+    return claims;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  /**
+   * Returns the existing reservation of an order if it was made with the same quote
+   * @private
+   */
+  private matchReservation(existing: CheckoutReservation, claims: QuoteClaims): CheckoutReservation {
+    if (existing.quoteId !== claims.quoteId) {
+      throw new Error(`Order ${existing.orderId} is already reserved with another quote`);
+    }
+    if (existing.status === 'RELEASED') {
+      throw new Error(`Reservation for order ${existing.orderId} was released; reserve under a new order id`);
+    }
+    return existing;
+  }
+
+  /**
+   * Whether a re-pricing grants the same final price and the same amount for every offer as the quote
+   * @private
+   */
+  private honoursQuote(pricing: DiscountedPrice, claims: QuoteClaims): boolean {
+    const savings = this.listSavings(pricing);
+    const names = Object.keys(claims.savings);
+    return (
+      pricing.finalPrice.toString() === claims.finalPrice &&
+      Object.keys(savings).length === names.length &&
+      names.every(name => savings[name] !== undefined && new Decimal(savings[name]).equals(claims.savings[name]))
+    );
+  }
+
+  /**
+   * @returns Amount by discount name, for the instant discounts, the cashback and the fee waivers of a pricing
+   * @private
+   */
+  private listSavings(pricing: DiscountedPrice): Record<string, string> {
+    return Object.fromEntries([
+      ...Object.entries(pricing.appliedDiscounts).map(([name, amount]) => [name, amount.toString()]),
+      ...pricing.cashback.map(benefit => [benefit.name, benefit.amount.toString()]),
+      ...Object.entries(pricing.fees?.waivers ?? {}).map(([name, amount]) => [name, amount.toString()])
+    ]);
+  }
+
+  /**
+   * SHA-256 of the cart lines and payment details, independent of key order and of how amounts are written
+   * @private
+   */
+  private hashCart(cartItems: CartItem[], paymentInfo?: PaymentInfo): string {
+    const amount = (value?: Decimal) => (value === undefined ? null : new Decimal(value).toString());
+    const lines = cartItems.map(({ product, quantity, size }) => [
+      product.id,
+      product.brand,
+      product.brandTier,
+      product.category,
+      amount(product.basePrice),
+      amount(product.currentPrice),
+      amount(product.cost),
+      product.currency ?? null,
+      quantity,
+      size
+    ]);
+    const payment = Object.entries(paymentInfo ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha256').update(JSON.stringify({ lines, payment })).digest('base64url');
+  }
+
+  /**
+   * Gives back everything held for an order; each release is a no-op when nothing was held
+   * @private
+   */
+  private async releaseHolds(orderId: string): Promise<void> {
+    await this.discountService.releaseVouchers(orderId);
+    await this.discountService.releasePaymentOffers(orderId);
+    await this.discountService.releaseCampaignBudgets(orderId);
+  }
+}
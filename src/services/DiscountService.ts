@@ -1,46 +1,147 @@
-import { CartItem, CustomerProfile, DiscountedPrice, PaymentInfo } from '../models/interface';
+import { randomUUID } from 'crypto';
+import {
+  CalculationMode,
+  CalculationOptions,
+  CampaignSpend,
+  CampaignSpendLedger,
+  CartItem,
+  CashbackBenefit,
+  Clock,
+  CustomerProfile,
+  DiscountedPrice,
+  DiscountEventContext,
+  DiscountEventEmitter,
+  DiscountStrategy,
+  DiscountEventListener,
+  DiscountServiceOptions,
+  ListingOptions,
+  ListingPrice,
+  Logger,
+  PaymentInfo,
+  PaymentOfferUsage,
+  PaymentUsageStore,
+  Product,
+  RedemptionLedger,
+  RoundingPolicy,
+  StrategyConfig,
+  StrategyEntry,
+  StrategyTrace,
+  VoucherCodeResult,
+  VoucherRedemption
+} from '../models/interface';
 import { Decimal } from 'decimal.js';
-import { DiscountStrategyFactory, StrategyConfig } from '../factories/DiscountStrategyFactory';
+import { DiscountStrategyFactory } from '../factories/DiscountStrategyFactory';
 import { DiscountApplier } from '../discount-applier/DiscountApplier';
-
-Decimal.set({ precision: 10, rounding: Decimal.ROUND_HALF_UP });
+import { FeeWaiverApplier } from '../discount-applier/FeeWaiverApplier';
+import { VoucherDiscountStrategy } from '../discount-strategies/VoucherDiscountStrategy';
+import { VoucherRegistry } from '../registries/VoucherRegistry';
+import { StrategyRegistry } from '../registries/StrategyRegistry';
+import { ProductOfferIndex } from '../registries/ProductOfferIndex';
+import { OfferNudgeBuilder } from '../nudges/OfferNudgeBuilder';
+import { InMemoryRedemptionLedger } from '../ledgers/InMemoryRedemptionLedger';
+import { InMemoryPaymentUsageStore } from '../ledgers/InMemoryPaymentUsageStore';
+import { InMemoryCampaignSpendLedger } from '../ledgers/InMemoryCampaignSpendLedger';
+import { EligibilityChecker, SystemClock } from '../eligibility/EligibilityChecker';
+import { PaymentUsageLimiter } from '../eligibility/PaymentUsageLimiter';
+import { CampaignBudgetTracker } from '../eligibility/CampaignBudgetTracker';
+import { BankCardDiscountStrategy } from '../discount-strategies/BankCardDiscountStrategy';
+import { BrandDiscountStrategy } from '../discount-strategies/BrandDiscountStrategy';
+import { CategoryDiscountStrategy } from '../discount-strategies/CategoryDiscountStrategy';
+import { PaymentMethodDiscountStrategy } from '../discount-strategies/PaymentMethodDiscountStrategy';
+import { FeeWaiverStrategy } from '../discount-strategies/FeeWaiverStrategy';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { DiscountEventBus } from '../events/DiscountEventBus';
+import { getCartCurrency, getCurrency } from '../money/Currency';
+import { Money } from '../money/Money';
+import { GST_CURRENCY, GstCalculator } from '../tax/GstCalculator';
+import { MarginGuard } from '../margin/MarginGuard';
 
 /**
- * Callback type for when a discount is applied
+ * Shopper used for listing prices when no customer is signed in; gets no tier-restricted offers
  */
-type DiscountAppliedCallback = (discountName: string, amount: Decimal, cartItems: CartItem[]) => void;
+const ANONYMOUS_CUSTOMER: CustomerProfile = { id: '', name: '', tier: '', email: '' };
 
 /**
  * Main service class for handling discount calculations and validations.
- * Uses factory pattern to create and manage discount strategies.
+ * Uses factory pattern to create discount strategies. Each service keeps its strategies in its
+ * own registry, so services with different campaign sets can run in the same process.
  */
 export class DiscountService {
-  private readonly factory: DiscountStrategyFactory;
-  private readonly onDiscountApplied?: DiscountAppliedCallback;
+  private readonly factory: DiscountStrategyFactory = new DiscountStrategyFactory();
+  private readonly strategies: StrategyRegistry = new StrategyRegistry();
+  private readonly nudgeBuilder: OfferNudgeBuilder = new OfferNudgeBuilder();
+  private readonly vouchers: VoucherRegistry = new VoucherRegistry();
+  private readonly redemptionLedger: RedemptionLedger;
+  private readonly paymentUsageStore: PaymentUsageStore;
+  private readonly campaignSpendLedger: CampaignSpendLedger;
+  private readonly clock: Clock;
+  private readonly eligibility: EligibilityChecker;
+  private readonly usageLimiter: PaymentUsageLimiter;
+  private readonly budgets: CampaignBudgetTracker;
+  private readonly logger: Logger;
+  private readonly calculationMode: CalculationMode;
+  private readonly rounding: RoundingPolicy;
+  private readonly gst?: GstCalculator;
+  private readonly marginGuard?: MarginGuard;
+  readonly events: DiscountEventEmitter;
+  private listingIndex?: ProductOfferIndex; // built on first use, dropped when the strategies change
 
   /**
    * Creates a new instance of DiscountService
    * @param initialStrategies - Array of strategy configurations to initialize the service with
-   * @param onDiscountApplied - Optional callback function that is called when a discount is applied
+   * @param onDiscountApplied - Optional listener subscribed to the `discount.applied` events of `events`
+   * @param options - Optional collaborators such as the voucher redemption ledger, the payment offer usage store,
+   * the campaign spend ledger, the clock and the logger, the calculation mode for campaigns that do not
+   * set their own, the rounding policy, the GST configuration, the event emitter and the price floors
+   * @throws Error if a strategy configuration, the GST configuration or a price floor rule is invalid
    */
-  constructor(initialStrategies: StrategyConfig[] = [], onDiscountApplied?: DiscountAppliedCallback) {
-    this.onDiscountApplied = onDiscountApplied;
-    this.factory = DiscountStrategyFactory.getInstance();
+  constructor(
+    initialStrategies: StrategyConfig[] = [],
+    onDiscountApplied?: DiscountEventListener<'discount.applied'>,
+    options: DiscountServiceOptions = {}
+  ) {
+    this.redemptionLedger = options.redemptionLedger ?? new InMemoryRedemptionLedger();
+    this.paymentUsageStore = options.paymentUsageStore ?? new InMemoryPaymentUsageStore();
+    this.campaignSpendLedger = options.campaignSpendLedger ?? new InMemoryCampaignSpendLedger();
+    this.clock = options.clock ?? new SystemClock();
+    this.eligibility = new EligibilityChecker(this.clock);
+    this.usageLimiter = new PaymentUsageLimiter(this.paymentUsageStore);
+    this.budgets = new CampaignBudgetTracker(this.campaignSpendLedger, this.eligibility);
+    this.logger = options.logger ?? new ConsoleLogger();
+    this.events = options.events ?? new DiscountEventBus(this.logger);
+    if (onDiscountApplied) {
+      this.events.on('discount.applied', onDiscountApplied);
+    }
+    this.calculationMode = options.calculationMode ?? 'SEQUENTIAL';
+    this.rounding = options.rounding ?? 'PER_DISCOUNT';
+    this.gst = options.gst && new GstCalculator(options.gst);
+    this.marginGuard = options.margin && new MarginGuard(options.margin, this.logger);
     this.loadStrategies(initialStrategies);
   }
 
   /**
-   * Calculates all applicable discounts for a cart of items
+   * Calculates all applicable discounts for a cart of items.
+   * Vouchers are only considered when their code is passed in options.voucherCodes.
    * @param cartItems - Array of items in the cart
    * @param customer - Customer profile information
    * @param paymentInfo - Optional payment information
-   * @returns Promise resolving to a DiscountedPrice object containing original price, final price, and applied discounts
-   * @throws Error if cartItems is invalid or customer profile is missing
+   * @param options - Optional per-call settings such as the voucher codes entered by the customer and explain mode
+   * @returns Promise resolving to a DiscountedPrice object containing original price, final price, applied discounts,
+   * the outcome of each entered voucher code and, in explain mode, a trace of every strategy.
+   * Prices are exact decimal strings in the currency of the cart; only offers in that currency apply.
+   * With a GST configuration, INR carts also get the GST of their discounted lines in `tax`.
+   * Fees passed in options.fees are returned in `fees` with the fee waivers granted on them; they are
+   * not part of finalPrice and do not count toward the minimums of product offers.
+   * Once the result is ready, its lifecycle events are published on `events` with options.correlationId,
+   * unless options.purpose is a checkout or return step (see CalculationPurpose).
+   * @throws Error if cartItems is invalid, the items are priced in more than one currency, customer profile is missing,
+   * a GST rate is missing for a category of the cart or the fees are invalid
    */
   async calculateCartDiscounts(
     cartItems: CartItem[],
     customer: CustomerProfile,
-    paymentInfo?: PaymentInfo
+    paymentInfo?: PaymentInfo,
+    options: CalculationOptions = {}
   ): Promise<DiscountedPrice> {
     if (!cartItems || !Array.isArray(cartItems) || cartItems.length === 0) {
       throw new Error('Invalid cart items');
@@ -48,8 +149,23 @@ export class DiscountService {
     if (!customer) {
       throw new Error('Invalid customer profile');
     }
+    if (options.pricedAt) {
+      return this.eligibility.runAt(options.pricedAt, () =>
+        this.calculateCartDiscounts(cartItems, customer, paymentInfo, { ...options, pricedAt: undefined })
+      );
+    }
+
+    const calculationId = randomUUID();
+    const context: DiscountEventContext = {
+      correlationId: options.correlationId ?? calculationId,
+      calculationId,
+      ...(options.orderId && { orderId: options.orderId }),
+      customerId: customer.id,
+      occurredAt: this.clock.now()
+    };
 
     // Calculate original price before any modifications
+    const currency = getCartCurrency(cartItems);
     const originalPrice = this.calculateOriginalPrice(cartItems);
 
     // Deep copy cartItems, keep currentPrice as Decimal
@@ -61,32 +177,172 @@ export class DiscountService {
       }
     }));
 
-    const strategies = this.factory.getStrategies();
-    const applier = new DiscountApplier(strategies);
-    
-    const { finalPrice, appliedDiscounts, messages } = await applier.applyDiscounts(
-      clonedCartItems,
+    const { vouchers, voucherResults } = await this.resolveVoucherCodes(
+      options.voucherCodes ?? [],
       customer,
-      paymentInfo,
-      this.onDiscountApplied
+      options.orderId
+    );
+    const candidates = this.strategies.getEntries().filter(
+      entry =>
+        (!(entry.strategy instanceof VoucherDiscountStrategy) || vouchers.includes(entry.strategy)) &&
+        (!options.discountNames || options.discountNames.includes(entry.strategy.getDiscountName()))
+    );
+    const entries = candidates.filter(entry => !(entry.strategy instanceof FeeWaiverStrategy));
+    const applier = new DiscountApplier(
+      entries,
+      this.logger,
+      this.calculationMode,
+      this.budgets,
+      options.rounding ?? this.rounding
     );
 
+    const apply = async () => {
+      const result = await applier.applyDiscounts(clonedCartItems, customer, paymentInfo);
+      // Floors are checked before the fee waivers and GST, which both depend on the discounted prices
+      const trimmedDiscounts = this.marginGuard?.protect(result, clonedCartItems, entries, currency);
+      // Fee waivers see only the discounted products, so fees never count toward their minimums
+      const appliedOffers = entries.filter(({ strategy }) =>
+        result.appliedDiscounts.has(strategy.getDiscountName()) || result.cashback.has(strategy.getDiscountName())
+      );
+      const fees = options.fees && await new FeeWaiverApplier(candidates, this.logger, this.budgets)
+        .applyWaivers(options.fees, clonedCartItems, customer, paymentInfo, currency, appliedOffers);
+      return { ...result, fees, trimmedDiscounts };
+    };
+    // The payment offer usage and campaign spend of an order being re-priced do not count against it
+    const orderId = options.orderId;
+    const { finalPrice, appliedDiscounts, cashback, lineItems, skippedDiscounts, trace, messages, fees, trimmedDiscounts } = await (orderId
+      ? this.budgets.runForOrder(orderId, () => this.usageLimiter.runForOrder(orderId, apply))
+      : apply());
+
+    // Vouchers that passed the code lookup but were not applied either failed their conditions or were
+    // left out by the applier (stacking rules, nothing left to discount, a price floor)
+    for (const result of voucherResults) {
+      const voucher = this.vouchers.find(result.code);
+      if (result.status !== 'APPLIED' || !voucher || appliedDiscounts.has(voucher.getDiscountName())) {
+        continue;
+      }
+      const record = trace.find(entry => entry.name === voucher.getDiscountName());
+      if (!record || record.status === 'NOT_ELIGIBLE') {
+        result.status = 'INELIGIBLE';
+        result.reason = record?.failure?.message ?? `Cart does not meet the conditions for voucher ${result.code}`;
+      } else {
+        result.status = 'NOT_APPLIED';
+        result.reason = record.reason ?? `Voucher ${result.code} gives no discount on this cart`;
+      }
+    }
+
+    const cashbackBenefits = this.describeCashback(entries, cashback, options.deliveryDate);
+    const nudges = this.nudgeBuilder.build(trace, options.maxNudgeShortfall, currency);
+    // GST is charged on the price after discounts, so it is worked out from the applier's line breakdown
+    const tax = this.gst && currency === GST_CURRENCY
+      ? this.gst.calculate(cartItems, lineItems, options.placeOfSupply)
+      : undefined;
+
     // If no discounts were applied, return original price
-    if (appliedDiscounts.size === 0) {
-      return {
-        originalPrice: originalPrice.toNumber(),
-        finalPrice: originalPrice.toNumber(),
+    let pricing: DiscountedPrice;
+    if (appliedDiscounts.size === 0 && cashback.size === 0) {
+      pricing = {
+        currency,
+        originalPrice: Money.of(originalPrice, currency),
+        finalPrice: Money.of(originalPrice, currency),
         appliedDiscounts: {},
+        lineItems,
+        voucherResults,
+        skippedDiscounts,
+        ...(options.explain && { trace }),
+        cashback: cashbackBenefits,
+        nudges,
+        ...(tax && { tax }),
+        ...(fees && { fees }),
+        ...(trimmedDiscounts && { trimmedDiscounts }),
         message: 'No discounts applied'
       };
+    } else {
+      pricing = {
+        currency,
+        originalPrice: Money.of(originalPrice, currency),
+        finalPrice: Money.of(finalPrice, currency),
+        appliedDiscounts: Object.fromEntries(
+          Array.from(appliedDiscounts).map(([name, amount]) => [name, Money.of(amount, currency)])
+        ),
+        lineItems,
+        voucherResults,
+        skippedDiscounts,
+        ...(options.explain && { trace }),
+        cashback: cashbackBenefits,
+        nudges,
+        ...(tax && { tax }),
+        ...(fees && { fees }),
+        ...(trimmedDiscounts && { trimmedDiscounts }),
+        message: messages.length ? messages.join(', ') : 'No discounts applied'
+      };
     }
 
-    return {
-      originalPrice: originalPrice.toNumber(),
-      finalPrice: finalPrice.toNumber(),
-      appliedDiscounts: Object.fromEntries(appliedDiscounts),
-      message: messages.length ? messages.join(', ') : 'No discounts applied'
-    };
+    if ((options.purpose ?? 'CART') === 'CART') {
+      this.emitEvents(context, pricing, trace, candidates);
+    }
+    return pricing;
+  }
+
+  /**
+   * Calculates the prices shown on listing pages, for one unit of each product and without a cart.
+   * Each product is priced from its MRP (basePrice) with the brand and category offers that apply to it;
+   * the best price adds the single voucher or instant payment offer that lowers it most. Payment offers
+   * are previewed with a payment meeting their conditions. Bundles, spend tiers and cashback are left out,
+   * as they depend on the cart or do not lower the price.
+   * Only the offers indexed under the product's brand and category are evaluated, so the cost grows
+   * with the number of products rather than products × strategies. Each product is priced in its own currency.
+   * @param products - Products to price
+   * @param options - Optional signed-in customer for tier-restricted offers
+   * @returns Promise resolving to one ListingPrice per product, in input order
+   */
+  async priceListings(products: Product[], options: ListingOptions = {}): Promise<ListingPrice[]> {
+    if (!Array.isArray(products)) {
+      throw new Error('Invalid products');
+    }
+    const customer = options.customer ?? ANONYMOUS_CUSTOMER;
+    this.listingIndex = this.listingIndex ?? new ProductOfferIndex(this.strategies.getEntries());
+
+    const prices: ListingPrice[] = [];
+    for (const product of products) {
+      const candidates = this.listingIndex.candidatesFor(product);
+      const catalogOffers = candidates.filter(
+        entry => entry.strategy instanceof BrandDiscountStrategy || entry.strategy instanceof CategoryDiscountStrategy
+      );
+      const checkoutOffers = candidates.filter(
+        entry =>
+          entry.strategy.getBenefit?.().type !== 'CASHBACK' &&
+          (entry.strategy instanceof VoucherDiscountStrategy ||
+            entry.strategy instanceof BankCardDiscountStrategy ||
+            entry.strategy instanceof PaymentMethodDiscountStrategy)
+      );
+
+      const listing = await this.priceUnit(product, catalogOffers, customer);
+      let bestPrice = listing.finalPrice;
+      let bestOffer: string | undefined;
+      for (const offer of checkoutOffers) {
+        const { strategy } = offer;
+        const paymentInfo = strategy instanceof BankCardDiscountStrategy || strategy instanceof PaymentMethodDiscountStrategy
+          ? strategy.getPreviewPaymentInfo()
+          : undefined;
+        const withOffer = await this.priceUnit(product, [...catalogOffers, offer], customer, paymentInfo);
+        if (withOffer.appliedDiscounts.has(strategy.getDiscountName()) && withOffer.finalPrice.lessThan(bestPrice)) {
+          bestPrice = withOffer.finalPrice;
+          bestOffer = strategy.getDiscountName();
+        }
+      }
+
+      prices.push({
+        productId: product.id,
+        mrp: new Decimal(product.basePrice),
+        price: listing.finalPrice,
+        catalogDiscounts: Object.fromEntries(listing.appliedDiscounts),
+        bestPrice,
+        ...(bestOffer && { bestOffer }),
+        currency: getCurrency(product.currency).code
+      });
+    }
+    return prices;
   }
 
   /**
@@ -105,24 +361,336 @@ export class DiscountService {
       return false;
     }
 
-    const strategies = this.factory.getStrategies();
-    const voucherStrategy = strategies.find(
-      strategy => strategy.getDiscountName().includes(code.toUpperCase())
-    );
+    const voucherStrategy = this.vouchers.find(code);
 
     if (!voucherStrategy) {
-      console.debug(`Voucher code ${code} not found`);
+      this.logger.debug(
+        this.vouchers.isMalformed(code) ? `Voucher code ${code} is malformed` : `Voucher code ${code} not found`
+      );
+      return false;
+    }
+
+    const unavailable = await this.checkVoucherAvailability(voucherStrategy, code, customer);
+    if (unavailable) {
+      this.logger.debug(`Voucher code ${code} unavailable: ${unavailable.reason}`);
       return false;
     }
 
     try {
+      const entry = this.entryOf(voucherStrategy);
+      if (entry?.currency !== undefined && entry.currency !== getCartCurrency(cartItems)) {
+        this.logger.debug(`Voucher code ${code} is in ${entry.currency}, not in the currency of the cart`);
+        return false;
+      }
       return await voucherStrategy.validate(cartItems, customer);
     } catch (error: any) {
-      console.debug(`Validation failed for voucher ${code}: ${error.message}`);
+      this.logger.debug(`Validation failed for voucher ${code}: ${error.message}`);
       return false;
     }
   }
 
+  /**
+   * Records the redemption of voucher codes on an order.
+   * Either all codes are redeemed or, if one of them fails, none are; codes already redeemed on the
+   * order by an earlier call are kept either way.
+   * @param orderId - The order the codes were used on
+   * @param customer - Customer profile information
+   * @param codes - Codes as entered by the customer
+   * @param pricedAt - Time the validity windows are checked at, e.g. that of the quote the order was priced
+   * with; now if omitted. The redemptions are still recorded at the current time.
+   * @returns Promise resolving to the recorded redemptions
+   * @throws Error if a code is unknown, outside its validity window or over a usage limit
+   */
+  async redeemVouchers(
+    orderId: string,
+    customer: CustomerProfile,
+    codes: string[],
+    pricedAt?: Date
+  ): Promise<VoucherRedemption[]> {
+    if (!orderId) {
+      throw new Error('Invalid order id');
+    }
+    if (!customer) {
+      throw new Error('Invalid customer profile');
+    }
+    if (pricedAt) {
+      return this.eligibility.runAt(pricedAt, () => this.redeemVouchers(orderId, customer, codes));
+    }
+
+    // The order's own redemptions are left out, so redeeming its codes again is a no-op rather than over the limit
+    const { voucherResults } = await this.resolveVoucherCodes(codes, customer, orderId);
+    const rejected = voucherResults.find(result => result.status !== 'APPLIED');
+    if (rejected) {
+      throw new Error(rejected.reason);
+    }
+
+    const redemptions: VoucherRedemption[] = [];
+    const created: VoucherRedemption[] = [];
+    try {
+      for (const { code } of voucherResults) {
+        const redemption: VoucherRedemption = {
+          code,
+          customerId: customer.id,
+          orderId,
+          redeemedAt: this.clock.now()
+        };
+        if (await this.redemptionLedger.redeem(redemption, this.vouchers.find(code)!.getUsageLimits())) {
+          created.push(redemption);
+        }
+        redemptions.push(redemption);
+      }
+    } catch (error) {
+      for (const redemption of created) {
+        await this.redemptionLedger.release(orderId, redemption.code);
+      }
+      throw error;
+    }
+
+    return redemptions;
+  }
+
+  /**
+   * Releases every voucher redeemed on an order, e.g. when the order is cancelled
+   * @param orderId - The cancelled order
+   * @returns Promise resolving to the released redemptions
+   */
+  async releaseVouchers(orderId: string): Promise<VoucherRedemption[]> {
+    return this.redemptionLedger.release(orderId);
+  }
+
+  /**
+   * Records the payment offers applied to an order against the monthly limits of the card, UPI id or wallet used.
+   * Offers without monthly limits are not recorded. Either all offers are recorded or, if one fails, none are;
+   * usage already recorded on the order by an earlier call is kept either way.
+   * @param orderId - The order that was paid
+   * @param customer - Customer profile information
+   * @param paymentInfo - The payment used; must carry an instrumentId if an applied offer has monthly limits
+   * @param pricing - The result of calculateCartDiscounts for the order
+   * @returns Promise resolving to the recorded usage
+   * @throws Error if an offer is over its monthly limit
+   */
+  async redeemPaymentOffers(
+    orderId: string,
+    customer: CustomerProfile,
+    paymentInfo: PaymentInfo,
+    pricing: DiscountedPrice
+  ): Promise<PaymentOfferUsage[]> {
+    if (!orderId) {
+      throw new Error('Invalid order id');
+    }
+    if (!customer) {
+      throw new Error('Invalid customer profile');
+    }
+
+    const usages: PaymentOfferUsage[] = [];
+    const recorded: string[] = [];
+    try {
+      for (const { strategy } of this.strategies.getEntries()) {
+        if (!(strategy instanceof BankCardDiscountStrategy || strategy instanceof PaymentMethodDiscountStrategy)) {
+          continue;
+        }
+        const limits = strategy.getMonthlyLimits();
+        const amount = pricing.appliedDiscounts[strategy.getDiscountName()]?.amount ??
+          pricing.cashback.find(benefit => benefit.name === strategy.getDiscountName())?.amount;
+        if (!limits || amount === undefined) {
+          continue;
+        }
+        if (!paymentInfo?.instrumentId) {
+          throw new Error(`${strategy.getDiscountName()} has monthly limits but the payment has no instrument id`);
+        }
+        const usage: PaymentOfferUsage = {
+          offer: strategy.getOfferId(),
+          instrumentId: paymentInfo.instrumentId,
+          customerId: customer.id,
+          orderId,
+          amount: Money.of(amount, pricing.currency),
+          usedAt: this.clock.now()
+        };
+        if (await this.paymentUsageStore.record(usage, limits)) {
+          recorded.push(usage.offer);
+        }
+        usages.push(usage);
+      }
+    } catch (error) {
+      for (const offer of recorded) {
+        await this.paymentUsageStore.release(orderId, offer);
+      }
+      throw error;
+    }
+
+    return usages;
+  }
+
+  /**
+   * Releases the payment offer usage recorded on an order, e.g. when the order is cancelled
+   * @param orderId - The cancelled order
+   * @returns Promise resolving to the released usage
+   */
+  async releasePaymentOffers(orderId: string): Promise<PaymentOfferUsage[]> {
+    return this.paymentUsageStore.release(orderId);
+  }
+
+  /**
+   * Records the discounts, cashback and fee waivers granted on an order against the budgets of their campaigns.
+   * Campaigns without a budget are not recorded. Either all spend is recorded or, if one campaign
+   * is over its budget (e.g. a concurrent checkout took the rest), none is and the order should be re-priced.
+   * Spend already recorded on the order, e.g. by an earlier reservation, is kept either way.
+   * @param orderId - The order that was placed
+   * @param pricing - The result of calculateCartDiscounts for the order
+   * @returns Promise resolving to the recorded spend
+   * @throws Error if a campaign's total or daily budget would be exceeded
+   */
+  async spendCampaignBudgets(orderId: string, pricing: DiscountedPrice): Promise<CampaignSpend[]> {
+    if (!orderId) {
+      throw new Error('Invalid order id');
+    }
+
+    const spends: CampaignSpend[] = [];
+    const recorded: string[] = [];
+    try {
+      for (const { id, strategy, budget } of this.strategies.getEntries()) {
+        const amount = pricing.appliedDiscounts[strategy.getDiscountName()]?.amount ??
+          pricing.cashback.find(benefit => benefit.name === strategy.getDiscountName())?.amount ??
+          pricing.fees?.waivers[strategy.getDiscountName()];
+        if (!budget || amount === undefined) {
+          continue;
+        }
+        const spend: CampaignSpend = {
+          campaignId: id,
+          orderId,
+          amount: Money.of(amount, pricing.currency),
+          spentAt: this.clock.now()
+        };
+        if (await this.campaignSpendLedger.spend(spend, budget)) {
+          recorded.push(id);
+        }
+        spends.push(spend);
+      }
+    } catch (error) {
+      for (const campaignId of recorded) {
+        await this.campaignSpendLedger.release(orderId, campaignId);
+      }
+      throw error;
+    }
+
+    return spends;
+  }
+
+  /**
+   * Gives the campaign spend of an order back to the budgets, e.g. when the order is cancelled
+   * @param orderId - The cancelled order
+   * @returns Promise resolving to the released spend
+   */
+  async releaseCampaignBudgets(orderId: string): Promise<CampaignSpend[]> {
+    return this.campaignSpendLedger.release(orderId);
+  }
+
+  /**
+   * Publishes the lifecycle events of a pricing calculated earlier without them, e.g. by CheckoutService
+   * when the order it was reserved for is paid. The events carry a new calculationId.
+   * @param pricing - A result of calculateCartDiscounts in explain mode
+   * @param context - The correlation id, the order id and the customer of the events
+   * @throws Error if the pricing has no trace
+   */
+  publishEvents(pricing: DiscountedPrice, context: Omit<DiscountEventContext, 'calculationId' | 'occurredAt'>): void {
+    if (!pricing?.trace) {
+      throw new Error('Events can only be published for a pricing calculated in explain mode');
+    }
+    this.emitEvents(
+      { ...context, calculationId: randomUUID(), occurredAt: this.clock.now() },
+      pricing,
+      pricing.trace,
+      this.strategies.getEntries()
+    );
+  }
+
+  /**
+   * Adds a discount strategy to this service
+   * @param config - Strategy configuration; its id defaults to the discount name
+   * @returns The id the strategy was registered under
+   * @throws Error if the id or, for vouchers, the code is already in use
+   */
+  addDiscountStrategy(config: StrategyConfig): string {
+    const entry = this.factory.createEntry(config, this.eligibility, this.logger, this.usageLimiter);
+    if (this.strategies.has(entry.id)) {
+      throw new Error(`Discount strategy ${entry.id} is already registered`);
+    }
+    if (entry.strategy instanceof VoucherDiscountStrategy) {
+      this.vouchers.register(entry.strategy);
+    }
+    this.strategies.add(entry);
+    this.listingIndex = undefined;
+    return entry.id;
+  }
+
+  /**
+   * Replaces a registered strategy, keeping its id and position
+   * @param id - Id of the strategy to replace
+   * @param config - New configuration; if it sets an id, it must be the same
+   * @throws Error if the id is not registered or the new voucher code is already in use
+   */
+  replaceDiscountStrategy(id: string, config: StrategyConfig): void {
+    const existing = this.strategies.get(id);
+    if (!existing) {
+      throw new Error(`Discount strategy ${id} is not registered`);
+    }
+    if (config.id !== undefined && config.id !== id) {
+      throw new Error(`Cannot change the id of discount strategy ${id} to ${config.id}`);
+    }
+
+    const entry = { ...this.factory.createEntry(config, this.eligibility, this.logger, this.usageLimiter), id };
+    this.unregisterVoucher(existing);
+    try {
+      if (entry.strategy instanceof VoucherDiscountStrategy) {
+        this.vouchers.register(entry.strategy);
+      }
+    } catch (error) {
+      if (existing.strategy instanceof VoucherDiscountStrategy) {
+        this.vouchers.register(existing.strategy);
+      }
+      throw error;
+    }
+    this.strategies.replace(entry);
+    this.listingIndex = undefined;
+  }
+
+  /**
+   * Removes a strategy from this service
+   * @param id - Id of the strategy to remove
+   * @returns True if a strategy was removed, false if the id was not registered
+   */
+  removeDiscountStrategy(id: string): boolean {
+    const removed = this.strategies.remove(id);
+    if (!removed) {
+      return false;
+    }
+    this.unregisterVoucher(removed);
+    this.listingIndex = undefined;
+    return true;
+  }
+
+  /**
+   * Lists the strategies registered on this service, in the order they were added
+   * @returns The registered strategies with their ids and stacking rules
+   */
+  listDiscountStrategies(): StrategyEntry[] {
+    return this.strategies.getEntries();
+  }
+
+  /**
+   * Looks up the current versions of the campaigns behind the given discounts
+   * @param discountNames - Names as used in appliedDiscounts, cashback and fee waivers
+   * @returns Version by strategy id, for the registered strategies with one of the names
+   */
+  getCampaignVersions(discountNames: string[]): Record<string, number> {
+    return Object.fromEntries(
+      this.strategies
+        .getEntries()
+        .filter(entry => discountNames.includes(entry.strategy.getDiscountName()))
+        .map(entry => [entry.id, entry.version!])
+    );
+  }
+
   /**
    * Loads and initializes discount strategies from configuration
    * @param configs - Array of strategy configurations
@@ -130,8 +698,228 @@ export class DiscountService {
    */
   private loadStrategies(configs: StrategyConfig[]): void {
     for (const config of configs) {
-      this.factory.createStrategy(config);
+      this.addDiscountStrategy(config);
+    }
+  }
+
+  /**
+   * Drops the voucher code of a removed or replaced strategy from the voucher registry
+   * @param entry - The strategy entry leaving the service
+   * @private
+   */
+  private unregisterVoucher(entry: StrategyEntry): void {
+    if (entry.strategy instanceof VoucherDiscountStrategy) {
+      this.vouchers.unregister(entry.strategy);
+    }
+  }
+
+  /**
+   * Looks up the voucher codes entered by the customer.
+   * Unknown, inactive and used-up codes are reported straight away, as are further codes of a campaign
+   * already entered; the remaining ones are returned as APPLIED and downgraded by the caller if the
+   * applier does not apply them.
+   * @param codes - Codes as entered by the customer
+   * @param customer - Customer profile, used for per-customer limits
+   * @param orderId - Order being re-priced, whose own redemptions are not counted
+   * @returns The voucher strategies to apply and a result per distinct code
+   * @private
+   */
+  private async resolveVoucherCodes(codes: string[], customer: CustomerProfile, orderId?: string): Promise<{
+    vouchers: VoucherDiscountStrategy[];
+    voucherResults: VoucherCodeResult[];
+  }> {
+    const vouchers: VoucherDiscountStrategy[] = [];
+    const voucherResults: VoucherCodeResult[] = [];
+    const seen = new Set<string>();
+
+    for (const rawCode of codes) {
+      if (!rawCode || typeof rawCode !== 'string') {
+        continue;
+      }
+      const code = VoucherRegistry.normalizeCode(rawCode);
+      if (!code || seen.has(code)) {
+        continue;
+      }
+      seen.add(code);
+
+      const voucher = this.vouchers.find(code);
+      if (!voucher) {
+        voucherResults.push(
+          this.vouchers.isMalformed(code)
+            ? { code, status: 'MALFORMED', reason: `Voucher code ${code} is not valid; check it for typos` }
+            : { code, status: 'UNKNOWN', reason: `Voucher code ${code} does not exist` }
+        );
+        continue;
+      }
+
+      const strategyId = this.entryOf(voucher)?.id;
+      if (vouchers.includes(voucher)) {
+        voucherResults.push({
+          code,
+          strategyId,
+          status: 'INELIGIBLE',
+          reason: `Voucher code ${code} belongs to campaign ${voucher.getCode()}, which is already applied by another code`
+        });
+        continue;
+      }
+
+      const unavailable = await this.checkVoucherAvailability(voucher, code, customer, orderId);
+      if (unavailable) {
+        voucherResults.push({ ...unavailable, strategyId });
+      } else {
+        vouchers.push(voucher);
+        voucherResults.push({ code, strategyId, status: 'APPLIED' });
+      }
+    }
+
+    return { vouchers, voucherResults };
+  }
+
+  /**
+   * @returns The registry entry of a strategy, or undefined if it is not registered
+   * @private
+   */
+  private entryOf(strategy: DiscountStrategy): StrategyEntry | undefined {
+    return this.strategies.getEntries().find(entry => entry.strategy === strategy);
+  }
+
+  /**
+   * Checks a voucher's validity window and the usage limits of the entered code
+   * @param voucher - The voucher strategy
+   * @param enteredCode - The code the customer entered: the campaign code or one of its issued codes
+   * @param customer - Customer profile, used for per-customer limits
+   * @param orderId - Order being re-priced, whose own redemptions are not counted
+   * @returns A result describing why the voucher cannot be used, or undefined if it can
+   * @private
+   */
+  private async checkVoucherAvailability(
+    voucher: VoucherDiscountStrategy,
+    enteredCode: string,
+    customer: CustomerProfile,
+    orderId?: string
+  ): Promise<VoucherCodeResult | undefined> {
+    const code = VoucherRegistry.normalizeCode(enteredCode);
+    if (!voucher.hasStarted()) {
+      return { code, status: 'NOT_STARTED', reason: `Voucher code ${code} is not active yet` };
+    }
+    if (voucher.isExpired()) {
+      return { code, status: 'EXPIRED', reason: `Voucher code ${code} has expired` };
+    }
+
+    const { usageLimit, perCustomerLimit } = voucher.getUsageLimits();
+    if (usageLimit !== undefined && (await this.redemptionLedger.countRedemptions(code, undefined, orderId)) >= usageLimit) {
+      return { code, status: 'LIMIT_REACHED', reason: `Voucher code ${code} has reached its usage limit` };
+    }
+    if (
+      perCustomerLimit !== undefined &&
+      customer &&
+      (await this.redemptionLedger.countRedemptions(code, customer.id, orderId)) >= perCustomerLimit
+    ) {
+      return {
+        code,
+        status: 'LIMIT_REACHED',
+        reason: `Voucher code ${code} has already been used the maximum number of times`
+      };
     }
+    return undefined;
+  }
+
+  /**
+   * Prices one unit of a product, starting from its MRP
+   * @param product - The product
+   * @param entries - The offers to apply
+   * @param customer - Customer profile, anonymous on public listing pages
+   * @param paymentInfo - Payment used to preview a payment offer
+   * @returns The applier's result for the single-unit cart, kept above the product's price floor
+   * @private
+   */
+  private async priceUnit(product: Product, entries: StrategyEntry[], customer: CustomerProfile, paymentInfo?: PaymentInfo) {
+    const unit: CartItem = {
+      product: { ...product, currentPrice: new Decimal(product.basePrice) },
+      quantity: 1,
+      size: ''
+    };
+    const result = await new DiscountApplier(entries, this.logger, this.calculationMode, this.budgets, this.rounding)
+      .applyDiscounts([unit], customer, paymentInfo);
+    this.marginGuard?.protect(result, [unit], entries, getCurrency(product.currency).code);
+    return result;
+  }
+
+  /**
+   * Publishes the lifecycle events of a finished calculation.
+   * Amounts are taken from the result, so they are what the customer is charged or credited.
+   * @param context - Correlation fields shared by every event of the calculation
+   * @param pricing - The result returned to the caller
+   * @param trace - The applier's trace, one entry per product offer in priority order
+   * @param entries - The strategies the cart was priced with, including fee waivers
+   * @private
+   */
+  private emitEvents(
+    context: DiscountEventContext,
+    pricing: DiscountedPrice,
+    trace: StrategyTrace[],
+    entries: StrategyEntry[]
+  ): void {
+    for (const evaluation of trace) {
+      const { id: strategyId, name } = evaluation;
+      this.events.emit('strategy.evaluated', { ...context, evaluation });
+      if (evaluation.status !== 'APPLIED') {
+        this.events.emit('discount.rejected', {
+          ...context,
+          strategyId,
+          name,
+          status: evaluation.status,
+          reason: evaluation.failure?.message ?? evaluation.reason ?? 'The calculated discount was zero',
+          ...(evaluation.failure && { failure: evaluation.failure })
+        });
+        continue;
+      }
+
+      const isCashback = evaluation.benefitType === 'CASHBACK';
+      const amount = isCashback
+        ? pricing.cashback.find(benefit => benefit.name === name)?.amount
+        : pricing.appliedDiscounts[name]?.amount;
+      if (!amount) {
+        this.logger.debug(`Discount ${name} is not in the result; no event published for it`);
+        continue;
+      }
+      this.events.emit('discount.applied', { ...context, strategyId, name, kind: isCashback ? 'CASHBACK' : 'INSTANT', amount });
+      if (evaluation.cap) {
+        this.events.emit('discount.capped', { ...context, strategyId, name, cap: evaluation.cap, amount });
+      }
+    }
+
+    for (const [name, amount] of Object.entries(pricing.fees?.waivers ?? {})) {
+      const entry = entries.find(candidate => candidate.strategy.getDiscountName() === name);
+      if (!entry) {
+        this.logger.debug(`Fee waiver ${name} is no longer registered; no event published for it`);
+        continue;
+      }
+      this.events.emit('discount.applied', { ...context, strategyId: entry.id, name, kind: 'FEE_WAIVER', amount });
+    }
+    this.events.emit('calculation.completed', { ...context, pricing });
+  }
+
+  /**
+   * Adds the credit date and funding party to the cashback earned on a cart
+   * @param entries - The strategies the cart was priced with
+   * @param cashback - Cashback amounts by discount name, as returned by the applier
+   * @param deliveryDate - Expected delivery; credit dates are counted from the pricing time if omitted
+   * @returns One entry per cashback offer, in the order they were applied
+   * @private
+   */
+  private describeCashback(
+    entries: StrategyEntry[],
+    cashback: Map<string, Decimal>,
+    deliveryDate?: Date
+  ): CashbackBenefit[] {
+    const creditFrom = deliveryDate ?? this.eligibility.now();
+    return Array.from(cashback).map(([name, amount]) => {
+      const terms = entries.find(entry => entry.strategy.getDiscountName() === name)!.strategy.getBenefit!();
+      const expectedCreditDate = new Date(creditFrom);
+      expectedCreditDate.setUTCDate(expectedCreditDate.getUTCDate() + (terms.creditAfterDays ?? 0));
+      return { name, amount, expectedCreditDate, fundedBy: terms.fundedBy };
+    });
   }
 
   /**
@@ -0,0 +1,253 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartItem,
+  CashbackAdjustment,
+  DiscountedPrice,
+  OfferAdjustment,
+  PricedOrder,
+  ReturnedItem,
+  ReturnedLine,
+  ReturnResult
+} from '../models/interface';
+import { DiscountService } from './DiscountService';
+import { formatAmount, roundToMinorUnit } from '../money/Currency';
+import { Money } from '../money/Money';
+
+/**
+ * Works out refunds for partial returns.
+ * The items the customer keeps are re-priced with the offers and fees of the original order
+ * (as of when it was priced), and the refund is the difference between the two payable totals:
+ * the lines, plus GST when it is added on top of the prices, plus the fees after their waivers.
+ * Offers whose conditions the kept items no longer meet are clawed back from the refund.
+ * Cashback is re-priced too; what the kept items no longer earn is reported apart from the refund.
+ */
+export class ReturnService {
+  /**
+   * @param discountService - The service that priced the orders
+   */
+  constructor(private readonly discountService: DiscountService) {}
+
+  /**
+   * Calculates the refund for returned units of an order
+   * @param order - The order and the pricing returned for it by calculateCartDiscounts
+   * @param returns - Units sent back, by product id and size
+   * @returns Promise resolving to the refund, the re-priced remaining items and what happened to each offer
+   * and each cashback
+   * @throws Error if a returned line is not part of the order or more units are returned than were ordered
+   */
+  async processReturn(order: PricedOrder, returns: ReturnedItem[]): Promise<ReturnResult> {
+    if (!order || !order.orderId || !order.pricing) {
+      throw new Error('Invalid order');
+    }
+    if (!Array.isArray(returns) || returns.length === 0) {
+      throw new Error('No items to return');
+    }
+
+    const returnedQuantities = this.matchReturnedLines(order, returns);
+    const returnedLines = this.prorateReturnedLines(order, returnedQuantities);
+
+    const remainingItems: CartItem[] = order.cartItems
+      .map((item, index) => ({ ...item, quantity: item.quantity - returnedQuantities[index] }))
+      .filter(item => item.quantity > 0);
+    const remainingPricing = remainingItems.length > 0
+      ? await this.discountService.calculateCartDiscounts(remainingItems, order.customer, order.paymentInfo, {
+          voucherCodes: order.voucherCodes,
+          discountNames: [
+            ...Object.keys(order.pricing.appliedDiscounts),
+            ...order.pricing.cashback.map(benefit => benefit.name),
+            ...Object.keys(order.pricing.fees?.waivers ?? {})
+          ],
+          orderId: order.orderId,
+          pricedAt: order.pricedAt,
+          rounding: order.rounding,
+          placeOfSupply: order.placeOfSupply,
+          fees: order.pricing.fees?.charges.map(({ type, amount }) => ({ type, amount })),
+          explain: true,
+          purpose: 'RETURN'
+        })
+      : this.emptyPricing(order.pricing.currency);
+
+    const offerAdjustments = this.adjustOffers(order, returnedLines, remainingPricing);
+    const cashbackAdjustments = this.adjustCashback(order, remainingPricing);
+    const difference = this.payableTotal(order.pricing).minus(this.payableTotal(remainingPricing));
+
+    return {
+      orderId: order.orderId,
+      returnedLines,
+      returnedItemsValue: returnedLines.reduce((acc, line) => acc.plus(line.paidAmount), new Decimal(0)),
+      clawback: offerAdjustments.reduce((acc, offer) => acc.plus(offer.clawback), new Decimal(0)),
+      refundAmount: Decimal.max(difference, 0),
+      unrecoveredAmount: Decimal.max(difference.negated(), 0),
+      offerAdjustments,
+      cashbackAdjustments,
+      cashbackClawback: cashbackAdjustments.reduce((acc, cashback) => acc.plus(cashback.clawback), new Decimal(0)),
+      remainingPricing
+    };
+  }
+
+  /**
+   * Maps the returned items onto the order lines
+   * @returns The returned quantity per order line, in cart order
+   */
+  private matchReturnedLines(order: PricedOrder, returns: ReturnedItem[]): number[] {
+    const returned = order.cartItems.map(() => 0);
+
+    for (const item of returns) {
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        throw new Error(`Invalid return quantity for item ${item.productId} (${item.size})`);
+      }
+      let quantity = item.quantity;
+      // The same product and size may appear on several lines; fill them in cart order
+      order.cartItems.forEach((cartItem, index) => {
+        if (quantity === 0 || cartItem.product.id !== item.productId || cartItem.size !== item.size) {
+          return;
+        }
+        const taken = Math.min(quantity, cartItem.quantity - returned[index]);
+        returned[index] += taken;
+        quantity -= taken;
+      });
+      if (quantity === item.quantity) {
+        throw new Error(`Item ${item.productId} (${item.size}) is not part of order ${order.orderId}`);
+      }
+      if (quantity > 0) {
+        throw new Error(`Cannot return more units of item ${item.productId} (${item.size}) than were ordered`);
+      }
+    }
+
+    return returned;
+  }
+
+  /**
+   * Splits the paid amount and discounts of each line over its units.
+   * Partial returns are rounded to the minor unit; returning every unit gives back the exact line amounts.
+   */
+  private prorateReturnedLines(order: PricedOrder, returnedQuantities: number[]): ReturnedLine[] {
+    const returnedLines: ReturnedLine[] = [];
+
+    order.pricing.lineItems.forEach((line, index) => {
+      const quantity = returnedQuantities[index];
+      if (quantity === 0) {
+        return;
+      }
+      const prorate = ({ amount, currency }: Money): Decimal =>
+        quantity === line.quantity
+          ? amount
+          : roundToMinorUnit(amount.times(quantity).div(line.quantity), currency);
+
+      returnedLines.push({
+        productId: line.productId,
+        size: line.size,
+        quantity,
+        paidAmount: prorate(line.finalLinePrice),
+        discounts: Object.fromEntries(
+          Object.entries(line.discounts).map(([name, amount]) => [name, prorate(amount)])
+        )
+      });
+    });
+
+    return returnedLines;
+  }
+
+  private adjustOffers(
+    order: PricedOrder,
+    returnedLines: ReturnedLine[],
+    remainingPricing: DiscountedPrice
+  ): OfferAdjustment[] {
+    return Object.entries(order.pricing.appliedDiscounts).map(([name, { amount: originalAmount }]) => {
+      const returnedShare = returnedLines.reduce(
+        (acc, line) => acc.plus(line.discounts[name] ?? 0),
+        new Decimal(0)
+      );
+      const repricedAmount = remainingPricing.appliedDiscounts[name]?.amount ?? new Decimal(0);
+      const expectedAmount = originalAmount.minus(returnedShare);
+      const clawback = expectedAmount.minus(repricedAmount);
+
+      let status: OfferAdjustment['status'] = returnedShare.isZero() ? 'KEPT' : 'PRORATED';
+      let reason: string | undefined;
+      if (repricedAmount.isZero() && expectedAmount.greaterThan(0)) {
+        status = 'LOST';
+        reason = this.describeLostOffer(name, remainingPricing);
+      } else if (clawback.greaterThan(0)) {
+        status = 'REDUCED';
+        const currency = order.pricing.currency;
+        reason = `Remaining items qualify for ${formatAmount(repricedAmount, currency)} instead of ${formatAmount(expectedAmount, currency)}`;
+      }
+
+      return {
+        name,
+        status,
+        originalAmount,
+        returnedShare,
+        repricedAmount,
+        clawback,
+        ...(reason && { reason })
+      };
+    });
+  }
+
+  private adjustCashback(order: PricedOrder, remainingPricing: DiscountedPrice): CashbackAdjustment[] {
+    return order.pricing.cashback.map(({ name, amount }) => {
+      const originalAmount = new Decimal(amount);
+      const repricedAmount = new Decimal(remainingPricing.cashback.find(benefit => benefit.name === name)?.amount ?? 0);
+      const clawback = originalAmount.minus(repricedAmount);
+
+      let status: CashbackAdjustment['status'] = 'KEPT';
+      let reason: string | undefined;
+      if (repricedAmount.isZero() && originalAmount.greaterThan(0)) {
+        status = 'LOST';
+        reason = this.describeLostOffer(name, remainingPricing);
+      } else if (clawback.greaterThan(0)) {
+        status = 'REDUCED';
+      }
+
+      return { name, status, originalAmount, repricedAmount, clawback, ...(reason && { reason }) };
+    });
+  }
+
+  private describeLostOffer(name: string, remainingPricing: DiscountedPrice): string {
+    if (!remainingPricing.lineItems.length) {
+      return 'Every item of the order was returned';
+    }
+    const trace = remainingPricing.trace?.find(entry => entry.name === name);
+    if (trace?.failure) {
+      return trace.failure.message;
+    }
+    if (trace?.reason) {
+      return trace.reason;
+    }
+    // A voucher rejected at lookup (e.g. expired since) has no trace; its code result names the campaign
+    const strategyId = trace?.id ??
+      this.discountService.listDiscountStrategies().find(entry => entry.strategy.getDiscountName() === name)?.id;
+    const voucher = strategyId !== undefined
+      ? remainingPricing.voucherResults.find(result => result.status !== 'APPLIED' && result.strategyId === strategyId)
+      : undefined;
+    return voucher?.reason ?? 'No longer applies to the remaining items';
+  }
+
+  /**
+   * What the customer pays for a pricing: the invoice total when GST was worked out (the lines, with GST
+   * on top if prices exclude it), else the lines, plus the fees left after their waivers
+   */
+  private payableTotal(pricing: DiscountedPrice): Decimal {
+    const lines = pricing.tax?.invoiceTotal ??
+      Money.sum(pricing.lineItems.map(line => line.finalLinePrice), pricing.currency).amount;
+    return new Decimal(lines).plus(pricing.fees?.payableFees ?? 0);
+  }
+
+  private emptyPricing(currency: string): DiscountedPrice {
+    const zero = Money.zero(currency);
+    return {
+      currency,
+      originalPrice: zero,
+      finalPrice: zero,
+      appliedDiscounts: {},
+      lineItems: [],
+      voucherResults: [],
+      skippedDiscounts: [],
+      trace: [],
+      cashback: [],
+      nudges: [],
+      message: 'No items remaining'
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { Decimal } from 'decimal.js';
+import {
+  CartItem,
+  GstConfig,
+  GstSlab,
+  GstSupplyType,
+  LineItemBreakdown,
+  LineTax,
+  TaxBreakdown
+} from '../models/interface';
+import { roundToMinorUnit } from '../money/Currency';
+
+// GST is only charged on carts priced in rupees
+export const GST_CURRENCY = 'INR';
+
+const PERCENTAGE_DIVISOR = new Decimal(100);
+
+/**
+ * GST on the lines of a priced cart. Runs after the DiscountApplier: every line is taxed on its price
+ * after discounts, and its slab is looked up again for the discounted unit value, so a discount can
+ * move a line into a lower slab. Amounts are rounded to the paisa per line and tax component.
+ */
+export class GstCalculator {
+  private readonly rules: Map<string, GstSlab[]>;
+
+  /**
+   * @throws Error if the seller state is missing, a rate is outside 0-100, a category has more than
+   * one rule, or a category's slabs are not in ascending order ending with an open slab
+   */
+  constructor(private readonly config: GstConfig) {
+    if (!config.sellerState || typeof config.sellerState !== 'string') {
+      throw new Error('Invalid seller state');
+    }
+    if (config.defaultRate !== undefined) {
+      this.assertValidRate(config.defaultRate);
+    }
+    this.rules = new Map();
+    for (const rule of config.rules) {
+      if (this.rules.has(rule.category)) {
+        throw new Error(`GST category ${rule.category} has more than one rule`);
+      }
+      this.assertValidSlabs(rule.category, rule.slabs);
+      this.rules.set(rule.category, rule.slabs.map(slab => ({
+        rate: new Decimal(slab.rate),
+        ...(slab.upTo !== undefined && { upTo: new Decimal(slab.upTo) })
+      })));
+    }
+  }
+
+  /**
+   * @param cartItems - The cart as priced, for the product categories
+   * @param lineItems - The applier's line breakdown, in the same order as cartItems
+   * @param placeOfSupply - State code of the delivery address; the seller's state if omitted
+   * @returns GST per line and for the cart
+   * @throws Error if the line items do not match the cart items or are not in INR, or a category has no
+   * rule and there is no default rate
+   */
+  calculate(cartItems: CartItem[], lineItems: LineItemBreakdown[], placeOfSupply?: string): TaxBreakdown {
+    const supplyType: GstSupplyType = !placeOfSupply ||
+      placeOfSupply.trim().toUpperCase() === this.config.sellerState.trim().toUpperCase()
+      ? 'INTRA_STATE'
+      : 'INTER_STATE';
+    if (cartItems.length !== lineItems.length) {
+      throw new Error(`Expected ${cartItems.length} line items for the cart, got ${lineItems.length}`);
+    }
+    const foreign = lineItems.find(line => line.finalLinePrice.currency !== GST_CURRENCY);
+    if (foreign) {
+      throw new Error(`GST is charged on ${GST_CURRENCY} amounts, got ${foreign.finalLinePrice.currency}`);
+    }
+
+    const lines = lineItems.map((line, index) => this.taxLine(cartItems[index], line, supplyType));
+    const sum = (pick: (line: LineTax) => Decimal) => lines.reduce((acc, line) => acc.plus(pick(line)), new Decimal(0));
+
+    return {
+      supplyType,
+      pricesIncludeTax: this.config.pricesIncludeTax,
+      lines,
+      taxableValue: sum(line => line.taxableValue),
+      cgst: sum(line => line.cgst),
+      sgst: sum(line => line.sgst),
+      igst: sum(line => line.igst),
+      totalTax: sum(line => line.totalTax),
+      invoiceTotal: sum(line => line.grossValue)
+    };
+  }
+
+  private taxLine(item: CartItem, line: LineItemBreakdown, supplyType: GstSupplyType): LineTax {
+    const category = item.product.category;
+    const slabs = this.slabsFor(category);
+    const rate = this.findSlab(category, slabs, line.finalUnitPrice.amount).rate;
+    const listRate = this.findSlab(category, slabs, line.originalUnitPrice.amount).rate;
+    const linePrice = line.finalLinePrice.amount;
+
+    // With tax-inclusive prices the line price is the gross value and GST is taken out of it
+    const taxableBeforeRounding = this.config.pricesIncludeTax
+      ? linePrice.times(PERCENTAGE_DIVISOR).div(PERCENTAGE_DIVISOR.plus(rate))
+      : linePrice;
+    const zero = new Decimal(0);
+    const halfTax = supplyType === 'INTRA_STATE'
+      ? roundToMinorUnit(taxableBeforeRounding.times(rate).div(PERCENTAGE_DIVISOR).div(2), GST_CURRENCY)
+      : zero;
+    const igst = supplyType === 'INTER_STATE'
+      ? roundToMinorUnit(taxableBeforeRounding.times(rate).div(PERCENTAGE_DIVISOR), GST_CURRENCY)
+      : zero;
+    const totalTax = halfTax.times(2).plus(igst);
+    const taxableValue = this.config.pricesIncludeTax ? linePrice.minus(totalTax) : linePrice;
+
+    return {
+      productId: line.productId,
+      size: line.size,
+      quantity: line.quantity,
+      rate,
+      listRate,
+      taxableValue,
+      cgst: halfTax,
+      sgst: halfTax,
+      igst,
+      totalTax,
+      grossValue: taxableValue.plus(totalTax)
+    };
+  }
+
+  private slabsFor(category: string): GstSlab[] {
+    const slabs = this.rules.get(category);
+    if (slabs) {
+      return slabs;
+    }
+    if (this.config.defaultRate === undefined) {
+      throw new Error(`No GST rate configured for category ${category}`);
+    }
+    return [{ rate: new Decimal(this.config.defaultRate) }];
+  }
+
+  /**
+   * The lowest slab whose range holds the taxable value of one unit at that slab's rate.
+   * With tax-inclusive prices the taxable value depends on the rate, so it is worked out per slab.
+   * @throws Error if no slab holds the price, which the open last slab rules out for validated slabs
+   */
+  private findSlab(category: string, slabs: GstSlab[], unitPrice: Decimal): GstSlab {
+    const slab = slabs.find(slab => {
+      if (slab.upTo === undefined) {
+        return true;
+      }
+      const taxable = this.config.pricesIncludeTax
+        ? unitPrice.times(PERCENTAGE_DIVISOR).div(PERCENTAGE_DIVISOR.plus(slab.rate))
+        : unitPrice;
+      return taxable.lessThanOrEqualTo(slab.upTo);
+    });
+    if (!slab) {
+      throw new Error(`No GST slab of ${category} holds a unit price of ${unitPrice}`);
+    }
+    return slab;
+  }
+
+  private assertValidSlabs(category: string, slabs: GstSlab[]): void {
+    if (!Array.isArray(slabs) || slabs.length === 0) {
+      throw new Error(`GST category ${category} has no slabs`);
+    }
+    slabs.forEach((slab, index) => {
+      this.assertValidRate(slab.rate);
+      const isLast = index === slabs.length - 1;
+      const previous = slabs[index - 1]?.upTo;
+      if (
+        (slab.upTo === undefined) !== isLast ||
+        (slab.upTo !== undefined && previous !== undefined && new Decimal(slab.upTo).lessThanOrEqualTo(previous))
+      ) {
+        throw new Error(`GST slabs of ${category} must be in ascending order, with only the last one open`);
+      }
+    });
+  }
+
+  private assertValidRate(rate: Decimal): void {
+    const value = new Decimal(rate);
+    if (value.lessThan(0) || value.greaterThan(100)) {
+      throw new Error('Invalid GST rate');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { Decimal } from 'decimal.js';
+import { describe, it, expect } from '@jest/globals';
+import { CampaignConfigError, CampaignConfigLoader } from '../config/CampaignConfigLoader';
+import { DiscountService } from '../services/DiscountService';
+import { cartItems, customer, paymentInfo } from './fakeData';
+
+describe('CampaignConfigLoader', () => {
+  const loader = new CampaignConfigLoader();
+
+  const campaignJson = JSON.stringify([
+    { type: 'brand', budget: { total: '500000', daily: 20000 }, config: { brand: 'PUMA', discountPercentage: 40 } },
+    { type: 'category', config: { category: 'T-shirts', discountPercentage: '10' } },
+    {
+      type: 'voucher',
+      id: 'super69',
+      notCombinableWith: ['bank-offers'],
+      config: { code: 'SUPER69', discountPercentage: '69', minimumCartAmount: '1000', validUntil: '2999-12-31T23:59:59Z' },
+    },
+    { type: 'bank', stackingGroup: 'bank-offers', config: { bankName: 'ICICI', flatAmount: 150.5 } },
+  ]);
+
+  it('should convert amounts to Decimal and dates to Date', () => {
+    const configs = loader.load(campaignJson);
+
+    expect(configs).toHaveLength(4);
+    expect(configs[0].budget).toEqual({ total: new Decimal(500000), daily: new Decimal(20000) });
+    expect(configs[1].config).toEqual({ category: 'T-shirts', discountPercentage: new Decimal(10) });
+    expect(configs[2]).toMatchObject({ type: 'voucher', id: 'super69', notCombinableWith: ['bank-offers'] });
+    const [, , voucher, bank] = configs;
+    if (voucher.type !== 'voucher' || bank.type !== 'bank') {
+      throw new Error(`Expected a voucher and a bank config, got ${voucher.type} and ${bank.type}`);
+    }
+    expect(voucher.config.minimumCartAmount).toEqual(new Decimal(1000));
+    expect(voucher.config.validUntil).toEqual(new Date('2999-12-31T23:59:59Z'));
+    expect(bank.config.flatAmount).toEqual(new Decimal('150.5'));
+  });
+
+  it('should produce configs the discount service can use', async () => {
+    const service = new DiscountService(loader.load(campaignJson));
+
+    const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+      voucherCodes: ['SUPER69'],
+    });
+
+    expect(result.finalPrice.toString()).toBe('334.80');
+  });
+
+  it('should report every invalid field with its path', () => {
+    const invalid = [
+      { type: 'brand', config: { brand: 'PUMA', currency: 'GBP', discountPercentage: 'forty' } },
+      { type: 'voucher', config: { discountPercentge: 10 } },
+      { type: 'loyalty', config: {} },
+      { type: 'tiered', config: { name: 'Tiers', tiers: [{ threshold: 2000 }] } },
+      { type: 'bank', config: { bankName: 'ICICI', discountPercentage: 150, validFrom: 'soon' } },
+      { type: 'feeWaiver', config: { name: 'Free shipping', feeTypes: ['SHIPPING', 'GIFT_WRAP'] } },
+    ];
+
+    let error: CampaignConfigError | undefined;
+    try {
+      loader.load(invalid);
+    } catch (thrown) {
+      error = thrown as CampaignConfigError;
+    }
+
+    expect(error).toBeInstanceOf(CampaignConfigError);
+    expect(error!.issues).toEqual([
+      { path: 'campaigns[0].config.currency', message: 'must be one of INR, USD, AED' },
+      { path: 'campaigns[0].config.discountPercentage', message: 'must be a number or a numeric string' },
+      { path: 'campaigns[1].config.discountPercentge', message: 'is not a known field' },
+      { path: 'campaigns[1].config.code', message: 'is required' },
+      { path: 'campaigns[1].config', message: 'requires discountPercentage or flatAmount' },
+      { path: 'campaigns[2].type', message: 'must be one of brand, category, voucher, bank, payment, bundle, tiered, feeWaiver' },
+      { path: 'campaigns[3].config.tiers[0]', message: 'requires discountPercentage or flatAmount' },
+      { path: 'campaigns[4].config.validFrom', message: 'must be an ISO 8601 date string' },
+      { path: 'campaigns[4].config.discountPercentage', message: 'must be at most 100' },
+      { path: 'campaigns[5].config.feeTypes', message: 'must only contain SHIPPING, COD, CONVENIENCE' },
+    ]);
+    expect(error!.message).toContain('campaigns[1].config.code: is required');
+  });
+
+  it('should reject input that is not a JSON array', () => {
+    expect(() => loader.load('{ not json')).toThrow(CampaignConfigError);
+    expect(() => loader.load({ campaigns: [] })).toThrow('campaigns: must be an array');
+  });
+});
@@ -0,0 +1,199 @@
+import { Decimal } from 'decimal.js';
+import { describe, beforeEach, it, expect } from '@jest/globals';
+import { DiscountService } from '../services/DiscountService';
+import { CheckoutService } from '../services/CheckoutService';
+import { StrategyConfig } from '../models/interface';
+import { InMemoryCustomerProfileStore } from '../ledgers/InMemoryCustomerProfileStore';
+import { Money } from '../money/Money';
+import { cartItems, customer, paymentInfo } from './fakeData';
+
+describe('CheckoutService', () => {
+  const now = { value: new Date('2025-06-15T10:00:00Z') };
+  const clock = { now: () => now.value };
+
+  const campaigns: StrategyConfig[] = [
+    {
+      type: 'brand',
+      id: 'puma-40',
+      budget: { total: new Decimal(1000) },
+      config: { brand: 'PUMA', discountPercentage: new Decimal(40) },
+    },
+    {
+      type: 'voucher',
+      id: 'welcome',
+      config: { code: 'WELCOME', issuedCodes: ['WELCOME-A1', 'WELCOME-B2'], flatAmount: new Decimal(100) },
+    },
+  ];
+
+  let discountService: DiscountService;
+  let customers: InMemoryCustomerProfileStore;
+  let checkout: CheckoutService;
+
+  beforeEach(() => {
+    now.value = new Date('2025-06-15T10:00:00Z');
+    discountService = new DiscountService(campaigns, undefined, { clock });
+    customers = new InMemoryCustomerProfileStore([customer]);
+    checkout = new CheckoutService(discountService, { secret: 'test-secret', quoteTtlSeconds: 600, customers, clock });
+  });
+
+  it('should quote, reserve and commit an order, holding its voucher and budget', async () => {
+    const correlationIds: string[] = [];
+    const applied: [string, string | undefined][] = [];
+    discountService.events.on('calculation.completed', event => correlationIds.push(event.correlationId));
+    discountService.events.on('discount.applied', event => applied.push([event.name, event.orderId]));
+    const quote = await checkout.quote(cartItems, customer, undefined, { voucherCodes: ['WELCOME-A1'] });
+    now.value = new Date('2025-06-15T10:05:00Z');
+
+    const reservation = await checkout.reserve(quote.token, 'order-1', cartItems);
+    const again = await checkout.reserve(quote.token, 'order-1', cartItems);
+    // Neither the quote nor the reservation is a charge yet
+    expect(correlationIds).toEqual([]);
+    const committed = await checkout.commit('order-1');
+
+    // 2000 → brand 800 → 1200 → voucher 100 → 1100
+    expect(quote.pricing.finalPrice.toString()).toBe('1100.00');
+    expect(quote.campaignVersions).toEqual({ 'puma-40': 1, welcome: 2 });
+    expect(quote.expiresAt).toEqual(new Date('2025-06-15T10:10:00Z'));
+    expect(reservation).toMatchObject({ orderId: 'order-1', quoteId: quote.quoteId, status: 'RESERVED' });
+    expect(again).toEqual(reservation);
+    expect(committed.status).toBe('COMMITTED');
+    expect(await checkout.commit('order-1')).toEqual(committed);
+    // Published once, on the first commit
+    expect(correlationIds).toEqual([quote.quoteId]);
+    expect(applied).toEqual([
+      ['Brand Discount - PUMA (40%)', 'order-1'],
+      ['Voucher Discount - WELCOME (₹100 off)', 'order-1'],
+    ]);
+    await expect(checkout.release('order-1')).rejects.toThrow('Order order-1 is committed and can no longer be released');
+
+    const next = await discountService.calculateCartDiscounts(cartItems, customer, undefined, {
+      voucherCodes: ['WELCOME-A1'],
+    });
+    expect(next.voucherResults[0].status).toBe('LIMIT_REACHED');
+    expect(next.appliedDiscounts['Brand Discount - PUMA (40%)']).toEqual(Money.of(200));
+  });
+
+  it('should reject tampered, expired and outdated quotes', async () => {
+    const quote = await checkout.quote(cartItems, customer);
+    const [payload, signature] = quote.token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const tampered = Buffer.from(JSON.stringify({ ...claims, finalPrice: '1.00' })).toString('base64url');
+
+    await expect(checkout.reserve(`${tampered}.${signature}`, 'order-1', cartItems)).rejects.toThrow(
+      'Invalid quote signature'
+    );
+    await expect(
+      new CheckoutService(discountService, { secret: 'other-secret', customers, clock }).reserve(
+        quote.token,
+        'order-1',
+        cartItems
+      )
+    ).rejects.toThrow('Invalid quote signature');
+
+    discountService.replaceDiscountStrategy('puma-40', {
+      type: 'brand',
+      budget: { total: new Decimal(1000) },
+      config: { brand: 'PUMA', discountPercentage: new Decimal(30) },
+    });
+    await expect(checkout.reserve(quote.token, 'order-1', cartItems)).rejects.toThrow(
+      `Campaign puma-40 has changed since quote ${quote.quoteId} was issued`
+    );
+
+    now.value = new Date('2025-06-15T10:10:01Z');
+    await expect(checkout.reserve(quote.token, 'order-1', cartItems)).rejects.toThrow(
+      `Quote ${quote.quoteId} expired at 2025-06-15T10:10:00.000Z`
+    );
+  });
+
+  it('should keep personal data out of the token and only reserve the quoted cart', async () => {
+    const quote = await checkout.quote(cartItems, customer);
+    const payload = Buffer.from(quote.token.split('.')[0], 'base64url').toString('utf8');
+    const claims = JSON.parse(payload);
+    const otherCart = [{ ...cartItems[0], quantity: 2 }];
+
+    expect(claims.customerId).toBe(customer.id);
+    expect(payload).not.toContain(customer.email);
+    expect(claims).not.toHaveProperty('cartItems');
+    await expect(checkout.reserve(quote.token, 'order-1', otherCart)).rejects.toThrow(
+      `Cart or payment does not match quote ${quote.quoteId}`
+    );
+    await expect(checkout.reserve(quote.token, 'order-1', cartItems, paymentInfo)).rejects.toThrow(
+      `Cart or payment does not match quote ${quote.quoteId}`
+    );
+    await expect(
+      new CheckoutService(discountService, {
+        secret: 'test-secret',
+        customers: new InMemoryCustomerProfileStore(),
+        clock,
+      }).reserve(quote.token, 'order-1', cartItems)
+    ).rejects.toThrow(`Customer ${customer.id} of quote ${quote.quoteId} not found`);
+    expect(await checkout.reserve(quote.token, 'order-1', cartItems)).toMatchObject({ customerId: customer.id });
+  });
+
+  it('should redeem a voucher that expired after the quote was issued', async () => {
+    discountService.addDiscountStrategy({
+      type: 'voucher',
+      id: 'flash',
+      config: { code: 'FLASH', flatAmount: new Decimal(50), validUntil: new Date('2025-06-15T10:02:00Z') },
+    });
+    const quote = await checkout.quote(cartItems, customer, undefined, { voucherCodes: ['FLASH'] });
+    now.value = new Date('2025-06-15T10:05:00Z');
+
+    const reservation = await checkout.reserve(quote.token, 'order-1', cartItems);
+
+    expect(reservation.status).toBe('RESERVED');
+    expect(reservation.pricing.appliedDiscounts['Voucher Discount - FLASH (₹50 off)']).toEqual(Money.of(50));
+  });
+
+  it('should refuse a quote whose budget was taken by another order, holding nothing', async () => {
+    const first = await checkout.quote(cartItems, customer, undefined, { voucherCodes: ['WELCOME-B2'] });
+    const second = await checkout.quote(cartItems, customer);
+
+    await checkout.reserve(second.token, 'order-2', cartItems);
+
+    await expect(checkout.reserve(first.token, 'order-1', cartItems)).rejects.toThrow(
+      `Quote ${first.quoteId} can no longer be honoured; request a new quote`
+    );
+    expect(await discountService.validateDiscountCode('WELCOME-B2', cartItems, customer)).toBe(true);
+  });
+
+  it('should carry fees through the quote and spend the budget of the fee waivers', async () => {
+    discountService.addDiscountStrategy({
+      type: 'feeWaiver',
+      id: 'free-shipping',
+      budget: { total: new Decimal(60) },
+      config: { name: 'Free shipping', feeTypes: ['SHIPPING'] },
+    });
+    const fees = [{ type: 'SHIPPING' as const, amount: new Decimal(49) }];
+
+    const first = await checkout.quote(cartItems, customer, undefined, { fees });
+    const reservation = await checkout.reserve(first.token, 'order-1', cartItems);
+    const second = await checkout.quote(cartItems, customer, undefined, { fees });
+
+    expect(first.campaignVersions).toEqual({ 'puma-40': 1, 'free-shipping': 3 });
+    expect(reservation.pricing.fees!.waivers).toEqual({ 'Fee Waiver - Free shipping': new Decimal(49) });
+    expect(second.pricing.fees!.payableFees).toEqual(new Decimal(38));
+  });
+
+  it('should release holds once, and release reservations that were not committed in time', async () => {
+    const quote = await checkout.quote(cartItems, customer, undefined, { voucherCodes: ['WELCOME-A1'] });
+    await checkout.reserve(quote.token, 'order-1', cartItems);
+    const other = await checkout.quote(cartItems, customer);
+    await expect(checkout.reserve(other.token, 'order-1', cartItems)).rejects.toThrow(
+      'Order order-1 is already reserved with another quote'
+    );
+
+    const released = await checkout.release('order-1');
+    expect(await checkout.release('order-1')).toEqual(released);
+    await expect(checkout.commit('order-1')).rejects.toThrow('Reservation for order order-1 was released');
+    expect(await discountService.validateDiscountCode('WELCOME-A1', cartItems, customer)).toBe(true);
+
+    await checkout.reserve((await checkout.quote(cartItems, customer)).token, 'order-2', cartItems);
+    now.value = new Date('2025-06-15T10:31:00Z');
+    const expired = await checkout.releaseExpiredReservations();
+
+    expect(expired.map(reservation => reservation.orderId)).toEqual(['order-2']);
+    const repriced = await discountService.calculateCartDiscounts(cartItems, customer);
+    expect(repriced.appliedDiscounts['Brand Discount - PUMA (40%)']).toEqual(Money.of(800));
+  });
+});
@@ -1,9 +1,31 @@
 import { Decimal } from 'decimal.js';
 import { DiscountService } from '../services/DiscountService';
 import { cartItems, customer, discounts, paymentInfo } from './fakeData';
-import { describe, beforeEach, it, expect } from '@jest/globals';
-import { CartItem, CustomerProfile, PaymentInfo } from '../models/interface';
+import { describe, beforeEach, it, expect, jest } from '@jest/globals';
+import {
+  BankStrategyConfig,
+  BrandStrategyConfig,
+  CartFee,
+  CartItem,
+  CategoryStrategyConfig,
+  CustomerProfile,
+  FeeType,
+  PaymentInfo,
+  RoundingPolicy,
+  StrategyConfig,
+  VoucherStrategyConfig,
+} from '../models/interface';
 import { BrandTier } from '../models/interface';
+import { InMemoryRedemptionLedger } from '../ledgers/InMemoryRedemptionLedger';
+import { VoucherCodeGenerator } from '../generators/VoucherCodeGenerator';
+import { Money } from '../money/Money';
+import { InMemoryCampaignSpendLedger } from '../ledgers/InMemoryCampaignSpendLedger';
+import { DiscountEventBus } from '../events/DiscountEventBus';
+import { BrandDiscountStrategy } from '../discount-strategies/BrandDiscountStrategy';
+import { GstCalculator } from '../tax/GstCalculator';
+import { BankCardDiscountStrategy } from '../discount-strategies/BankCardDiscountStrategy';
+import { PaymentMethodDiscountStrategy } from '../discount-strategies/PaymentMethodDiscountStrategy';
+import { TieredDiscountStrategy } from '../discount-strategies/TieredDiscountStrategy';
 
 describe('DiscountService', () => {
   let discountService: DiscountService;
@@ -17,7 +39,8 @@ describe('DiscountService', () => {
       const result = await discountService.calculateCartDiscounts(
         cartItems,
         customer,
-        paymentInfo
+        paymentInfo,
+        { voucherCodes: ['SUPER69'] }
       );
 
       // Calculations:
@@ -31,18 +54,21 @@ describe('DiscountService', () => {
       // Bank discount (10% on 334.8): 33.48
       // Final price: 301.32
 
-      expect(result.originalPrice).toBe(2000);
-      expect(result.finalPrice).toBeCloseTo(301.32, 2);
+      expect(result.originalPrice.toString()).toBe('2000.00');
+      expect(result.finalPrice.toString()).toBe('301.32');
       expect(result.appliedDiscounts).toEqual({
-        'Brand Discount - PUMA (40%)': new Decimal(800),
-        'Category Discount - T-shirts (10%)': new Decimal(120),
-        'Voucher Discount - SUPER69 (69%)': new Decimal(745.2),
-        'Bank Card Discount - ICICI (10%)': new Decimal(33.48),
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(120),
+        'Voucher Discount - SUPER69 (69%)': Money.of(745.2),
+        'Bank Card Discount - ICICI (10%)': Money.of(33.48),
       });
       expect(result.message).toContain('Brand Discount - PUMA (40%)');
       expect(result.message).toContain('Category Discount - T-shirts (10%)');
       expect(result.message).toContain('Voucher Discount - SUPER69 (69%)');
       expect(result.message).toContain('Bank Card Discount - ICICI (10%)');
+      expect(result.voucherResults).toEqual([
+        { code: 'SUPER69', strategyId: 'Voucher Discount - SUPER69 (69%)', status: 'APPLIED' },
+      ]);
     });
 
     it('should throw error for empty cart', async () => {
@@ -51,6 +77,43 @@ describe('DiscountService', () => {
       ).rejects.toThrow('Invalid cart items');
     });
 
+    it('should run a synchronous validator once per calculation', async () => {
+      let calls = 0;
+      const brand: BrandStrategyConfig = {
+        type: 'brand',
+        config: { brand: 'PUMA', discountPercentage: new Decimal(40) },
+        validator: {
+          validate: () => {
+            calls++;
+            return true;
+          },
+        },
+      };
+      const result = await new DiscountService([brand]).calculateCartDiscounts(cartItems, customer);
+
+      expect(result.finalPrice.toString()).toBe('1200.00');
+      expect(calls).toBe(1);
+    });
+
+    it('should validate bank and payment offers once per calculation', async () => {
+      const bankService = new DiscountService([
+        { type: 'bank', config: { bankName: 'ICICI', discountPercentage: new Decimal(10) } },
+      ]);
+      const upiService = new DiscountService([
+        { type: 'payment', config: { name: 'PhonePe UPI', method: 'UPI', discountPercentage: new Decimal(10) } },
+      ]);
+      const bankCalls = jest.spyOn(bankService.listDiscountStrategies()[0].strategy as BankCardDiscountStrategy, 'explainValidation');
+      const upiCalls = jest.spyOn(upiService.listDiscountStrategies()[0].strategy as PaymentMethodDiscountStrategy, 'explainValidation');
+
+      const card = await bankService.calculateCartDiscounts(cartItems, customer, paymentInfo);
+      const upi = await upiService.calculateCartDiscounts(cartItems, customer, { method: 'UPI', provider: 'PHONEPE' });
+
+      expect(card.finalPrice.toString()).toBe('1800.00');
+      expect(bankCalls).toHaveBeenCalledTimes(1);
+      expect(upi.finalPrice.toString()).toBe('1800.00');
+      expect(upiCalls).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw error for invalid customer profile', async () => {
       await expect(
         discountService.calculateCartDiscounts(cartItems, null as any, paymentInfo)
@@ -61,7 +124,8 @@ describe('DiscountService', () => {
       const result = await discountService.calculateCartDiscounts(
         cartItems,
         customer,
-        undefined
+        undefined,
+        { voucherCodes: ['SUPER69'] }
       );
 
       // Calculations:
@@ -71,12 +135,12 @@ describe('DiscountService', () => {
       // Voucher discount (69%): 745.2 → 334.8
       // Bank discount: 0 (no payment info) → 334.8
 
-      expect(result.originalPrice).toBe(2000);
-      expect(result.finalPrice).toBeCloseTo(334.8, 2);
+      expect(result.originalPrice.toString()).toBe('2000.00');
+      expect(result.finalPrice.toString()).toBe('334.80');
       expect(result.appliedDiscounts).toEqual({
-        'Brand Discount - PUMA (40%)': new Decimal(800),
-        'Category Discount - T-shirts (10%)': new Decimal(120),
-        'Voucher Discount - SUPER69 (69%)': new Decimal(745.2),
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(120),
+        'Voucher Discount - SUPER69 (69%)': Money.of(745.2),
       });
       expect(result.message).not.toContain('Bank Card Discount - ICICI (10%)');
     });
@@ -101,7 +165,8 @@ describe('DiscountService', () => {
       const result = await discountService.calculateCartDiscounts(
         multiItems,
         customer,
-        paymentInfo
+        paymentInfo,
+        { voucherCodes: ['SUPER69'] }
       );
 
       // Calculations:
@@ -111,58 +176,2114 @@ describe('DiscountService', () => {
       // Voucher discount (69% on 2880, minCartAmount=1000): 1987.2 → 892.8
       // Bank discount (10% on 892.8): 89.28 → 803.52
 
-      expect(result.originalPrice).toBe(4000);
-      expect(result.finalPrice).toBeCloseTo(803.52, 2);
+      expect(result.originalPrice.toString()).toBe('4000.00');
+      expect(result.finalPrice.toString()).toBe('803.52');
       expect(result.appliedDiscounts).toEqual({
-        'Brand Discount - PUMA (40%)': new Decimal(800),
-        'Category Discount - T-shirts (10%)': new Decimal(320),
-        'Voucher Discount - SUPER69 (69%)': new Decimal(1987.2),
-        'Bank Card Discount - ICICI (10%)': new Decimal(89.28),
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(320),
+        'Voucher Discount - SUPER69 (69%)': Money.of(1987.2),
+        'Bank Card Discount - ICICI (10%)': Money.of(89.28),
       });
     });
   });
 
-  describe('validateDiscountCode', () => {
-    it('should validate valid discount code', async () => {
-      const isValid = await discountService.validateDiscountCode(
-        'SUPER69',
+  describe('voucher codes', () => {
+    it('should not apply a voucher the customer did not enter', async () => {
+      const result = await discountService.calculateCartDiscounts(cartItems, customer, paymentInfo);
+
+      // 2000 → brand 800 → 1200 → category 120 → 1080 → bank 108 → 972
+      expect(result.finalPrice.toString()).toBe('972.00');
+      expect(result.appliedDiscounts['Voucher Discount - SUPER69 (69%)']).toBeUndefined();
+      expect(result.voucherResults).toEqual([]);
+    });
+
+    it('should match entered codes exactly, ignoring case', async () => {
+      const result = await discountService.calculateCartDiscounts(
         cartItems,
-        customer
+        customer,
+        paymentInfo,
+        { voucherCodes: [' super69 ', 'SUPER69'] }
       );
-      expect(isValid).toBe(true);
+
+      expect(result.finalPrice.toString()).toBe('301.32');
+      expect(result.voucherResults).toEqual([
+        { code: 'SUPER69', strategyId: 'Voucher Discount - SUPER69 (69%)', status: 'APPLIED' },
+      ]);
     });
 
-    it('should reject invalid discount code', async () => {
-      const isValid = await discountService.validateDiscountCode(
-        'INVALID_CODE',
+    it('should report a reason for unknown, expired and ineligible codes', async () => {
+      const service = new DiscountService([
+        ...discounts,
+        {
+          type: 'voucher',
+          config: {
+            code: 'OLD10',
+            discountPercentage: new Decimal(10),
+            validUntil: new Date('2020-01-01T00:00:00Z'),
+          },
+        },
+        {
+          type: 'voucher',
+          config: {
+            code: 'BIG5000',
+            discountPercentage: new Decimal(5),
+            minimumCartAmount: new Decimal(5000),
+          },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts(
         cartItems,
-        customer
+        customer,
+        paymentInfo,
+        { voucherCodes: ['PUMA', 'old10', 'BIG5000'] }
+      );
+
+      expect(result.voucherResults).toEqual([
+        { code: 'PUMA', status: 'UNKNOWN', reason: 'Voucher code PUMA does not exist' },
+        { code: 'OLD10', strategyId: 'Voucher Discount - OLD10 (10%)', status: 'EXPIRED', reason: 'Voucher code OLD10 has expired' },
+        {
+          code: 'BIG5000',
+          strategyId: 'Voucher Discount - BIG5000 (5%)',
+          status: 'INELIGIBLE',
+          reason: 'Eligible subtotal ₹1080 is below the minimum of ₹5000 for voucher BIG5000',
+        },
+      ]);
+      expect(Object.keys(result.appliedDiscounts)).toEqual([
+        'Brand Discount - PUMA (40%)',
+        'Category Discount - T-shirts (10%)',
+        'Bank Card Discount - ICICI (10%)',
+      ]);
+    });
+
+    it('should report a valid voucher left out by the stacking rules as not applied, with the reason', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+        {
+          type: 'voucher',
+          notCombinableWith: ['Brand Discount - PUMA (40%)'],
+          config: { code: 'SAVE5', discountPercentage: new Decimal(5) },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, undefined, { voucherCodes: ['SAVE5'] });
+
+      expect(result.skippedDiscounts).toEqual([
+        { name: 'Voucher Discount - SAVE5 (5%)', reason: 'Cannot be combined with Brand Discount - PUMA (40%)' },
+      ]);
+      expect(result.voucherResults).toEqual([
+        {
+          code: 'SAVE5',
+          strategyId: 'Voucher Discount - SAVE5 (5%)',
+          status: 'NOT_APPLIED',
+          reason: 'Cannot be combined with Brand Discount - PUMA (40%)',
+        },
+      ]);
+    });
+  });
+
+  describe('voucher lifecycle', () => {
+    const otherCustomer: CustomerProfile = { ...customer, id: '67890', email: 'jane.doe@example.com' };
+    let ledger: InMemoryRedemptionLedger;
+    let service: DiscountService;
+
+    beforeEach(() => {
+      ledger = new InMemoryRedemptionLedger();
+      service = new DiscountService(
+        [
+          ...discounts,
+          {
+            type: 'voucher',
+            config: {
+              code: 'FIRST2',
+              discountPercentage: new Decimal(20),
+              usageLimit: 2,
+              perCustomerLimit: 1,
+            },
+          },
+          {
+            type: 'voucher',
+            config: {
+              code: 'NEXTYEAR',
+              discountPercentage: new Decimal(20),
+              validFrom: new Date('2999-01-01T00:00:00Z'),
+            },
+          },
+        ],
+        undefined,
+        { redemptionLedger: ledger }
+      );
+    });
+
+    it('should record redemptions and enforce the per-customer limit', async () => {
+      const redemptions = await service.redeemVouchers('order-1', customer, ['first2']);
+
+      expect(redemptions).toHaveLength(1);
+      expect(redemptions[0]).toMatchObject({ code: 'FIRST2', customerId: '12345', orderId: 'order-1' });
+      await expect(service.redeemVouchers('order-2', customer, ['FIRST2'])).rejects.toThrow(
+        'Voucher code FIRST2 has already been used the maximum number of times'
       );
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+        voucherCodes: ['FIRST2'],
+      });
+      expect(result.voucherResults[0].status).toBe('LIMIT_REACHED');
+    });
+
+    it('should enforce the total usage limit across customers', async () => {
+      await service.redeemVouchers('order-1', customer, ['FIRST2']);
+      await service.redeemVouchers('order-2', otherCustomer, ['FIRST2']);
+
+      const isValid = await service.validateDiscountCode('FIRST2', cartItems, { ...customer, id: 'new' });
       expect(isValid).toBe(false);
+      expect(await ledger.countRedemptions('FIRST2')).toBe(2);
     });
 
-    it('should reject valid code with insufficient cart amount', async () => {
-      const lowValueItems: CartItem[] = [
+    it('should release redemptions when the order is cancelled', async () => {
+      await service.redeemVouchers('order-1', customer, ['FIRST2']);
+
+      const released = await service.releaseVouchers('order-1');
+
+      expect(released.map(redemption => redemption.code)).toEqual(['FIRST2']);
+      expect(await ledger.countRedemptions('FIRST2', customer.id)).toBe(0);
+      await expect(service.redeemVouchers('order-3', customer, ['FIRST2'])).resolves.toHaveLength(1);
+    });
+
+    it('should keep codes redeemed on the order by an earlier call when a later code fails', async () => {
+      await service.redeemVouchers('order-1', customer, ['FIRST2']);
+      const redeem = ledger.redeem.bind(ledger);
+      jest.spyOn(ledger, 'redeem').mockImplementation(async (redemption, limits) => {
+        if (redemption.code === 'SUPER69') {
+          throw new Error('Redemption ledger is unavailable');
+        }
+        return redeem(redemption, limits);
+      });
+
+      await expect(service.redeemVouchers('order-1', customer, ['FIRST2', 'SUPER69'])).rejects.toThrow(
+        'Redemption ledger is unavailable'
+      );
+
+      expect(await ledger.countRedemptions('FIRST2', customer.id)).toBe(1);
+    });
+
+    it('should reject codes outside their validity window', async () => {
+      await expect(service.redeemVouchers('order-1', customer, ['NEXTYEAR'])).rejects.toThrow(
+        'Voucher code NEXTYEAR is not active yet'
+      );
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+        voucherCodes: ['NEXTYEAR'],
+      });
+      expect(result.voucherResults[0].status).toBe('NOT_STARTED');
+    });
+  });
+
+  describe('issued voucher codes', () => {
+    const generator = new VoucherCodeGenerator({ prefix: 'SUPER69' });
+
+    it('should generate unique codes whose check character catches typos', () => {
+      const codes = generator.generate(50000);
+      const code = codes[0];
+      const typo = code.slice(0, -2) + (code[code.length - 2] === 'A' ? 'B' : 'A') + code.slice(-1);
+
+      expect(new Set(codes).size).toBe(50000);
+      expect(code).toMatch(/^SUPER69-[A-Z2-9]{6}$/);
+      expect(codes.every(issued => generator.isWellFormed(issued))).toBe(true);
+      expect(generator.isWellFormed(code.toLowerCase())).toBe(true);
+      expect(generator.isWellFormed(typo)).toBe(false);
+      expect(generator.generate(10, codes).some(next => codes.includes(next))).toBe(false);
+      expect(() => new VoucherCodeGenerator({ alphabet: 'AB', length: 3 }).generate(5)).toThrow(
+        'Cannot generate 5 more codes with 3 characters from an alphabet of 2'
+      );
+    });
+
+    it('should apply a campaign through its issued codes, each redeemable once', async () => {
+      const [first, second] = generator.generate(2);
+      const service = new DiscountService([
         {
-          product: {
-            id: '5',
-            brand: 'PUMA',
-            brandTier: BrandTier.PREMIUM,
-            category: 'T-shirts',
-            basePrice: new Decimal(500),
-            currentPrice: new Decimal(500),
+          type: 'voucher',
+          config: { code: 'SUPER69', issuedCodes: [first, second], discountPercentage: new Decimal(69) },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, undefined, {
+        voucherCodes: [first.toLowerCase(), second, 'SUPER69'],
+      });
+      await service.redeemVouchers('order-1', customer, [first]);
+
+      expect(result.appliedDiscounts).toEqual({ 'Voucher Discount - SUPER69 (69%)': Money.of(1380) });
+      expect(result.voucherResults).toEqual([
+        { code: first, strategyId: 'Voucher Discount - SUPER69 (69%)', status: 'APPLIED' },
+        {
+          code: second,
+          strategyId: 'Voucher Discount - SUPER69 (69%)',
+          status: 'INELIGIBLE',
+          reason: `Voucher code ${second} belongs to campaign SUPER69, which is already applied by another code`,
+        },
+        { code: 'SUPER69', status: 'UNKNOWN', reason: 'Voucher code SUPER69 does not exist' },
+      ]);
+      expect(await service.validateDiscountCode(first, cartItems, { ...customer, id: 'other' })).toBe(false);
+      expect(await service.validateDiscountCode(second, cartItems, { ...customer, id: 'other' })).toBe(true);
+    });
+
+    it('should report mistyped issued codes as malformed and other codes as unknown', async () => {
+      const [code] = generator.generate(1);
+      const typo = code.slice(0, -2) + (code[code.length - 2] === 'A' ? 'B' : 'A') + code.slice(-1);
+      const service = new DiscountService([
+        {
+          type: 'voucher',
+          config: {
+            code: 'SUPER69',
+            issuedCodes: [code],
+            codeFormat: { prefix: 'SUPER69' },
+            discountPercentage: new Decimal(69),
           },
-          quantity: 1,
-          size: 'S',
         },
-      ];
+      ]);
 
-      const isValid = await discountService.validateDiscountCode(
-        'SUPER69',
-        lowValueItems,
-        customer
+      const result = await service.calculateCartDiscounts(cartItems, customer, undefined, {
+        voucherCodes: [typo, 'WELCOME10'],
+      });
+
+      expect(result.voucherResults).toEqual([
+        { code: typo, status: 'MALFORMED', reason: `Voucher code ${typo} is not valid; check it for typos` },
+        { code: 'WELCOME10', status: 'UNKNOWN', reason: 'Voucher code WELCOME10 does not exist' },
+      ]);
+      expect(await service.validateDiscountCode(typo, cartItems, customer)).toBe(false);
+      expect(
+        () =>
+          new DiscountService([
+            {
+              type: 'voucher',
+              config: { code: 'SUPER69', issuedCodes: [typo], codeFormat: { prefix: 'SUPER69' }, flatAmount: new Decimal(1) },
+            },
+          ])
+      ).toThrow(`Issued voucher code ${typo} does not match the code format`);
+    });
+
+    it('should reject usage limits on a campaign with issued codes', () => {
+      expect(
+        () =>
+          new DiscountService([
+            {
+              type: 'voucher',
+              config: { code: 'SUPER69', issuedCodes: ['SUPER69-AAAAA'], discountPercentage: new Decimal(69), usageLimit: 5 },
+            },
+          ])
+      ).toThrow('Usage limits cannot be set on a voucher with issued codes; each issued code is single-use');
+    });
+  });
+
+  describe('eligibility rules', () => {
+    const clock = { now: () => new Date('2025-06-15T10:00:00Z') };
+
+    const createService = (overrides: Record<string, object>) => {
+      return new DiscountService(
+        discounts.map(
+          discount =>
+            ({
+              ...discount,
+              config: { ...discount.config, ...(overrides[discount.type] ?? {}) },
+            }) as StrategyConfig
+        ),
+        undefined,
+        { clock }
       );
-      expect(isValid).toBe(false); // SUPER69 requires minCartAmount=1000
+    };
+
+    it('should skip discounts outside their validity window', async () => {
+      const service = createService({
+        brand: { validUntil: new Date('2025-06-01T00:00:00Z') },
+        category: { validFrom: new Date('2025-07-01T00:00:00Z') },
+        bank: { validFrom: new Date('2025-06-01T00:00:00Z'), validUntil: new Date('2025-06-30T00:00:00Z') },
+      });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo);
+
+      expect(Object.keys(result.appliedDiscounts)).toEqual(['Bank Card Discount - ICICI (10%)']);
+    });
+
+    it('should restrict discounts to the configured customer tiers', async () => {
+      const service = createService({
+        brand: { customerTiers: ['PREMIUM'] },
+        voucher: { customerTiers: ['premium', 'regular'] },
+      });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+        voucherCodes: ['SUPER69'],
+      });
+
+      expect(result.appliedDiscounts['Brand Discount - PUMA (40%)']).toBeUndefined();
+      expect(result.voucherResults[0].status).toBe('APPLIED');
+    });
+
+    it('should not discount items of excluded brands', async () => {
+      const service = createService({
+        category: { excludedBrands: ['PUMA'] },
+        bank: { excludedBrands: ['PUMA'] },
+      });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo);
+
+      expect(Object.keys(result.appliedDiscounts)).toEqual(['Brand Discount - PUMA (40%)']);
+    });
+
+    it('should reject a validity window that ends before it starts', () => {
+      expect(() =>
+        createService({
+          brand: { validFrom: new Date('2025-07-01T00:00:00Z'), validUntil: new Date('2025-06-01T00:00:00Z') },
+        })
+      ).toThrow('Invalid validity window');
+    });
+  });
+
+  describe('stacking rules', () => {
+    const [brand, category, voucher, bank] = discounts as [
+      BrandStrategyConfig,
+      CategoryStrategyConfig,
+      VoucherStrategyConfig,
+      BankStrategyConfig,
+    ];
+
+    it('should apply only the best offer of a stacking group', async () => {
+      const service = new DiscountService([
+        { ...brand, stackingGroup: 'catalog' },
+        { ...category, stackingGroup: 'catalog' },
+        voucher,
+        bank,
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+        voucherCodes: ['SUPER69'],
+      });
+
+      // 2000 → brand 800 → 1200 → voucher 828 → 372 → bank 37.2 → 334.8
+      expect(result.finalPrice.toString()).toBe('334.80');
+      expect(Object.keys(result.appliedDiscounts)).toEqual([
+        'Brand Discount - PUMA (40%)',
+        'Voucher Discount - SUPER69 (69%)',
+        'Bank Card Discount - ICICI (10%)',
+      ]);
+      expect(result.skippedDiscounts).toEqual([
+        {
+          name: 'Category Discount - T-shirts (10%)',
+          reason:
+            "Only one offer from stacking group 'catalog' applies; Brand Discount - PUMA (40%) gives a lower price",
+        },
+      ]);
+    });
+
+    it('should pick the cheaper offer even when it has a lower priority', async () => {
+      const service = new DiscountService([
+        { ...brand, stackingGroup: 'catalog', config: { ...brand.config, discountPercentage: new Decimal(5) } },
+        { ...category, stackingGroup: 'catalog' },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer);
+
+      expect(Object.keys(result.appliedDiscounts)).toEqual(['Category Discount - T-shirts (10%)']);
+      expect(result.skippedDiscounts.map(skipped => skipped.name)).toEqual(['Brand Discount - PUMA (5%)']);
+    });
+
+    it('should not combine offers marked as exclusive', async () => {
+      const service = new DiscountService([
+        brand,
+        category,
+        { ...voucher, id: 'super69', notCombinableWith: ['bank-offers'] },
+        { ...bank, stackingGroup: 'bank-offers' },
+      ]);
+
+      const withVoucher = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, {
+        voucherCodes: ['SUPER69'],
+      });
+      expect(withVoucher.finalPrice.toString()).toBe('334.80');
+      expect(withVoucher.skippedDiscounts).toEqual([
+        {
+          name: 'Bank Card Discount - ICICI (10%)',
+          reason: 'Cannot be combined with Voucher Discount - SUPER69 (69%)',
+        },
+      ]);
+
+      const withoutVoucher = await service.calculateCartDiscounts(cartItems, customer, paymentInfo);
+      expect(withoutVoucher.finalPrice.toString()).toBe('972.00');
+      expect(withoutVoucher.skippedDiscounts).toEqual([]);
+    });
+  });
+
+  describe('flat discounts', () => {
+    const hdfcPayment: PaymentInfo = { method: 'CARD', bankName: 'HDFC', cardType: 'CREDIT' };
+    const twoLineCart: CartItem[] = [
+      ...cartItems,
+      {
+        product: {
+          id: '3',
+          brand: 'NIKE',
+          brandTier: BrandTier.REGULAR,
+          category: 'Shoes',
+          basePrice: new Decimal(1000),
+          currentPrice: new Decimal(1000),
+        },
+        quantity: 1,
+        size: '9',
+      },
+    ];
+
+    it('should apply flat amounts on every strategy type and split them across eligible lines', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', flatAmount: new Decimal(200) } },
+        { type: 'category', config: { category: 'Shoes', flatAmount: new Decimal(100) } },
+        { type: 'voucher', config: { code: 'SUPER500', flatAmount: new Decimal(500) } },
+        { type: 'bank', config: { bankName: 'HDFC', flatAmount: new Decimal(150) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts(twoLineCart, customer, hdfcPayment, {
+        voucherCodes: ['SUPER500'],
+      });
+
+      // 3000 → PUMA 200 → 2800 → Shoes 100 → 2700 → SUPER500 500 → 2200 → HDFC 150 → 2050
+      expect(result.finalPrice.toString()).toBe('2050.00');
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (₹200 off)': Money.of(200),
+        'Category Discount - Shoes (₹100 off)': Money.of(100),
+        'Voucher Discount - SUPER500 (₹500 off)': Money.of(500),
+        'Bank Card Discount - HDFC (₹150 off)': Money.of(150),
+      });
+
+      // SUPER500 is split 1800:900 between the lines
+      const [puma, shoes] = result.lineItems;
+      expect(puma.discounts['Voucher Discount - SUPER500 (₹500 off)'].toString()).toBe('333.34');
+      expect(shoes.discounts['Voucher Discount - SUPER500 (₹500 off)'].toString()).toBe('166.66');
+      expect(shoes.discounts['Brand Discount - PUMA (₹200 off)']).toBeUndefined();
+    });
+
+    it('should never discount more than the eligible subtotal', async () => {
+      const service = new DiscountService([
+        { type: 'category', config: { category: 'Shoes', flatAmount: new Decimal(5000) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts(twoLineCart, customer);
+
+      expect(result.appliedDiscounts['Category Discount - Shoes (₹5000 off)']).toEqual(Money.of(1000));
+      expect(result.lineItems[0].finalLinePrice).toEqual(Money.of(2000));
+      expect(result.lineItems[1].finalLinePrice).toEqual(Money.of(0));
+    });
+
+    it('should cap percentage and flat discounts at maxDiscountCap', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40), maxDiscountCap: new Decimal(300) } },
+        { type: 'bank', config: { bankName: 'HDFC', flatAmount: new Decimal(150), maxDiscountCap: new Decimal(100) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, hdfcPayment);
+
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(300),
+        'Bank Card Discount - HDFC (₹150 off)': Money.of(100),
+      });
+    });
+
+    it('should require exactly one of discountPercentage and flatAmount', () => {
+      expect(
+        () =>
+          new DiscountService([
+            { type: 'voucher', config: { code: 'BOTH', discountPercentage: new Decimal(10), flatAmount: new Decimal(100) } },
+          ])
+      ).toThrow('Exactly one of discountPercentage or flatAmount is required');
+    });
+  });
+
+  describe('payment offers', () => {
+    const creditCard: PaymentInfo = {
+      method: 'CARD',
+      bankName: 'HDFC',
+      cardType: 'CREDIT',
+      cardNetwork: 'VISA',
+      cardBin: '438628',
+      instrumentId: 'card-1',
+    };
+    const phonePe: PaymentInfo = { method: 'UPI', provider: 'PhonePe', instrumentId: 'john@ybl' };
+    const now = { value: new Date('2025-06-15T10:00:00Z') };
+    const clock = { now: () => now.value };
+
+    beforeEach(() => {
+      now.value = new Date('2025-06-15T10:00:00Z');
+    });
+
+    it('should limit bank offers to card types, networks and BIN prefixes', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bank',
+          config: {
+            bankName: 'HDFC',
+            discountPercentage: new Decimal(10),
+            cardTypes: ['CREDIT'],
+            cardNetworks: ['VISA', 'MASTERCARD'],
+            binPrefixes: ['4386', '5241'],
+          },
+        },
+      ]);
+      const trace = async (payment: PaymentInfo) =>
+        (await service.calculateCartDiscounts(cartItems, customer, payment, { explain: true })).trace![0].failure;
+
+      expect((await service.calculateCartDiscounts(cartItems, customer, creditCard)).finalPrice.toString()).toBe('1800.00');
+      expect(await trace({ ...creditCard, cardType: 'debit' })).toEqual({
+        rule: 'CARD_TYPE',
+        message: 'Card type debit is not one of CREDIT',
+        requiredPayment: { method: 'CARD', bankName: 'HDFC', cardType: 'CREDIT', cardNetwork: 'VISA', cardBin: '4386' },
+        potentialSaving: new Decimal(200),
+      });
+      expect(await trace({ ...creditCard, cardNetwork: 'RUPAY' })).toMatchObject({ rule: 'CARD_NETWORK' });
+      expect(await trace({ ...creditCard, cardBin: undefined })).toEqual({
+        rule: 'CARD_BIN',
+        message: 'Card BIN is unknown, offer requires 4386, 5241',
+        requiredPayment: { method: 'CARD', bankName: 'HDFC', cardType: 'CREDIT', cardNetwork: 'VISA', cardBin: '4386' },
+        potentialSaving: new Decimal(200),
+      });
+    });
+
+    it('should apply UPI and wallet offers for the listed providers', async () => {
+      const service = new DiscountService([
+        {
+          type: 'payment',
+          config: { name: 'PhonePe UPI', method: 'UPI', providers: ['PHONEPE'], discountPercentage: new Decimal(10) },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, phonePe);
+      const paytm = await service.calculateCartDiscounts(cartItems, customer, { ...phonePe, provider: 'Paytm' }, { explain: true });
+
+      expect(result.appliedDiscounts).toEqual({ 'Payment Offer - PhonePe UPI (10%)': Money.of(200) });
+      expect(paytm.trace![0].failure).toEqual({
+        rule: 'PAYMENT_PROVIDER',
+        message: 'Payment provider Paytm is not one of PHONEPE',
+        requiredPayment: { method: 'UPI', provider: 'PHONEPE' },
+        potentialSaving: new Decimal(200),
+      });
+    });
+
+    it('should enforce the monthly limits per instrument', async () => {
+      const service = new DiscountService(
+        [
+          {
+            type: 'bank',
+            config: {
+              bankName: 'HDFC',
+              discountPercentage: new Decimal(10),
+              maxDiscountCap: new Decimal(150),
+              monthlyLimits: { maxUsesPerMonth: 2, maxDiscountPerMonth: new Decimal(250) },
+            },
+          },
+        ],
+        undefined,
+        { clock }
+      );
+      const name = 'Bank Card Discount - HDFC (10%)';
+
+      const first = await service.calculateCartDiscounts(cartItems, customer, creditCard);
+      await service.redeemPaymentOffers('order-1', customer, creditCard, first);
+      const second = await service.calculateCartDiscounts(cartItems, customer, creditCard);
+      await service.redeemPaymentOffers('order-2', customer, creditCard, second);
+      const third = await service.calculateCartDiscounts(cartItems, customer, creditCard, { explain: true });
+      const otherCard = await service.calculateCartDiscounts(cartItems, customer, { ...creditCard, instrumentId: 'card-2' });
+
+      // Capped at 150 per transaction, then at the 100 left of the 250 monthly limit
+      expect(first.appliedDiscounts[name]).toEqual(Money.of(150));
+      expect(second.appliedDiscounts[name]).toEqual(Money.of(100));
+      expect(third.trace![0].failure).toMatchObject({ rule: 'USAGE_LIMIT' });
+      expect(otherCard.appliedDiscounts[name]).toEqual(Money.of(150));
+
+      now.value = new Date('2025-07-01T00:00:00Z');
+      const nextMonth = await service.calculateCartDiscounts(cartItems, customer, creditCard);
+      expect(nextMonth.appliedDiscounts[name]).toEqual(Money.of(150));
+    });
+
+    it('should only discount the items of the eligible categories', async () => {
+      const service = new DiscountService([
+        { type: 'bank', config: { bankName: 'HDFC', discountPercentage: new Decimal(10), eligibleCategories: ['Shoes'] } },
+      ]);
+      const shoe: CartItem = {
+        ...cartItems[0],
+        product: { ...cartItems[0].product, id: '2', category: 'Shoes', basePrice: new Decimal(600), currentPrice: new Decimal(600) },
+      };
+
+      const result = await service.calculateCartDiscounts([...cartItems, shoe], customer, creditCard);
+
+      // 10% of the ₹600 shoe only, not of the ₹2600 cart
+      expect(result.appliedDiscounts).toEqual({ 'Bank Card Discount - HDFC (10%)': Money.of(60) });
+      expect(result.lineItems.map(line => line.discounts)).toEqual([{}, { 'Bank Card Discount - HDFC (10%)': Money.of(60) }]);
+    });
+
+    it('should check the minimum of a category-scoped offer on the items it discounts', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bank',
+          config: { bankName: 'HDFC', discountPercentage: new Decimal(10), eligibleCategories: ['Shoes'], minimumCartAmount: new Decimal(1000) },
+        },
+      ]);
+      const shoe: CartItem = {
+        ...cartItems[0],
+        product: { ...cartItems[0].product, id: '2', category: 'Shoes', basePrice: new Decimal(600), currentPrice: new Decimal(600) },
+      };
+
+      const result = await service.calculateCartDiscounts([...cartItems, shoe], customer, creditCard, { explain: true });
+
+      // The ₹2600 cart is above the minimum, but only ₹600 of it is shoes
+      expect(result.appliedDiscounts).toEqual({});
+      expect(result.trace![0].failure).toEqual({
+        rule: 'MINIMUM_AMOUNT',
+        message: 'Eligible subtotal ₹600 is below the minimum of ₹1000',
+        shortfall: new Decimal(400),
+        potentialSaving: new Decimal(100),
+      });
+    });
+
+    it('should keep the monthly usage under the strategy id when the offer value changes', async () => {
+      const hdfc = (id: string, discountPercentage: number): StrategyConfig => ({
+        type: 'bank',
+        id,
+        config: { bankName: 'HDFC', discountPercentage: new Decimal(discountPercentage), monthlyLimits: { maxUsesPerMonth: 1 } },
+      });
+      const service = new DiscountService([hdfc('hdfc-card', 10)], undefined, { clock });
+
+      const first = await service.calculateCartDiscounts(cartItems, customer, creditCard);
+      const usages = await service.redeemPaymentOffers('order-1', customer, creditCard, first);
+      service.replaceDiscountStrategy('hdfc-card', hdfc('hdfc-card', 15));
+      const raised = await service.calculateCartDiscounts(cartItems, customer, creditCard);
+      // A second campaign with the same display name keeps its own count
+      service.addDiscountStrategy(hdfc('hdfc-card-2', 15));
+      const twin = await service.calculateCartDiscounts(cartItems, customer, creditCard, { explain: true });
+
+      expect(usages).toEqual([expect.objectContaining({ offer: 'hdfc-card' })]);
+      expect(raised.appliedDiscounts).toEqual({});
+      expect(twin.trace!.map(entry => [entry.id, entry.status])).toEqual([
+        ['hdfc-card', 'NOT_ELIGIBLE'],
+        ['hdfc-card-2', 'APPLIED'],
+      ]);
+    });
+
+    it('should not count an order against itself when re-pricing it, and release usage on cancellation', async () => {
+      const service = new DiscountService(
+        [
+          {
+            type: 'payment',
+            config: {
+              name: 'PhonePe UPI',
+              method: 'UPI',
+              flatAmount: new Decimal(100),
+              monthlyLimits: { maxUsesPerMonth: 1 },
+            },
+          },
+        ],
+        undefined,
+        { clock }
+      );
+      const pricing = await service.calculateCartDiscounts(cartItems, customer, phonePe);
+      const usages = await service.redeemPaymentOffers('order-1', customer, phonePe, pricing);
+
+      const repriced = await service.calculateCartDiscounts(cartItems, customer, phonePe, { orderId: 'order-1' });
+      const newOrder = await service.calculateCartDiscounts(cartItems, customer, phonePe);
+
+      expect(usages).toEqual([expect.objectContaining({ offer: 'Payment Offer - PhonePe UPI (₹100 off)', instrumentId: 'john@ybl' })]);
+      expect(repriced.finalPrice.toString()).toBe('1900.00');
+      expect(newOrder.finalPrice.toString()).toBe('2000.00');
+      await expect(service.redeemPaymentOffers('order-2', customer, phonePe, pricing)).rejects.toThrow(
+        'Payment Offer - PhonePe UPI (₹100 off) has reached its limit of 1 uses this month'
+      );
+
+      await service.releasePaymentOffers('order-1');
+      expect((await service.calculateCartDiscounts(cartItems, customer, phonePe)).finalPrice.toString()).toBe('1900.00');
+    });
+
+    it('should keep the usage of earlier calls for the order when an offer is over its limit', async () => {
+      const service = new DiscountService(
+        [
+          { type: 'payment', config: { name: 'UPI Saver', method: 'UPI', flatAmount: new Decimal(100), monthlyLimits: { maxUsesPerMonth: 5 } } },
+          {
+            type: 'payment',
+            config: { name: 'UPI Big Cart', method: 'UPI', flatAmount: new Decimal(50), minimumCartAmount: new Decimal(3000), monthlyLimits: { maxUsesPerMonth: 1 } },
+          },
+        ],
+        undefined,
+        { clock }
+      );
+      const small = await service.calculateCartDiscounts(cartItems, customer, phonePe);
+      const big = await service.calculateCartDiscounts([{ ...cartItems[0], quantity: 2 }], customer, phonePe);
+
+      await service.redeemPaymentOffers('order-2', customer, phonePe, big);
+      await service.redeemPaymentOffers('order-1', customer, phonePe, small);
+      // order-1 re-priced with two units: UPI Saver is already recorded on it, UPI Big Cart was used up by order-2
+      await expect(service.redeemPaymentOffers('order-1', customer, phonePe, big)).rejects.toThrow(
+        'Payment Offer - UPI Big Cart (₹50 off) has reached its limit of 1 uses this month'
+      );
+
+      expect(await service.releasePaymentOffers('order-1')).toEqual([
+        expect.objectContaining({ offer: 'Payment Offer - UPI Saver (₹100 off)', orderId: 'order-1', amount: Money.of(100) }),
+      ]);
+    });
+
+    it('should report cashback separately without lowering the final price', async () => {
+      const service = new DiscountService(
+        [
+          { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+          {
+            type: 'bank',
+            config: {
+              bankName: 'HDFC',
+              discountPercentage: new Decimal(10),
+              benefitType: 'CASHBACK',
+              cashbackCreditDays: 30,
+            },
+          },
+          {
+            type: 'payment',
+            config: { name: 'Any UPI', method: 'UPI', flatAmount: new Decimal(50) },
+          },
+        ],
+        undefined,
+        { clock }
+      );
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, creditCard, {
+        deliveryDate: new Date('2025-06-20T00:00:00Z'),
+        explain: true,
+      });
+
+      // 2000 → brand 800 → 1200 paid now; 10% of 1200 credited 30 days after delivery
+      expect(result.finalPrice.toString()).toBe('1200.00');
+      expect(Object.keys(result.appliedDiscounts)).toEqual(['Brand Discount - PUMA (40%)']);
+      expect(result.cashback).toEqual([
+        {
+          name: 'Bank Card Discount - HDFC (10% cashback)',
+          amount: new Decimal(120),
+          expectedCreditDate: new Date('2025-07-20T00:00:00Z'),
+          fundedBy: 'HDFC',
+        },
+      ]);
+      expect(result.lineItems[0].finalLinePrice).toEqual(Money.of(1200));
+      expect(result.trace![1]).toMatchObject({ status: 'APPLIED', benefitType: 'CASHBACK', appliedAmount: new Decimal(120) });
+      expect(result.message).toContain('Earned Bank Card Discount - HDFC (10% cashback)');
+    });
+  });
+
+  describe('campaign budgets', () => {
+    const now = { value: new Date('2025-06-15T10:00:00Z') };
+    const clock = { now: () => now.value };
+    const name = 'Brand Discount - PUMA (40%)';
+    const pumaCampaign = (budget: { total: Decimal; daily?: Decimal }): StrategyConfig[] => [
+      { type: 'brand', id: 'puma-40', budget, config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+    ];
+
+    beforeEach(() => {
+      now.value = new Date('2025-06-15T10:00:00Z');
+    });
+
+    it('should grant only the remaining budget, then stop validating', async () => {
+      const service = new DiscountService(pumaCampaign({ total: new Decimal(1000) }), undefined, { clock });
+
+      await service.spendCampaignBudgets('order-1', await service.calculateCartDiscounts(cartItems, customer));
+      const partial = await service.calculateCartDiscounts(cartItems, customer, undefined, { explain: true });
+      await service.spendCampaignBudgets('order-2', partial);
+      const spent = await service.calculateCartDiscounts(cartItems, customer, undefined, { explain: true });
+
+      // 800 spent on order-1, so order-2 gets the last 200 of the 1000
+      expect(partial.appliedDiscounts[name]).toEqual(Money.of(200));
+      expect(partial.trace![0].cap).toEqual({
+        reason: 'CAMPAIGN_BUDGET',
+        uncappedAmount: new Decimal(800),
+        limit: new Decimal(200),
+      });
+      expect(spent.finalPrice.toString()).toBe('2000.00');
+      expect(spent.trace![0]).toMatchObject({
+        status: 'NOT_ELIGIBLE',
+        failure: { rule: 'BUDGET_EXHAUSTED', message: 'Campaign budget of ₹1000 has been spent' },
+      });
+    });
+
+    it('should reset the daily budget on the next UTC day', async () => {
+      const service = new DiscountService(
+        pumaCampaign({ total: new Decimal(5000), daily: new Decimal(1000) }),
+        undefined,
+        { clock }
+      );
+
+      await service.spendCampaignBudgets('order-1', await service.calculateCartDiscounts(cartItems, customer));
+      await service.spendCampaignBudgets('order-2', await service.calculateCartDiscounts(cartItems, customer));
+      const sameDay = await service.calculateCartDiscounts(cartItems, customer, undefined, { explain: true });
+      now.value = new Date('2025-06-16T00:30:00Z');
+      const nextDay = await service.calculateCartDiscounts(cartItems, customer);
+
+      expect(sameDay.trace![0].failure).toEqual({
+        rule: 'BUDGET_EXHAUSTED',
+        message: 'Daily budget of ₹1000 has been spent for today',
+      });
+      expect(nextDay.appliedDiscounts[name]).toEqual(Money.of(800));
+    });
+
+    it('should let only one of two concurrent checkouts take the rest of a budget', async () => {
+      const service = new DiscountService(pumaCampaign({ total: new Decimal(1000) }), undefined, { clock });
+      const pricing = await service.calculateCartDiscounts(cartItems, customer);
+
+      const outcomes = await Promise.allSettled([
+        service.spendCampaignBudgets('order-1', pricing),
+        service.spendCampaignBudgets('order-2', pricing),
+      ]);
+      const repriced = await service.calculateCartDiscounts(cartItems, customer, undefined, { orderId: 'order-1' });
+
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+      expect((outcomes[1] as PromiseRejectedResult).reason.message).toBe('puma-40 would exceed its budget of ₹1000');
+      // Re-pricing order-1 does not count its own 800 against it
+      expect(repriced.appliedDiscounts[name]).toEqual(Money.of(800));
+
+      await service.releaseCampaignBudgets('order-1');
+      expect(await service.spendCampaignBudgets('order-2', pricing)).toEqual([
+        { campaignId: 'puma-40', orderId: 'order-2', amount: Money.of(800), spentAt: now.value },
+      ]);
+    });
+
+    it('should keep the spend of earlier calls for the order when a campaign is over its budget', async () => {
+      const service = new DiscountService(
+        [
+          ...pumaCampaign({ total: new Decimal(5000) }),
+          { type: 'category', id: 't-shirts-10', budget: { total: new Decimal(150) }, config: { category: 'T-shirts', discountPercentage: new Decimal(10) } },
+        ],
+        undefined,
+        { clock }
+      );
+      const shoes = await service.calculateCartDiscounts(
+        [{ ...cartItems[0], product: { ...cartItems[0].product, category: 'Shoes' } }],
+        customer
+      );
+      const tshirts = await service.calculateCartDiscounts(cartItems, customer);
+
+      await service.spendCampaignBudgets('order-1', shoes);
+      await service.spendCampaignBudgets('order-2', tshirts);
+      // order-1 re-priced with the T-shirt: its PUMA spend is already recorded, and only 30 of the T-shirts budget is left
+      await expect(service.spendCampaignBudgets('order-1', tshirts)).rejects.toThrow('t-shirts-10 would exceed its budget of ₹150');
+
+      expect(await service.releaseCampaignBudgets('order-1')).toEqual([
+        { campaignId: 'puma-40', orderId: 'order-1', amount: Money.of(800), spentAt: now.value },
+      ]);
+    });
+  });
+
+  describe('offer nudges', () => {
+    const shoe: CartItem = {
+      product: {
+        id: '2',
+        brand: 'NIKE',
+        brandTier: BrandTier.REGULAR,
+        category: 'Shoes',
+        basePrice: new Decimal(650),
+        currentPrice: new Decimal(650),
+      },
+      quantity: 1,
+      size: '9',
+    };
+
+    it('should tell how much more to spend and what the offer would save', async () => {
+      const result = await discountService.calculateCartDiscounts([shoe], customer, paymentInfo, {
+        voucherCodes: ['SUPER69'],
+      });
+
+      expect(result.nudges).toEqual([
+        {
+          name: 'Voucher Discount - SUPER69 (69%)',
+          kind: 'SPEND_MORE',
+          shortfall: new Decimal(350),
+          potentialSaving: new Decimal(690),
+          message: 'Add ₹350 more to save ₹690 with Voucher Discount - SUPER69 (69%)',
+        },
+        {
+          name: 'Brand Discount - PUMA (40%)',
+          kind: 'ADD_ITEMS',
+          requiredBrands: ['PUMA'],
+          message: 'Add PUMA items to get Brand Discount - PUMA (40%)',
+        },
+        {
+          name: 'Category Discount - T-shirts (10%)',
+          kind: 'ADD_ITEMS',
+          requiredCategories: ['T-shirts'],
+          message: 'Add T-shirts items to get Category Discount - T-shirts (10%)',
+        },
+      ]);
+    });
+
+    it('should suggest the payment method of a bank offer', async () => {
+      const result = await discountService.calculateCartDiscounts(cartItems, customer, { method: 'UPI' });
+
+      // 2000 → brand 800 → 1200 → category 120 → 1080; ICICI 10% would save 108
+      expect(result.nudges).toEqual([
+        {
+          name: 'Bank Card Discount - ICICI (10%)',
+          kind: 'CHANGE_PAYMENT',
+          requiredPayment: { method: 'CARD', bankName: 'ICICI' },
+          potentialSaving: new Decimal(108),
+          message: 'Pay with ICICI CARD to save ₹108 with Bank Card Discount - ICICI (10%)',
+        },
+      ]);
+    });
+
+    it('should agree with the validators and respect the maximum shortfall', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bank',
+          config: { bankName: 'HDFC', flatAmount: new Decimal(100), minimumCartAmount: new Decimal(1000) },
+        },
+      ]);
+
+      const short = await service.calculateCartDiscounts([shoe], customer);
+      const limited = await service.calculateCartDiscounts([shoe], customer, undefined, {
+        maxNudgeShortfall: new Decimal(200),
+      });
+      const unlocked = await service.calculateCartDiscounts(
+        [{ ...shoe, quantity: 2 }],
+        customer,
+        { method: 'CARD', bankName: 'HDFC' }
+      );
+
+      expect(short.nudges[0].message).toBe('Add ₹350 more and pay with HDFC CARD to save ₹100 with Bank Card Discount - HDFC (₹100 off)');
+      expect(limited.nudges).toEqual([]);
+      // Adding the ₹650 shoe again meets the ₹350 shortfall, and the discount is the one promised
+      expect(unlocked.appliedDiscounts['Bank Card Discount - HDFC (₹100 off)'].amount).toEqual(short.nudges[0].potentialSaving);
+      expect(unlocked.nudges).toEqual([]);
+    });
+  });
+
+  describe('listing prices', () => {
+    const tshirt = cartItems[0].product;
+    const shoe = { ...tshirt, id: '2', brand: 'NIKE', brandTier: BrandTier.REGULAR, category: 'Shoes', basePrice: new Decimal(500) };
+
+    it('should show the MRP, the price after catalog offers and the best price with a voucher or bank offer', async () => {
+      const [tshirtPrice, shoePrice] = await discountService.priceListings([tshirt, shoe]);
+
+      // T-shirt: 2000 → PUMA 800 → 1200 → T-shirts 120 → 1080; SUPER69 beats ICICI: 1080 - 745.2 = 334.8
+      expect(tshirtPrice).toEqual({
+        productId: '1',
+        mrp: new Decimal(2000),
+        price: new Decimal(1080),
+        catalogDiscounts: {
+          'Brand Discount - PUMA (40%)': new Decimal(800),
+          'Category Discount - T-shirts (10%)': new Decimal(120),
+        },
+        bestPrice: new Decimal(334.8),
+        bestOffer: 'Voucher Discount - SUPER69 (69%)',
+        currency: 'INR',
+      });
+      // Shoe: below the SUPER69 minimum, so ICICI 10% is the best offer
+      expect(shoePrice).toMatchObject({ price: new Decimal(500), bestPrice: new Decimal(450), bestOffer: 'Bank Card Discount - ICICI (10%)' });
+    });
+
+    it('should only evaluate the campaigns indexed under the product brand and category', async () => {
+      const service = new DiscountService(
+        Array.from({ length: 50 }, (_, index): StrategyConfig => ({
+          type: 'brand',
+          config: { brand: `BRAND${index}`, discountPercentage: new Decimal(20) },
+        }))
+      );
+      const strategies = service.listDiscountStrategies().map(entry => entry.strategy as BrandDiscountStrategy);
+      const calls = strategies.map(strategy => jest.spyOn(strategy, 'explainValidation'));
+
+      await service.priceListings([{ ...tshirt, brand: 'BRAND7' }]);
+
+      expect(calls.filter(call => call.mock.calls.length > 0)).toEqual([calls[7]]);
+    });
+
+    it('should pick up strategies added after the first listing', async () => {
+      const service = new DiscountService([]);
+      expect((await service.priceListings([shoe]))[0].bestOffer).toBeUndefined();
+
+      service.addDiscountStrategy({ type: 'category', config: { category: 'Shoes', flatAmount: new Decimal(100) } });
+
+      expect((await service.priceListings([shoe]))[0].price).toEqual(new Decimal(400));
+    });
+  });
+
+  describe('bundle promotions', () => {
+    const item = (id: string, brand: string, category: string, price: number, quantity: number): CartItem => ({
+      product: {
+        id,
+        brand,
+        brandTier: BrandTier.REGULAR,
+        category,
+        basePrice: new Decimal(price),
+        currentPrice: new Decimal(price),
+      },
+      quantity,
+      size: 'M',
+    });
+
+    it('should give the cheapest qualifying units free on buy 2 get 1', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bundle',
+          config: {
+            name: 'Buy 2 Get 1 T-shirts',
+            kind: 'BUY_X_GET_Y',
+            buy: { categories: ['T-shirts'] },
+            buyQuantity: 2,
+            getQuantity: 1,
+          },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts(
+        [item('10', 'NIKE', 'T-shirts', 500, 2), item('11', 'NIKE', 'T-shirts', 300, 2)],
+        customer
+      );
+
+      // 4 T-shirts make one set of 2 + 1; the cheapest unit (product 11) is free
+      expect(result.appliedDiscounts).toEqual({ 'Bundle Offer - Buy 2 Get 1 T-shirts': Money.of(300) });
+      expect(result.lineItems[0].discounts).toEqual({});
+      expect(result.lineItems[1].discounts).toEqual({ 'Bundle Offer - Buy 2 Get 1 T-shirts': Money.of(300) });
+      expect(result.message).toBe('Applied Bundle Offer - Buy 2 Get 1 T-shirts: 1 x 11 (M) discounted');
+    });
+
+    it('should price complete bundles at the bundle price', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bundle',
+          config: {
+            name: '3 for 999',
+            kind: 'FIXED_PRICE',
+            buy: { categories: ['T-shirts'] },
+            buyQuantity: 3,
+            bundlePrice: new Decimal(999),
+          },
+        },
+      ]);
+
+      const result = await service.calculateCartDiscounts([item('10', 'NIKE', 'T-shirts', 500, 4)], customer);
+
+      // 3 of the 4 units cost 999 instead of 1500
+      expect(result.finalPrice.toString()).toBe('1499.00');
+      expect(result.message).toContain('3 units bundled for ₹999');
+    });
+
+    it('should leave the rounding of bundle line shares to the rounding policy', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bundle',
+          config: { name: '3 for 999', kind: 'FIXED_PRICE', buy: { categories: ['T-shirts'] }, buyQuantity: 3, bundlePrice: new Decimal(999) },
+        },
+      ]);
+      const cart = [item('10', 'NIKE', 'T-shirts', 500, 1), item('11', 'NIKE', 'T-shirts', 400, 1), item('12', 'NIKE', 'T-shirts', 400, 1)];
+
+      const result = await service.calculateCartDiscounts(cart, customer);
+
+      // The saving of 301 splits by value into 115.769…, 92.615… and 92.615…; the minor units left over
+      // go to the largest remainders rather than all to the first line
+      expect(result.lineItems.map(line => line.discounts['Bundle Offer - 3 for 999'])).toEqual([
+        Money.of('115.77'),
+        Money.of('92.62'),
+        Money.of('92.61'),
+      ]);
+      expect(result.finalPrice.toString()).toBe('999.00');
+    });
+
+    it('should discount a different product when the trigger product is bought', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bundle',
+          config: {
+            name: 'PUMA shoe + socks',
+            kind: 'BUY_X_GET_Y',
+            buy: { brands: ['PUMA'], categories: ['Shoes'] },
+            buyQuantity: 1,
+            get: { brands: ['PUMA'], categories: ['Socks'] },
+            getQuantity: 1,
+            getDiscountPercentage: new Decimal(50),
+          },
+        },
+      ]);
+
+      const cart = [item('20', 'PUMA', 'Shoes', 3000, 1), item('21', 'PUMA', 'Socks', 400, 2)];
+      const result = await service.calculateCartDiscounts(cart, customer);
+
+      expect(result.appliedDiscounts).toEqual({ 'Bundle Offer - PUMA shoe + socks': Money.of(200) });
+      expect(result.lineItems[1].finalLinePrice).toEqual(Money.of(600));
+
+      const socksOnly = await service.calculateCartDiscounts([cart[1]], customer);
+      expect(socksOnly.appliedDiscounts).toEqual({});
+    });
+
+    it('should grant only what its rounded line shares add up to', async () => {
+      const service = new DiscountService([
+        {
+          type: 'bundle',
+          config: {
+            name: 'Socks with shoes',
+            kind: 'BUY_X_GET_Y',
+            buy: { categories: ['Shoes'] },
+            buyQuantity: 1,
+            get: { categories: ['Socks'] },
+            getQuantity: 1,
+          },
+        },
+      ]);
+      const cart = [
+        item('30', 'PUMA', 'Shoes', 50, 2),
+        item('31', 'PUMA', 'Socks', 10.005, 1),
+        item('32', 'NIKE', 'Socks', 12, 2),
+      ];
+
+      const result = await service.calculateCartDiscounts(cart, customer);
+
+      // 10.005 + 12 rounds to 22.01, but the unit of the first socks cannot take 10.01
+      expect(result.appliedDiscounts).toEqual({ 'Bundle Offer - Socks with shoes': Money.of(22) });
+      expect(result.lineItems.map(line => line.finalLinePrice.toString())).toEqual(['100.00', '0.005', '12.00']);
+      expect(result.finalPrice.toString()).toBe('112.005'); // the sum of the lines, which the unrounded price keeps
+    });
+  });
+
+  describe('tiered spend discounts', () => {
+    const tieredConfig = {
+      type: 'tiered' as const,
+      config: {
+        name: 'Spend More Save More',
+        tiers: [
+          { threshold: new Decimal(5000), discountPercentage: new Decimal(10) },
+          { threshold: new Decimal(2000), discountPercentage: new Decimal(5) },
+          { threshold: new Decimal(10000), discountPercentage: new Decimal(15), flatAmount: new Decimal(500) },
+        ],
+        excludedCategories: ['Gift Cards'],
+      },
+    };
+    const item = (id: string, category: string, price: number): CartItem => ({
+      product: {
+        id,
+        brand: 'NIKE',
+        brandTier: BrandTier.REGULAR,
+        category,
+        basePrice: new Decimal(price),
+        currentPrice: new Decimal(price),
+      },
+      quantity: 1,
+      size: 'M',
+    });
+
+    it.each([
+      [1500, undefined],
+      [2000, 100],
+      [6000, 600],
+      [12000, 2300], // 15% of 12000 + 500
+    ])('should apply only the highest tier reached for a %d cart', async (total, expected) => {
+      const service = new DiscountService([tieredConfig]);
+
+      const result = await service.calculateCartDiscounts([item('30', 'Shoes', total)], customer);
+
+      const discount = result.appliedDiscounts['Tiered Spend Discount - Spend More Save More'];
+      expect(discount?.amount.toNumber()).toBe(expected);
+    });
+
+    it('should leave excluded categories out of the tier and the discount', async () => {
+      const service = new DiscountService([tieredConfig]);
+
+      const result = await service.calculateCartDiscounts(
+        [item('30', 'Shoes', 4000), item('31', 'Gift Cards', 3000)],
+        customer
+      );
+
+      // Eligible subtotal 4000 only reaches the 2000 tier
+      expect(result.appliedDiscounts['Tiered Spend Discount - Spend More Save More']).toEqual(Money.of(200));
+      expect(result.lineItems[1].discounts).toEqual({});
+      expect(result.message).toContain('spend tier ₹2000 reached');
+    });
+
+    it('should cap the discount of a tier and validate it once per calculation', async () => {
+      const service = new DiscountService([
+        {
+          type: 'tiered',
+          config: { name: 'Capped', tiers: [{ threshold: new Decimal(1000), discountPercentage: new Decimal(20), maxDiscountCap: new Decimal(300) }] },
+        },
+      ]);
+      const calls = jest.spyOn(service.listDiscountStrategies()[0].strategy as TieredDiscountStrategy, 'explainValidation');
+
+      const result = await service.calculateCartDiscounts([item('30', 'Shoes', 4000)], customer);
+
+      expect(result.appliedDiscounts).toEqual({ 'Tiered Spend Discount - Capped': Money.of(300) });
+      expect(calls).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('line item breakdown', () => {
+    it('should allocate each discount to the lines it applies to', async () => {
+      const multiItems: CartItem[] = [
+        ...cartItems,
+        {
+          product: {
+            id: '2',
+            brand: 'NIKE',
+            brandTier: BrandTier.REGULAR,
+            category: 'T-shirts',
+            basePrice: new Decimal(1000),
+            currentPrice: new Decimal(1000),
+          },
+          quantity: 2,
+          size: 'L',
+        },
+      ];
+
+      const result = await discountService.calculateCartDiscounts(
+        multiItems,
+        customer,
+        paymentInfo,
+        { voucherCodes: ['SUPER69'] }
+      );
+
+      // PUMA line: 2000 → brand 800 → 1200 → category 120 → 1080 → voucher 745.2 → 334.8 → bank 33.48 → 301.32
+      // NIKE line: 2000 → category 200 → 1800 → voucher 1242 → 558 → bank 55.8 → 502.2
+      const [puma, nike] = result.lineItems;
+      expect(puma.originalLinePrice).toEqual(Money.of(2000));
+      expect(puma.discounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(120),
+        'Voucher Discount - SUPER69 (69%)': Money.of(745.2),
+        'Bank Card Discount - ICICI (10%)': Money.of(33.48),
+      });
+      expect(puma.finalLinePrice.amount.toNumber()).toBe(301.32);
+
+      expect(nike.productId).toBe('2');
+      expect(nike.originalUnitPrice).toEqual(Money.of(1000));
+      expect(nike.discounts['Brand Discount - PUMA (40%)']).toBeUndefined();
+      expect(nike.discounts['Category Discount - T-shirts (10%)']).toEqual(Money.of(200));
+      expect(nike.finalLinePrice.amount.toNumber()).toBe(502.2);
+      expect(nike.finalUnitPrice.amount.toNumber()).toBe(251.1);
+
+      const lineTotal = Money.sum(result.lineItems.map(line => line.finalLinePrice));
+      expect(lineTotal.round().toString()).toBe(result.finalPrice.toString());
+    });
+
+    it('should give leftover rounding to the largest line first', async () => {
+      const evenItems: CartItem[] = ['7', '8', '9'].map(id => ({
+        product: {
+          id,
+          brand: 'NIKE',
+          brandTier: BrandTier.REGULAR,
+          category: 'T-shirts',
+          basePrice: new Decimal('333.33'),
+          currentPrice: new Decimal('333.33'),
+        },
+        quantity: 1,
+        size: 'M',
+      }));
+
+      const result = await discountService.calculateCartDiscounts(evenItems, customer, undefined);
+
+      // Category discount: 10% of 999.99 = 99.999, rounded to 100.00 and split 33.33 each with 0.01 left over
+      const categoryShares = result.lineItems.map(
+        line => line.discounts['Category Discount - T-shirts (10%)'].toString()
+      );
+      expect(categoryShares).toEqual(['33.34', '33.33', '33.33']);
+
+      for (const [name, amount] of Object.entries(result.appliedDiscounts)) {
+        const allocated = Money.sum(result.lineItems.flatMap(line => line.discounts[name] ?? []));
+        expect(allocated.equals(amount)).toBe(true);
+      }
+    });
+  });
+
+  describe('currencies and rounding', () => {
+    const line = (id: string, price: string, quantity = 1, currency?: string): CartItem => ({
+      product: {
+        id,
+        brand: 'PUMA',
+        brandTier: BrandTier.PREMIUM,
+        category: 'T-shirts',
+        basePrice: new Decimal(price),
+        currentPrice: new Decimal(price),
+        ...(currency && { currency }),
+      },
+      quantity,
+      size: 'M',
+    });
+
+    it('should only apply offers in the currency of the cart and reject carts in several currencies', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+        { type: 'voucher', config: { code: 'SAVE5', currency: 'USD', flatAmount: new Decimal(5) } },
+      ]);
+      const usdCart = [line('1', '40', 3, 'USD')];
+
+      const result = await service.calculateCartDiscounts(usdCart, customer, undefined, {
+        voucherCodes: ['SAVE5'],
+        explain: true,
+      });
+
+      expect(result.currency).toBe('USD');
+      expect(result.originalPrice.toString()).toBe('120.00');
+      expect(result.finalPrice.toString()).toBe('115.00');
+      expect(result.appliedDiscounts).toEqual({ 'Voucher Discount - SAVE5 ($5 off)': Money.of(5, 'USD') });
+      expect(result.trace![0].failure).toEqual({ rule: 'CURRENCY', message: 'Offer is in INR but the cart is in USD' });
+      await expect(
+        service.calculateCartDiscounts([...usdCart, line('2', '100', 1, 'AED')], customer)
+      ).rejects.toThrow('Cart items are priced in more than one currency: USD, AED');
+    });
+
+    it('should state budgets in the currency of the cart', async () => {
+      const service = new DiscountService([
+        {
+          type: 'brand',
+          id: 'puma-usd',
+          budget: { total: new Decimal(50) },
+          config: { brand: 'PUMA', currency: 'USD', discountPercentage: new Decimal(40) },
+        },
+      ]);
+      const pricing = await service.calculateCartDiscounts([line('1', '40', 3, 'USD')], customer);
+
+      await service.spendCampaignBudgets('order-1', pricing);
+
+      await expect(service.spendCampaignBudgets('order-2', pricing)).rejects.toThrow(
+        'puma-usd would exceed its budget of $50'
+      );
+    });
+
+    it('should not add up amounts in different currencies', async () => {
+      const ledger = new InMemoryCampaignSpendLedger();
+      const spend = (orderId: string, amount: Money) =>
+        ledger.spend({ campaignId: 'puma-usd', orderId, amount, spentAt: new Date('2025-06-15T10:00:00Z') }, { total: new Decimal(50) });
+
+      await spend('order-1', Money.of(20, 'USD'));
+
+      await expect(spend('order-2', Money.of(20, 'AED'))).rejects.toThrow('Cannot combine USD and AED amounts');
+      expect(() => Money.of(1, 'USD').minus(Money.of(1, 'AED'))).toThrow('Cannot combine USD and AED amounts');
+    });
+
+    it('should keep every digit of large carts', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(10) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts([line('1', '123456789.99', 1000)], customer);
+
+      expect(result.originalPrice.toString()).toBe('123456789990.00');
+      expect(result.finalPrice.toString()).toBe('111111110991.00');
+      expect(result.appliedDiscounts['Brand Discount - PUMA (10%)']).toEqual(Money.of('12345678999'));
+    });
+
+    it('should round per discount, per line or at the end as asked', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(15) } },
+        { type: 'category', config: { category: 'T-shirts', discountPercentage: new Decimal(10) } },
+      ]);
+      const cart = [line('1', '10.41'), line('2', '10.41'), line('3', '10.41')];
+      const price = (rounding: RoundingPolicy) => service.calculateCartDiscounts(cart, customer, undefined, { rounding });
+
+      // 31.23 → brand 4.6845 → category 10% of what is left
+      const perDiscount = await price('PER_DISCOUNT'); // 4.68, then 10% of 26.55 = 2.655 → 2.66
+      const perLine = await price('PER_LINE'); // 1.5615 → 1.56 per line, then 10% of 8.85 = 0.885 → 0.89 per line
+      const atEnd = await price('AT_END'); // 4.6845 → 4.68, 10% of 26.5455 = 2.65455 → 2.65
+
+      expect([perDiscount, perLine, atEnd].map(result => result.finalPrice.toString())).toEqual(['23.89', '23.88', '23.90']);
+      expect(atEnd.appliedDiscounts['Category Discount - T-shirts (10%)']).toEqual(Money.of('2.65'));
+      expect(atEnd.lineItems.map(item => item.discounts['Category Discount - T-shirts (10%)'].toString())).toEqual([
+        '0.89',
+        '0.88',
+        '0.88',
+      ]);
+      for (const result of [perDiscount, perLine, atEnd]) {
+        const lineTotal = Money.sum(result.lineItems.map(item => item.finalLinePrice));
+        expect(lineTotal.round().toString()).toBe(result.finalPrice.toString());
+      }
+    });
+  });
+
+  describe('fees', () => {
+    const line = (id: string, brand: string, price: string): CartItem => ({
+      product: {
+        id,
+        brand,
+        brandTier: BrandTier.PREMIUM,
+        category: 'T-shirts',
+        basePrice: new Decimal(price),
+        currentPrice: new Decimal(price),
+      },
+      quantity: 1,
+      size: 'M',
+    });
+    const fees: CartFee[] = [
+      { type: 'SHIPPING', amount: new Decimal(49) },
+      { type: 'COD', amount: new Decimal(30) },
+      { type: 'CONVENIENCE', amount: new Decimal(15) },
+    ];
+    const freeShipping: StrategyConfig = {
+      type: 'feeWaiver',
+      config: { name: 'Free shipping above ₹499', feeTypes: ['SHIPPING'], minimumCartAmount: new Decimal(499) },
+    };
+    const premiumCod: StrategyConfig = {
+      type: 'feeWaiver',
+      config: {
+        name: 'Half-price COD for PREMIUM',
+        feeTypes: ['SHIPPING', 'COD'],
+        customerTiers: ['PREMIUM'],
+        discountPercentage: new Decimal(50),
+      },
+    };
+
+    it('should waive fees once the discounted products reach the minimum and report the waivers apart', async () => {
+      const service = new DiscountService([
+        { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+        freeShipping,
+        premiumCod,
+      ]);
+      const premium = { ...customer, tier: 'PREMIUM' };
+
+      const result = await service.calculateCartDiscounts([line('1', 'NIKE', '600')], premium, undefined, { fees });
+      // 800 → 480 after the PUMA offer, below the ₹499 minimum
+      const discounted = await service.calculateCartDiscounts([line('1', 'PUMA', '800')], premium, undefined, { fees });
+      const regular = await service.calculateCartDiscounts([line('1', 'NIKE', '600')], customer, undefined, { fees });
+
+      expect(result.finalPrice.toString()).toBe('600.00');
+      expect(result.appliedDiscounts).toEqual({});
+      expect(result.fees!.charges.map(charge => [charge.type, charge.payableAmount])).toEqual([
+        ['SHIPPING', new Decimal(0)],
+        ['COD', new Decimal(15)],
+        ['CONVENIENCE', new Decimal(15)],
+      ]);
+      expect(result.fees!.waivers).toEqual({
+        'Fee Waiver - Free shipping above ₹499': new Decimal(49),
+        'Fee Waiver - Half-price COD for PREMIUM': new Decimal(15),
+      });
+      expect(result.fees!.totalFees).toEqual(new Decimal(94));
+      expect(result.fees!.payableFees).toEqual(new Decimal(30));
+      expect(discounted.fees!.charges[0].waivers).toEqual({ 'Fee Waiver - Half-price COD for PREMIUM': new Decimal('24.5') });
+      expect(regular.fees!.waivers).toEqual({ 'Fee Waiver - Free shipping above ₹499': new Decimal(49) });
+      expect((await service.calculateCartDiscounts([line('1', 'NIKE', '600')], premium)).fees).toBeUndefined();
+    });
+
+    it('should skip a fee waiver that is not combinable with an applied product offer', async () => {
+      const service = new DiscountService([
+        { type: 'voucher', id: 'save100', config: { code: 'SAVE100', flatAmount: new Decimal(100) } },
+        { type: 'feeWaiver', id: 'free-shipping', notCombinableWith: ['save100'], config: { name: 'Free shipping', feeTypes: ['SHIPPING'] } },
+      ]);
+      const cart = [line('1', 'NIKE', '600')];
+
+      const withVoucher = await service.calculateCartDiscounts(cart, customer, undefined, { voucherCodes: ['SAVE100'], fees });
+      const withoutVoucher = await service.calculateCartDiscounts(cart, customer, undefined, { fees });
+
+      expect(withVoucher.finalPrice.toString()).toBe('500.00');
+      expect(withVoucher.fees!.waivers).toEqual({});
+      expect(withoutVoucher.fees!.waivers).toEqual({ 'Fee Waiver - Free shipping': new Decimal(49) });
+    });
+
+    it('should not count fees toward the minimums of product offers', async () => {
+      const service = new DiscountService([
+        { type: 'voucher', config: { code: 'SAVE100', flatAmount: new Decimal(100), minimumCartAmount: new Decimal(1000) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts([line('1', 'NIKE', '960')], customer, undefined, {
+        voucherCodes: ['SAVE100'],
+        fees,
+      });
+
+      expect(result.voucherResults[0].status).toBe('INELIGIBLE');
+      expect(result.finalPrice.toString()).toBe('960.00');
+      expect(result.fees!.payableFees).toEqual(new Decimal(94));
+    });
+
+    it('should reject invalid fees and fee waivers', async () => {
+      const service = new DiscountService([freeShipping]);
+      const cart = [line('1', 'NIKE', '600')];
+
+      await expect(
+        service.calculateCartDiscounts(cart, customer, undefined, { fees: [...fees, { type: 'COD', amount: new Decimal(10) }] })
+      ).rejects.toThrow('Fee COD is listed more than once');
+      await expect(
+        service.calculateCartDiscounts(cart, customer, undefined, { fees: [{ type: 'SHIPPING', amount: new Decimal(-1) }] })
+      ).rejects.toThrow('Invalid SHIPPING fee amount');
+      expect(() =>
+        service.addDiscountStrategy({ type: 'feeWaiver', config: { name: 'Free gift wrap', feeTypes: ['GIFT_WRAP' as FeeType] } })
+      ).toThrow('Unknown fee type: GIFT_WRAP');
+    });
+  });
+
+  describe('GST', () => {
+    const line = (id: string, brand: string, category: string, price: string, currency?: string): CartItem => ({
+      product: {
+        id,
+        brand,
+        brandTier: BrandTier.PREMIUM,
+        category,
+        basePrice: new Decimal(price),
+        currentPrice: new Decimal(price),
+        ...(currency && { currency }),
+      },
+      quantity: 1,
+      size: 'M',
+    });
+    const apparel = {
+      category: 'T-shirts',
+      slabs: [{ upTo: new Decimal(1000), rate: new Decimal(5) }, { rate: new Decimal(12) }],
+    };
+    const brandOffer: StrategyConfig = { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(20) } };
+
+    it('should tax discounted lines in the slab of their discounted price', async () => {
+      const service = new DiscountService([brandOffer], undefined, {
+        gst: { sellerState: 'MH', pricesIncludeTax: false, rules: [apparel] },
+      });
+      const cart = [line('1', 'PUMA', 'T-shirts', '1200'), line('2', 'NIKE', 'T-shirts', '1200')];
+
+      const result = await service.calculateCartDiscounts(cart, customer);
+      const interState = await service.calculateCartDiscounts(cart, customer, undefined, { placeOfSupply: 'KA' });
+
+      // 1200 → 960 after 20% off, which moves the PUMA line from the 12% slab to 5%
+      expect(result.tax!.supplyType).toBe('INTRA_STATE');
+      expect(result.tax!.lines[0]).toMatchObject({
+        rate: new Decimal(5),
+        listRate: new Decimal(12),
+        taxableValue: new Decimal(960),
+        cgst: new Decimal(24),
+        sgst: new Decimal(24),
+        igst: new Decimal(0),
+      });
+      expect(result.tax!.lines[1]).toMatchObject({ rate: new Decimal(12), cgst: new Decimal(72), sgst: new Decimal(72) });
+      expect(result.tax!.totalTax).toEqual(new Decimal(192));
+      expect(result.tax!.invoiceTotal).toEqual(new Decimal(2352));
+      expect(interState.tax!.supplyType).toBe('INTER_STATE');
+      expect(interState.tax!.lines.map(taxed => taxed.igst)).toEqual([new Decimal(48), new Decimal(144)]);
+      expect(interState.tax!.cgst).toEqual(new Decimal(0));
+    });
+
+    it('should take GST out of tax-inclusive prices and fall back to the default rate', async () => {
+      const service = new DiscountService([], undefined, {
+        gst: { sellerState: 'MH', pricesIncludeTax: true, rules: [apparel], defaultRate: new Decimal(18) },
+      });
+
+      const result = await service.calculateCartDiscounts(
+        [line('1', 'PUMA', 'T-shirts', '1050'), line('2', 'PUMA', 'Shoes', '1180')],
+        customer
+      );
+
+      expect(result.tax!.lines.map(taxed => [taxed.rate, taxed.taxableValue, taxed.cgst])).toEqual([
+        [new Decimal(5), new Decimal(1000), new Decimal(25)],
+        [new Decimal(18), new Decimal(1000), new Decimal(90)],
+      ]);
+      expect(result.tax!.invoiceTotal.toFixed(2)).toBe(result.finalPrice.toString());
+    });
+
+    it('should reject missing rates and invalid slabs, and leave other currencies untaxed', async () => {
+      const service = new DiscountService([], undefined, {
+        gst: { sellerState: 'MH', pricesIncludeTax: false, rules: [apparel] },
+      });
+
+      await expect(service.calculateCartDiscounts([line('1', 'PUMA', 'Shoes', '100')], customer)).rejects.toThrow(
+        'No GST rate configured for category Shoes'
+      );
+      const usd = await service.calculateCartDiscounts([line('1', 'PUMA', 'Shoes', '100', 'USD')], customer);
+      expect(usd.tax).toBeUndefined();
+      expect(
+        () =>
+          new DiscountService([], undefined, {
+            gst: {
+              sellerState: 'MH',
+              pricesIncludeTax: false,
+              rules: [{ category: 'T-shirts', slabs: [{ rate: new Decimal(12) }, ...apparel.slabs] }],
+            },
+          })
+      ).toThrow('GST slabs of T-shirts must be in ascending order, with only the last one open');
+    });
+
+    it('should reject line items that do not match the cart', () => {
+      const calculator = new GstCalculator({ sellerState: 'MH', pricesIncludeTax: false, rules: [apparel] });
+
+      expect(() => calculator.calculate([line('1', 'PUMA', 'T-shirts', '100')], [])).toThrow(
+        'Expected 1 line items for the cart, got 0'
+      );
+    });
+  });
+
+  describe('price floors', () => {
+    const costed: CartItem[] = [{ ...cartItems[0], product: { ...cartItems[0].product, cost: new Decimal(750) } }];
+
+    it('should trim the last applied discounts first to keep the minimum margin over cost', async () => {
+      const service = new DiscountService(discounts, undefined, {
+        margin: { rules: [{ categories: ['T-shirts'], minMarginPercentage: new Decimal(25) }] },
+      });
+
+      const result = await service.calculateCartDiscounts(costed, customer, paymentInfo, {
+        voucherCodes: ['SUPER69'],
+        explain: true,
+      });
+
+      // Stacked: 2000 → 301.32; the floor for a 25% margin is 750 / 0.75 = 1000, so 698.68 comes back:
+      // ICICI 33.48 in full, then 665.2 of SUPER69's 745.2
+      expect(result.finalPrice.toString()).toBe('1000.00');
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(120),
+        'Voucher Discount - SUPER69 (69%)': Money.of(80),
+      });
+      expect(result.trimmedDiscounts).toEqual([
+        { productId: '1', size: 'M', name: 'Bank Card Discount - ICICI (10%)', amount: new Decimal(33.48), reason: 'MIN_MARGIN', floorPrice: new Decimal(1000) },
+        { productId: '1', size: 'M', name: 'Voucher Discount - SUPER69 (69%)', amount: new Decimal(665.2), reason: 'MIN_MARGIN', floorPrice: new Decimal(1000) },
+      ]);
+      expect(result.lineItems[0].finalLinePrice).toEqual(Money.of(1000));
+      expect(result.trace!.find(entry => entry.id === 'Voucher Discount - SUPER69 (69%)')).toMatchObject({
+        status: 'APPLIED',
+        appliedAmount: new Decimal(80),
+        cap: { reason: 'PRICE_FLOOR', uncappedAmount: new Decimal(745.2), limit: new Decimal(80) },
+      });
+      expect(result.trace!.find(entry => entry.id === 'Bank Card Discount - ICICI (10%)')?.status).toBe('NO_DISCOUNT');
+      expect(result.message).not.toContain('Applied Bank Card Discount - ICICI (10%)');
+      expect(result.message).toContain('Trimmed Voucher Discount - SUPER69 (69%) to keep prices above their floor');
+    });
+
+    it('should cap the total discount percentage, trimming the offers of the trim order first', async () => {
+      const service = new DiscountService(discounts, undefined, {
+        margin: { rules: [{ maxDiscountPercentage: new Decimal(60) }], trimOrder: ['Voucher Discount - SUPER69 (69%)'] },
+      });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo, { voucherCodes: ['SUPER69'] });
+      const unguarded = await service.calculateCartDiscounts(
+        [{ ...cartItems[0], product: { ...cartItems[0].product, category: 'Shoes' } }],
+        customer,
+        paymentInfo
+      );
+
+      // At most 60% of 2000 off: SUPER69 gives back 498.68 and ICICI is kept
+      expect(result.finalPrice.toString()).toBe('800.00');
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(120),
+        'Voucher Discount - SUPER69 (69%)': Money.of(246.52),
+        'Bank Card Discount - ICICI (10%)': Money.of(33.48),
+      });
+      expect(result.trimmedDiscounts).toEqual([
+        { productId: '1', size: 'M', name: 'Voucher Discount - SUPER69 (69%)', amount: new Decimal(498.68), reason: 'MAX_DISCOUNT_PERCENTAGE', floorPrice: new Decimal(800) },
+      ]);
+      // 2000 → 1200 → 1080 (46%) is within the cap
+      expect(unguarded.finalPrice.toString()).toBe('1080.00');
+      expect(unguarded.trimmedDiscounts).toEqual([]);
+    });
+
+    it('should count a markdown towards the maximum discount percentage off the MRP', async () => {
+      const service = new DiscountService(discounts, undefined, {
+        margin: { rules: [{ maxDiscountPercentage: new Decimal(50) }] },
+      });
+      const markedDown: CartItem[] = [{ ...cartItems[0], product: { ...cartItems[0].product, currentPrice: new Decimal(1500) } }];
+
+      const result = await service.calculateCartDiscounts(markedDown, customer);
+
+      // 1500 → 900 → 810 after PUMA and T-shirts, but at most 50% off the MRP of 2000 leaves 1000
+      expect(result.finalPrice.toString()).toBe('1000.00');
+      expect(result.trimmedDiscounts).toEqual([
+        { productId: '1', size: 'M', name: 'Category Discount - T-shirts (10%)', amount: new Decimal(90), reason: 'MAX_DISCOUNT_PERCENTAGE', floorPrice: new Decimal(1000) },
+        { productId: '1', size: 'M', name: 'Brand Discount - PUMA (40%)', amount: new Decimal(100), reason: 'MAX_DISCOUNT_PERCENTAGE', floorPrice: new Decimal(1000) },
+      ]);
+    });
+
+    it('should apply the highest floor, never raise a line above its price and skip margins without a cost', async () => {
+      const service = new DiscountService(discounts, undefined, {
+        margin: {
+          rules: [
+            { brands: ['PUMA'], minMarginPercentage: new Decimal(10), minPrice: new Decimal(1500) },
+            { categories: ['Shoes'], minPrice: new Decimal(5000) },
+          ],
+        },
+      });
+      const shoe: CartItem = { ...cartItems[0], product: { ...cartItems[0].product, id: '2', category: 'Shoes', cost: new Decimal(1950) } };
+
+      const result = await service.calculateCartDiscounts([...costed, shoe], customer);
+
+      // T-shirt: 750 / 0.9 = 833.34 is below the ₹1500 minimum price, so 1080 goes back up to 1500.
+      // Shoe: the ₹5000 Shoes floor beats 1950 / 0.9 = 2166.67 and is above the price, so the whole PUMA offer comes back
+      expect(result.lineItems.map(line => line.finalLinePrice)).toEqual([Money.of(1500), Money.of(2000)]);
+      expect(result.trimmedDiscounts!.map(trim => [trim.productId, trim.reason, trim.amount])).toEqual([
+        ['1', 'MIN_PRICE', new Decimal(120)],
+        ['1', 'MIN_PRICE', new Decimal(300)],
+        ['2', 'MIN_PRICE', new Decimal(800)],
+      ]);
+      expect(result.finalPrice.toString()).toBe('3500.00');
+
+      const uncosted = await service.calculateCartDiscounts(cartItems, customer);
+      expect(uncosted.finalPrice.toString()).toBe('1500.00');
+    });
+
+    it('should keep listing prices above their floor', async () => {
+      const service = new DiscountService(discounts, undefined, {
+        margin: { rules: [{ maxDiscountPercentage: new Decimal(50) }] },
+      });
+
+      const [listing] = await service.priceListings([cartItems[0].product]);
+
+      expect(listing).toMatchObject({ price: new Decimal(1080), bestPrice: new Decimal(1000) });
+    });
+
+    it('should reject a price floor rule without a floor or with a margin of 100% or more', () => {
+      expect(() => new DiscountService([], undefined, { margin: { rules: [{ brands: ['PUMA'] }] } })).toThrow(
+        'A price floor rule needs a minimum margin, a minimum price or a maximum discount percentage'
+      );
+      expect(
+        () => new DiscountService([], undefined, { margin: { rules: [{ minMarginPercentage: new Decimal(100) }] } })
+      ).toThrow('Invalid minimum margin percentage');
+    });
+  });
+
+  describe('events', () => {
+    const cappedBrand: BrandStrategyConfig = {
+      type: 'brand',
+      id: 'puma',
+      stackingGroup: 'catalog',
+      config: { brand: 'PUMA', discountPercentage: new Decimal(40), maxDiscountCap: new Decimal(500) },
+    };
+    const category: CategoryStrategyConfig = {
+      type: 'category',
+      id: 't-shirts',
+      stackingGroup: 'catalog',
+      config: { category: 'T-shirts', discountPercentage: new Decimal(10) },
+    };
+    const bank: StrategyConfig = { type: 'bank', id: 'icici', config: { bankName: 'ICICI', discountPercentage: new Decimal(10) } };
+
+    it('should publish the lifecycle of a calculation with the amounts of the result', async () => {
+      const messages: string[] = [];
+      const logger = { debug: (message: string) => messages.push(message) };
+      const bus = new DiscountEventBus(logger);
+      const service = new DiscountService([cappedBrand, category, bank], undefined, { events: bus, logger });
+      const events: [string, any][] = [];
+      const names = [
+        'strategy.evaluated',
+        'discount.applied',
+        'discount.capped',
+        'discount.rejected',
+        'calculation.completed',
+      ] as const;
+      const unsubscribe = names.map(name => bus.on(name, event => events.push([name, event])));
+      bus.on('discount.applied', () => {
+        throw new Error('analytics is down');
+      });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, undefined, { correlationId: 'req-1' });
+      unsubscribe.forEach(off => off());
+      await service.calculateCartDiscounts(cartItems, customer);
+
+      // 40% of 2000 is capped at 500; the category offer loses to it and the bank offer needs a card
+      expect(result.finalPrice.toString()).toBe('1500.00');
+      expect(events.map(([name, event]) => [name, event.strategyId ?? event.evaluation?.id])).toEqual([
+        ['strategy.evaluated', 'puma'],
+        ['discount.applied', 'puma'],
+        ['discount.capped', 'puma'],
+        ['strategy.evaluated', 't-shirts'],
+        ['discount.rejected', 't-shirts'],
+        ['strategy.evaluated', 'icici'],
+        ['discount.rejected', 'icici'],
+        ['calculation.completed', undefined],
+      ]);
+      expect(events[1][1]).toMatchObject({ kind: 'INSTANT', amount: new Decimal(500), correlationId: 'req-1' });
+      expect(events[2][1].cap).toEqual({ reason: 'MAX_DISCOUNT_CAP', uncappedAmount: new Decimal(800), limit: new Decimal(500) });
+      expect(events[4][1]).toMatchObject({ status: 'NOT_SELECTED' });
+      expect(events[6][1]).toMatchObject({ status: 'NOT_ELIGIBLE', failure: { rule: 'PAYMENT_METHOD' } });
+      expect(events[7][1].pricing).toBe(result);
+      expect(new Set(events.map(([, event]) => event.calculationId)).size).toBe(1);
+      expect(messages).toContain('Listener for discount.applied failed: analytics is down');
+    });
+
+    it('should subscribe the service callback to discount.applied, so it only sees the amounts granted', async () => {
+      const onDiscountApplied = jest.fn();
+      const service = new DiscountService([cappedBrand, category], onDiscountApplied);
+
+      await service.calculateCartDiscounts(cartItems, customer, undefined, { correlationId: 'req-2' });
+
+      expect(onDiscountApplied).toHaveBeenCalledTimes(1);
+      expect(onDiscountApplied).toHaveBeenCalledWith(
+        expect.objectContaining({ strategyId: 'puma', kind: 'INSTANT', amount: new Decimal(500), correlationId: 'req-2' })
+      );
+    });
+  });
+
+  describe('calculation modes and priorities', () => {
+    const [brand, category, , bank] = discounts as [BrandStrategyConfig, CategoryStrategyConfig, VoucherStrategyConfig, BankStrategyConfig];
+
+    it('should calculate every discount on the MRP when the service uses BASE_PRICE', async () => {
+      const service = new DiscountService([brand, category], undefined, { calculationMode: 'BASE_PRICE' });
+
+      const result = await service.calculateCartDiscounts(cartItems, customer);
+
+      // 40% + 10% of the 2000 MRP is 50% off, not 46%
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(200),
+      });
+      expect(result.finalPrice.toString()).toBe('1000.00');
+    });
+
+    it('should let a campaign choose its own calculation mode', async () => {
+      const service = new DiscountService([brand, { ...category, calculationMode: 'BASE_PRICE' }, bank]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, paymentInfo);
+
+      // 2000 → brand 800 → 1200 → category 10% of MRP 200 → 1000 → bank 10% of 1000 → 900
+      expect(result.appliedDiscounts).toEqual({
+        'Brand Discount - PUMA (40%)': Money.of(800),
+        'Category Discount - T-shirts (10%)': Money.of(200),
+        'Bank Card Discount - ICICI (10%)': Money.of(100),
+      });
+    });
+
+    it('should use basePrice rather than a lower selling price in BASE_PRICE mode', async () => {
+      const service = new DiscountService([{ ...brand, calculationMode: 'BASE_PRICE' }]);
+      const onSale: CartItem[] = [
+        { ...cartItems[0], product: { ...cartItems[0].product, basePrice: new Decimal(2500) } },
+      ];
+
+      const result = await service.calculateCartDiscounts(onSale, customer, undefined, { explain: true });
+
+      expect(result.appliedDiscounts).toEqual({ 'Brand Discount - PUMA (40%)': Money.of(1000) });
+      expect(result.trace![0]).toMatchObject({ calculationMode: 'BASE_PRICE', eligibleSubtotal: new Decimal(2500) });
+    });
+
+    it('should order strategies by the configured priority, then by the order they were added', async () => {
+      const byInsertion = new DiscountService([category, brand]);
+      const byPriority = new DiscountService([{ ...brand, priority: 2 }, bank, { ...category, priority: 0 }]);
+
+      const insertionResult = await byInsertion.calculateCartDiscounts(cartItems, customer);
+      const priorityResult = await byPriority.calculateCartDiscounts(cartItems, customer, paymentInfo, { explain: true });
+
+      // 2000 → category 200 → 1800 → brand 720 → 1080
+      expect(insertionResult.appliedDiscounts).toEqual({
+        'Category Discount - T-shirts (10%)': Money.of(200),
+        'Brand Discount - PUMA (40%)': Money.of(720),
+      });
+      expect(priorityResult.trace!.map(entry => [entry.name, entry.priority])).toEqual([
+        ['Category Discount - T-shirts (10%)', 0],
+        ['Brand Discount - PUMA (40%)', 2],
+        ['Bank Card Discount - ICICI (10%)', 4],
+      ]);
+      expect(Object.keys(priorityResult.appliedDiscounts)).toEqual([
+        'Category Discount - T-shirts (10%)',
+        'Brand Discount - PUMA (40%)',
+        'Bank Card Discount - ICICI (10%)',
+      ]);
+    });
+  });
+
+  describe('explain mode', () => {
+    it('should not return a trace unless asked for', async () => {
+      const result = await discountService.calculateCartDiscounts(cartItems, customer, paymentInfo);
+
+      expect(result.trace).toBeUndefined();
+    });
+
+    it('should report the failed rule of every strategy in priority order', async () => {
+      const service = new DiscountService([
+        ...discounts,
+        { type: 'brand', config: { brand: 'NIKE', discountPercentage: new Decimal(20) } },
+      ]);
+      const hdfcPayment: PaymentInfo = { method: 'CARD', bankName: 'HDFC', cardType: 'CREDIT' };
+      const mixedCart: CartItem[] = [
+        {
+          ...cartItems[0],
+          product: { ...cartItems[0].product, basePrice: new Decimal(600), currentPrice: new Decimal(600) },
+        },
+        {
+          product: {
+            id: '2',
+            brand: 'NIKE',
+            brandTier: BrandTier.REGULAR,
+            category: 'Shoes',
+            basePrice: new Decimal(500),
+            currentPrice: new Decimal(500),
+          },
+          quantity: 1,
+          size: '9',
+        },
+      ];
+
+      const result = await service.calculateCartDiscounts(mixedCart, customer, hdfcPayment, {
+        voucherCodes: ['SUPER69'],
+        explain: true,
+      });
+
+      // 1100 → PUMA 40% of 600 = 240 → 860 → T-shirts 10% of 360 = 36 → 824, below the SUPER69 minimum
+      expect(
+        result.trace!.map(({ order, name, priority, status, failure }) => ({ order, name, priority, status, rule: failure?.rule }))
+      ).toEqual([
+        { order: 1, name: 'Brand Discount - PUMA (40%)', priority: 1, status: 'APPLIED', rule: undefined },
+        { order: 2, name: 'Category Discount - T-shirts (10%)', priority: 1, status: 'APPLIED', rule: undefined },
+        { order: 3, name: 'Brand Discount - NIKE (20%)', priority: 1, status: 'NOT_ELIGIBLE', rule: 'BRAND_TIER' },
+        { order: 4, name: 'Voucher Discount - SUPER69 (69%)', priority: 2, status: 'NOT_ELIGIBLE', rule: 'MINIMUM_AMOUNT' },
+        { order: 5, name: 'Bank Card Discount - ICICI (10%)', priority: 4, status: 'NOT_ELIGIBLE', rule: 'BANK_MISMATCH' },
+      ]);
+
+      const [brand, category, , voucher, bank] = result.trace!;
+      expect(brand).toMatchObject({
+        validationPassed: true,
+        eligibleSubtotal: new Decimal(600),
+        calculatedAmount: new Decimal(240),
+        appliedAmount: new Decimal(240),
+      });
+      expect(category.eligibleSubtotal).toEqual(new Decimal(360));
+      expect(voucher.failure!.message).toBe('Eligible subtotal ₹824 is below the minimum of ₹1000 for voucher SUPER69');
+      expect(bank).toMatchObject({
+        validationPassed: false,
+        failure: { rule: 'BANK_MISMATCH', message: 'Card issued by HDFC, offer requires ICICI' },
+      });
+    });
+
+    it('should report capping and offers left out by stacking rules', async () => {
+      const service = new DiscountService([
+        {
+          type: 'brand',
+          stackingGroup: 'brand-offers',
+          config: { brand: 'PUMA', discountPercentage: new Decimal(40), maxDiscountCap: new Decimal(300) },
+        },
+        { type: 'brand', stackingGroup: 'brand-offers', config: { brand: 'PUMA', flatAmount: new Decimal(100) } },
+        { type: 'category', config: { category: 'T-shirts', flatAmount: new Decimal(5000) } },
+      ]);
+
+      const result = await service.calculateCartDiscounts(cartItems, customer, undefined, { explain: true });
+
+      expect(result.trace).toEqual([
+        expect.objectContaining({
+          name: 'Brand Discount - PUMA (40%)',
+          status: 'APPLIED',
+          appliedAmount: new Decimal(300),
+          cap: { reason: 'MAX_DISCOUNT_CAP', uncappedAmount: new Decimal(800), limit: new Decimal(300) },
+        }),
+        expect.objectContaining({
+          name: 'Brand Discount - PUMA (₹100 off)',
+          status: 'NOT_SELECTED',
+          reason: "Only one offer from stacking group 'brand-offers' applies; Brand Discount - PUMA (40%) gives a lower price",
+        }),
+        expect.objectContaining({
+          name: 'Category Discount - T-shirts (₹5000 off)',
+          status: 'APPLIED',
+          appliedAmount: new Decimal(1700),
+          cap: { reason: 'ELIGIBLE_SUBTOTAL', uncappedAmount: new Decimal(5000), limit: new Decimal(1700) },
+        }),
+      ]);
+    });
+
+    it('should send debug output to the injected logger', async () => {
+      const messages: string[] = [];
+      const service = new DiscountService(discounts, undefined, { logger: { debug: message => messages.push(message) } });
+
+      await service.calculateCartDiscounts(cartItems, customer, { method: 'UPI' });
+
+      expect(messages).toContain('Bank Card Discount - ICICI (10%) not eligible: Payment method UPI is not CARD');
+    });
+  });
+
+  describe('strategy registry', () => {
+    const [brand, category, voucher] = discounts as [BrandStrategyConfig, CategoryStrategyConfig, VoucherStrategyConfig];
+
+    it('should keep the strategies of each service separate', async () => {
+      const checkout = new DiscountService([brand, voucher]);
+      const catalog = new DiscountService([category]);
+
+      const checkoutResult = await checkout.calculateCartDiscounts(cartItems, customer, undefined, {
+        voucherCodes: ['SUPER69'],
+      });
+      const catalogResult = await catalog.calculateCartDiscounts(cartItems, customer, undefined, {
+        voucherCodes: ['SUPER69'],
+      });
+
+      expect(Object.keys(checkoutResult.appliedDiscounts)).toEqual(['Brand Discount - PUMA (40%)', 'Voucher Discount - SUPER69 (69%)']);
+      expect(Object.keys(catalogResult.appliedDiscounts)).toEqual(['Category Discount - T-shirts (10%)']);
+      expect(catalogResult.voucherResults[0].status).toBe('UNKNOWN');
+    });
+
+    it('should add, replace, remove and list strategies by id', async () => {
+      const service = new DiscountService();
+
+      expect(service.addDiscountStrategy({ ...brand, id: 'puma' })).toBe('puma');
+      expect(service.addDiscountStrategy(category)).toBe('Category Discount - T-shirts (10%)');
+      expect(() => service.addDiscountStrategy({ ...brand, id: 'puma' })).toThrow(
+        'Discount strategy puma is already registered'
+      );
+
+      service.replaceDiscountStrategy('puma', {
+        ...brand,
+        config: { ...brand.config, discountPercentage: new Decimal(20) },
+      });
+      expect(service.listDiscountStrategies().map(entry => [entry.id, entry.strategy.getDiscountName()])).toEqual([
+        ['puma', 'Brand Discount - PUMA (20%)'],
+        ['Category Discount - T-shirts (10%)', 'Category Discount - T-shirts (10%)'],
+      ]);
+
+      expect(service.removeDiscountStrategy('Category Discount - T-shirts (10%)')).toBe(true);
+      expect(service.removeDiscountStrategy('unknown')).toBe(false);
+      expect(() => service.replaceDiscountStrategy('unknown', brand)).toThrow(
+        'Discount strategy unknown is not registered'
+      );
+
+      const result = await service.calculateCartDiscounts(cartItems, customer);
+      expect(result.appliedDiscounts).toEqual({ 'Brand Discount - PUMA (20%)': Money.of(400) });
+    });
+
+    it('should keep voucher codes in step with the registered strategies', async () => {
+      const service = new DiscountService([{ ...voucher, id: 'super69' }]);
+
+      expect(() => service.addDiscountStrategy({ ...voucher, id: 'other' })).toThrow(
+        'Voucher code SUPER69 is already registered'
+      );
+
+      service.replaceDiscountStrategy('super69', { ...voucher, config: { ...voucher.config, code: 'MEGA70' } });
+      expect(await service.validateDiscountCode('SUPER69', cartItems, customer)).toBe(false);
+      expect(await service.validateDiscountCode('MEGA70', cartItems, customer)).toBe(true);
+
+      service.removeDiscountStrategy('super69');
+      expect(await service.validateDiscountCode('MEGA70', cartItems, customer)).toBe(false);
+    });
+  });
+
+  describe('validateDiscountCode', () => {
+    it('should validate valid discount code', async () => {
+      const isValid = await discountService.validateDiscountCode(
+        'SUPER69',
+        cartItems,
+        customer
+      );
+      expect(isValid).toBe(true);
+    });
+
+    it('should reject invalid discount code', async () => {
+      const isValid = await discountService.validateDiscountCode(
+        'INVALID_CODE',
+        cartItems,
+        customer
+      );
+      expect(isValid).toBe(false);
+    });
+
+    it('should reject valid code with insufficient cart amount', async () => {
+      const lowValueItems: CartItem[] = [
+        {
+          product: {
+            id: '5',
+            brand: 'PUMA',
+            brandTier: BrandTier.PREMIUM,
+            category: 'T-shirts',
+            basePrice: new Decimal(500),
+            currentPrice: new Decimal(500),
+          },
+          quantity: 1,
+          size: 'S',
+        },
+      ];
+
+      const isValid = await discountService.validateDiscountCode(
+        'SUPER69',
+        lowValueItems,
+        customer
+      );
+      expect(isValid).toBe(false); // SUPER69 requires minCartAmount=1000
+    });
+
+    it('should validate codes case-insensitively', async () => {
+      const isValid = await discountService.validateDiscountCode(
+        'super69',
+        cartItems,
+        customer
+      );
+      expect(isValid).toBe(true);
+    });
+
+    it('should not match brand or category discounts by name', async () => {
+      const isValid = await discountService.validateDiscountCode(
+        'PUMA',
+        cartItems,
+        customer
+      );
+      expect(isValid).toBe(false);
     });
 
     it('should reject empty discount code', async () => {
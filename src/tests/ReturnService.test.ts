@@ -0,0 +1,265 @@
+import { Decimal } from 'decimal.js';
+import { describe, beforeEach, it, expect } from '@jest/globals';
+import { DiscountService } from '../services/DiscountService';
+import { ReturnService } from '../services/ReturnService';
+import { InMemoryRedemptionLedger } from '../ledgers/InMemoryRedemptionLedger';
+import { BrandTier, CartItem, PricedOrder, StrategyConfig } from '../models/interface';
+import { customer } from './fakeData';
+
+describe('ReturnService', () => {
+  const orderedAt = new Date('2025-06-15T10:00:00Z');
+  const now = { value: orderedAt };
+  const clock = { now: () => now.value };
+
+  const campaigns: StrategyConfig[] = [
+    { type: 'brand', config: { brand: 'PUMA', discountPercentage: new Decimal(40) } },
+    {
+      type: 'voucher',
+      config: {
+        code: 'SAVE10',
+        discountPercentage: new Decimal(10),
+        minimumCartAmount: new Decimal(1500),
+        validUntil: new Date('2025-06-30T23:59:59Z'),
+        perCustomerLimit: 1,
+      },
+    },
+  ];
+
+  const cart: CartItem[] = [
+    {
+      product: {
+        id: '1',
+        brand: 'PUMA',
+        brandTier: BrandTier.PREMIUM,
+        category: 'T-shirts',
+        basePrice: new Decimal(2000),
+        currentPrice: new Decimal(2000),
+      },
+      quantity: 1,
+      size: 'M',
+    },
+    {
+      product: {
+        id: '2',
+        brand: 'NIKE',
+        brandTier: BrandTier.REGULAR,
+        category: 'Shoes',
+        basePrice: new Decimal(600),
+        currentPrice: new Decimal(600),
+      },
+      quantity: 2,
+      size: '9',
+    },
+  ];
+
+  let discountService: DiscountService;
+  let returnService: ReturnService;
+  let order: PricedOrder;
+
+  beforeEach(async () => {
+    now.value = orderedAt;
+    discountService = new DiscountService(campaigns, undefined, {
+      clock,
+      redemptionLedger: new InMemoryRedemptionLedger(),
+    });
+    returnService = new ReturnService(discountService);
+
+    // 3200 → PUMA 40% of 2000 = 800 → 2400 → SAVE10 240, split 120 per line → 2160
+    const pricing = await discountService.calculateCartDiscounts(cart, customer, undefined, { voucherCodes: ['SAVE10'] });
+    await discountService.redeemVouchers('order-1', customer, ['SAVE10']);
+    order = { orderId: 'order-1', cartItems: cart, customer, voucherCodes: ['SAVE10'], pricedAt: orderedAt, pricing };
+  });
+
+  it('should claw back a voucher whose minimum the kept items no longer meet', async () => {
+    const result = await returnService.processReturn(order, [{ productId: '1', size: 'M', quantity: 1 }]);
+
+    // Kept: 2 x 600 = 1200, below the SAVE10 minimum, so the 120 it gave the shoes is deducted
+    expect(result.returnedItemsValue).toEqual(new Decimal(1080));
+    expect(result.clawback).toEqual(new Decimal(120));
+    expect(result.refundAmount).toEqual(new Decimal(960));
+    expect(result.remainingPricing.finalPrice.toString()).toBe('1200.00');
+    expect(result.offerAdjustments).toEqual([
+      {
+        name: 'Brand Discount - PUMA (40%)',
+        status: 'PRORATED',
+        originalAmount: new Decimal(800),
+        returnedShare: new Decimal(800),
+        repricedAmount: new Decimal(0),
+        clawback: new Decimal(0),
+      },
+      {
+        name: 'Voucher Discount - SAVE10 (10%)',
+        status: 'LOST',
+        originalAmount: new Decimal(240),
+        returnedShare: new Decimal(120),
+        repricedAmount: new Decimal(0),
+        clawback: new Decimal(120),
+        reason: 'Eligible subtotal ₹1200 is below the minimum of ₹1500 for voucher SAVE10',
+      },
+    ]);
+  });
+
+  it('should explain a lost voucher with the result of its own code', async () => {
+    // SAVE10 moved to another order of the customer, so it is over its limit when order-1 is re-priced
+    await discountService.releaseVouchers('order-1');
+    await discountService.redeemVouchers('order-2', customer, ['SAVE10']);
+
+    const result = await returnService.processReturn({ ...order, voucherCodes: ['SAVE1', 'SAVE10'] }, [
+      { productId: '2', size: '9', quantity: 1 },
+    ]);
+
+    expect(result.offerAdjustments[1]).toMatchObject({
+      name: 'Voucher Discount - SAVE10 (10%)',
+      status: 'LOST',
+      reason: 'Voucher code SAVE10 has already been used the maximum number of times',
+    });
+  });
+
+  it('should re-price cashback and report what the kept items no longer earn', async () => {
+    const service = new DiscountService(
+      [
+        campaigns[0],
+        {
+          type: 'bank',
+          config: {
+            bankName: 'HDFC',
+            discountPercentage: new Decimal(10),
+            minimumCartAmount: new Decimal(1500),
+            benefitType: 'CASHBACK',
+            cashbackCreditDays: 30,
+          },
+        },
+      ],
+      undefined,
+      { clock }
+    );
+    const hdfc = { method: 'CARD', bankName: 'HDFC', cardType: 'CREDIT' };
+    // 3200 → PUMA 800 → 2400 paid, and 10% of it, 240, credited later
+    const pricing = await service.calculateCartDiscounts(cart, customer, hdfc);
+    const cashbackOrder: PricedOrder = { ...order, paymentInfo: hdfc, voucherCodes: [], pricing };
+
+    const returns = new ReturnService(service);
+
+    const shoe = await returns.processReturn(cashbackOrder, [{ productId: '2', size: '9', quantity: 1 }]);
+    const shirt = await returns.processReturn(cashbackOrder, [{ productId: '1', size: 'M', quantity: 1 }]);
+
+    // Kept: 1200 + 600 = 1800 earns 180
+    expect(shoe.cashbackAdjustments).toEqual([
+      {
+        name: 'Bank Card Discount - HDFC (10% cashback)',
+        status: 'REDUCED',
+        originalAmount: new Decimal(240),
+        repricedAmount: new Decimal(180),
+        clawback: new Decimal(60),
+      },
+    ]);
+    expect(shoe.cashbackClawback).toEqual(new Decimal(60));
+    expect(shoe.refundAmount).toEqual(new Decimal(600));
+    expect(shirt.cashbackAdjustments[0]).toMatchObject({
+      status: 'LOST',
+      clawback: new Decimal(240),
+      reason: 'Cart total ₹1200 is below the minimum of ₹1500',
+    });
+  });
+
+  it('should refund the GST added on top of tax-exclusive prices', async () => {
+    const service = new DiscountService(campaigns, undefined, {
+      clock,
+      gst: { sellerState: 'MH', pricesIncludeTax: false, rules: [], defaultRate: new Decimal(12) },
+    });
+    const pricing = await service.calculateCartDiscounts(cart, customer, undefined, { voucherCodes: ['SAVE10'], placeOfSupply: 'KA' });
+
+    const result = await new ReturnService(service).processReturn({ ...order, placeOfSupply: 'KA', pricing }, [
+      { productId: '1', size: 'M', quantity: 1 },
+    ]);
+
+    // Paid 2160 + 12% = 2419.20; the kept shoes lose SAVE10 and cost 1200 + 12% = 1344
+    expect(pricing.tax!.invoiceTotal).toEqual(new Decimal('2419.2'));
+    expect(result.remainingPricing.tax).toMatchObject({ supplyType: 'INTER_STATE', invoiceTotal: new Decimal(1344) });
+    expect(result.refundAmount).toEqual(new Decimal('1075.2'));
+  });
+
+  it('should recover a fee waiver the kept items no longer earn', async () => {
+    const service = new DiscountService(
+      [
+        ...campaigns,
+        { type: 'feeWaiver', config: { name: 'Free shipping above ₹1500', feeTypes: ['SHIPPING'], minimumCartAmount: new Decimal(1500) } },
+      ],
+      undefined,
+      { clock }
+    );
+    const pricing = await service.calculateCartDiscounts(cart, customer, undefined, {
+      voucherCodes: ['SAVE10'],
+      fees: [{ type: 'SHIPPING', amount: new Decimal(99) }],
+    });
+    const returns = new ReturnService(service);
+
+    const shirt = await returns.processReturn({ ...order, pricing }, [{ productId: '1', size: 'M', quantity: 1 }]);
+    const everything = await returns.processReturn({ ...order, pricing }, [
+      { productId: '1', size: 'M', quantity: 1 },
+      { productId: '2', size: '9', quantity: 2 },
+    ]);
+
+    // Paid 2160 with free shipping; the kept 1200 of shoes is below the waiver minimum and pays the ₹99 shipping
+    expect(pricing.fees!.payableFees).toEqual(new Decimal(0));
+    expect(shirt.remainingPricing.fees!.payableFees).toEqual(new Decimal(99));
+    expect(shirt.refundAmount).toEqual(new Decimal(861));
+    expect(everything.refundAmount).toEqual(new Decimal(2160));
+  });
+
+  it('should prorate the discounts of a partially returned line', async () => {
+    const applied: string[] = [];
+    discountService.events.on('discount.applied', event => applied.push(event.name));
+
+    const result = await returnService.processReturn(order, [{ productId: '2', size: '9', quantity: 1 }]);
+
+    // Kept: 2000 + 600 → PUMA 800 → 1800 → SAVE10 180 → 1620
+    expect(result.returnedLines).toEqual([
+      {
+        productId: '2',
+        size: '9',
+        quantity: 1,
+        paidAmount: new Decimal(540),
+        discounts: { 'Voucher Discount - SAVE10 (10%)': new Decimal(60) },
+      },
+    ]);
+    expect(result.refundAmount).toEqual(new Decimal(540));
+    expect(result.offerAdjustments.map(offer => [offer.status, offer.clawback.toString()])).toEqual([
+      ['KEPT', '0'],
+      ['PRORATED', '0'],
+    ]);
+    // The re-pricing of the kept items is not a new charge
+    expect(applied).toEqual([]);
+  });
+
+  it('should re-price with the offers as they were when the order was placed', async () => {
+    now.value = new Date('2025-07-10T10:00:00Z'); // SAVE10 has expired since
+
+    const result = await returnService.processReturn(order, [{ productId: '2', size: '9', quantity: 1 }]);
+
+    expect(result.remainingPricing.voucherResults).toEqual([
+      { code: 'SAVE10', strategyId: 'Voucher Discount - SAVE10 (10%)', status: 'APPLIED' },
+    ]);
+    expect(result.refundAmount).toEqual(new Decimal(540));
+  });
+
+  it('should refund the full amount when everything is returned', async () => {
+    const result = await returnService.processReturn(order, [
+      { productId: '1', size: 'M', quantity: 1 },
+      { productId: '2', size: '9', quantity: 2 },
+    ]);
+
+    expect(result.refundAmount).toEqual(new Decimal(2160));
+    expect(result.clawback).toEqual(new Decimal(0));
+    expect(result.offerAdjustments.every(offer => offer.status === 'PRORATED')).toBe(true);
+  });
+
+  it('should reject items that were not ordered or returned too many times', async () => {
+    await expect(returnService.processReturn(order, [{ productId: '3', size: 'M', quantity: 1 }])).rejects.toThrow(
+      'Item 3 (M) is not part of order order-1'
+    );
+    await expect(returnService.processReturn(order, [{ productId: '2', size: '9', quantity: 3 }])).rejects.toThrow(
+      'Cannot return more units of item 2 (9) than were ordered'
+    );
+  });
+});